@@ -0,0 +1,115 @@
+import { randomBytes } from "node:crypto";
+import type { IncomingMessage } from "node:http";
+import {
+  isSealedEnvelope,
+  openEnvelope,
+  openLegacyEnvelope,
+  type LegacyEnvelope,
+} from "../src/utils/envelope";
+import { signRequest } from "../src/utils/requestSignature";
+import type { StoredAgent } from "../src/mockApi/fixtures";
+
+// Session lifetime in seconds; set MOCK_SESSION_TTL low to exercise expiry
+const SESSION_TTL_SECONDS = Number(process.env.MOCK_SESSION_TTL) || 8 * 3600;
+// Signed requests further than this from the server clock are replays,
+// and nonces are remembered for as long as their timestamp stays inside it
+const MAX_CLOCK_SKEW_SECONDS = Number(process.env.MOCK_MAX_CLOCK_SKEW) || 300;
+
+interface MockSession {
+  token: string;
+  signingKey: string;
+  encryptionKey: string;
+  expiresAt: number;
+  agent: Omit<StoredAgent, "password">;
+}
+
+const sessions = new Map<string, MockSession>();
+
+const randomKey = (bytes: number) => randomBytes(bytes).toString("hex");
+
+export const createSession = (agent: StoredAgent) => {
+  const session: MockSession = {
+    token: randomKey(24),
+    signingKey: randomKey(32),
+    // AES-256 key parsed as UTF-8 by the client
+    encryptionKey: randomKey(16),
+    expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000,
+    agent: {
+      id: agent.id,
+      name: agent.name,
+      email: agent.email,
+      role: agent.role,
+    },
+  };
+  sessions.set(session.token, session);
+  return session;
+};
+
+export const endSession = (token: string) => sessions.delete(token);
+
+export const findSession = (token: string | undefined) => {
+  const session = token ? sessions.get(token) : undefined;
+  if (!session) return null;
+  if (Date.now() >= session.expiresAt) {
+    sessions.delete(session.token);
+    return null;
+  }
+  return session;
+};
+
+// Resolve the session for a request and verify its HMAC signature. Under
+// the /api mount req.url is the path the client signed.
+export const authenticate = (req: IncomingMessage, rawBody: string) => {
+  const session = findSession(
+    req.headers.authorization?.replace(/^Bearer /, "")
+  );
+  if (!session) return null;
+
+  const expected = signRequest(
+    {
+      method: req.method ?? "",
+      path: req.url ?? "",
+      timestamp: String(req.headers.timestamp ?? ""),
+      nonce: String(req.headers.nonce ?? ""),
+      body: rawBody,
+    },
+    session.signingKey
+  );
+  return req.headers.hmac === expected ? session : null;
+};
+
+// The signed timestamp is in seconds; a missing one is never fresh
+export const isFreshRequest = (req: IncomingMessage) => {
+  const timestamp = Number(req.headers.timestamp);
+  return (
+    Number.isFinite(timestamp) &&
+    Math.abs(Date.now() / 1000 - timestamp) <= MAX_CLOCK_SKEW_SECONDS
+  );
+};
+
+// Nonces of fresh requests, until their timestamp leaves the window
+const seenNonces = new Map<string, number>();
+
+// Records the nonce of a signed, fresh request. False when it is missing
+// or was already used, i.e. the request is a replay.
+export const claimNonce = (req: IncomingMessage) => {
+  const now = Date.now();
+  seenNonces.forEach((expiresAt, nonce) => {
+    if (expiresAt < now) seenNonces.delete(nonce);
+  });
+
+  const nonce = String(req.headers.nonce ?? "");
+  if (!nonce || seenNonces.has(nonce)) return false;
+  const timestamp = Number(req.headers.timestamp);
+  seenNonces.set(nonce, (timestamp + MAX_CLOCK_SKEW_SECONDS) * 1000);
+  return true;
+};
+
+// Accepts the versioned envelope and, during the migration, the old
+// unversioned AES-ECB body
+export const decryptBody = <T>(rawBody: string, session: MockSession): T => {
+  const body = JSON.parse(rawBody) as unknown;
+  return isSealedEnvelope(body)
+    ? openEnvelope<T>(body, session.encryptionKey)
+    : openLegacyEnvelope<T>(body as LegacyEnvelope, session.encryptionKey);
+};
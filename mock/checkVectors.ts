@@ -0,0 +1,14 @@
+import { verifyEnvelopeVectors } from "./envelopeVectors";
+import { verifySignatureVectors } from "./signatureVectors";
+
+// Entry point for `npm run check:vectors`: the same known-answer checks the
+// mock runs on startup, without booting the dev server.
+
+try {
+  verifyEnvelopeVectors();
+  verifySignatureVectors();
+  console.log("Envelope and signature vectors OK");
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}
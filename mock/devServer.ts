@@ -0,0 +1,248 @@
+import type { IncomingMessage, Server, ServerResponse } from "node:http";
+import type { Plugin } from "vite";
+import {
+  authenticate,
+  claimNonce,
+  createSession,
+  decryptBody,
+  endSession,
+  isFreshRequest,
+} from "./auth";
+import { verifyEnvelopeVectors } from "./envelopeVectors";
+import { verifySignatureVectors } from "./signatureVectors";
+import { attachMockSocketServer, type MockRealtime } from "./socketServer";
+import { MockApi, MockHttpError } from "../src/mockApi/backend";
+import { createMockData, toAgentRef } from "../src/mockApi/fixtures";
+import { EnvelopeError, sealEnvelope } from "../src/utils/envelope";
+
+// Local stand-in for https://api.sayy.ai, enabled with `npm run dev:mock`.
+// It serves the same /api routes and /socket.io endpoint the Vite proxy
+// forwards in normal dev, plus /api/mock/* helpers for driving the UI.
+// The admin routes are the fake backend in src/mockApi, which demo mode
+// also runs; this file adds sessions, signing, sealing and the socket.
+
+type Session = NonNullable<ReturnType<typeof authenticate>>;
+
+interface RouteContext {
+  req: IncomingMessage;
+  query: URLSearchParams;
+  rawBody: string;
+  session: Session | null;
+}
+
+type RouteHandler = (context: RouteContext) => unknown;
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+
+// Returned by a route to answer with raw bytes instead of the JSON envelope
+class MockFile {
+  readonly name: string;
+  readonly mimeType: string;
+  readonly data: Buffer;
+
+  constructor(name: string, mimeType: string, data: Buffer) {
+    this.name = name;
+    this.mimeType = mimeType;
+    this.data = data;
+  }
+}
+
+const sendJson = (res: ServerResponse, status: number, payload: unknown) => {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(payload));
+};
+
+const requireSession = (session: Session | null) => {
+  if (!session) throw new MockHttpError(401, "Unauthorized");
+  return session;
+};
+
+// Attachment urls stand in for the backend's storage links, which need no
+// signed headers so they work in <img> and download links
+const attachmentUrl = (id: string) =>
+  `/api/mock/attachment?id=${encodeURIComponent(id)}`;
+
+// Replaced by the socket server once Vite has an HTTP server
+let realtime: MockRealtime = {
+  broadcast: () => undefined,
+  dropAll: () => undefined,
+};
+
+// Extra conversations for load testing, e.g. MOCK_CHAT_COUNT=10000. The
+// first generated one gets a MOCK_TRANSCRIPT_LENGTH-message transcript.
+const api = new MockApi(
+  createMockData({
+    attachmentUrl,
+    extraChatCount: Number(process.env.MOCK_CHAT_COUNT) || 0,
+    longTranscriptLength: Number(process.env.MOCK_TRANSCRIPT_LENGTH) || 5000,
+  }),
+  {
+    broadcast: (event, payload) => realtime.broadcast(event, payload),
+    attachmentUrl,
+  }
+);
+
+const SLA_CHECK_INTERVAL_MS =
+  Number(process.env.MOCK_SLA_CHECK_INTERVAL) || 15000;
+
+// Signed-in admin routes: the body arrives sealed and the agent is
+// whoever the session belongs to
+const handleApiRoute = (
+  path: string,
+  { req, query, rawBody, session }: RouteContext
+) => {
+  const current = requireSession(session);
+  return api.handle({
+    method: req.method ?? "GET",
+    path,
+    query,
+    body: rawBody ? decryptBody<unknown>(rawBody, current) : {},
+    agent: toAgentRef(current.agent),
+    role: current.agent.role,
+  });
+};
+
+const routes: Record<string, RouteHandler> = {
+  "POST /admin/auth/login": ({ rawBody }) => {
+    const { email = "", password = "" } = JSON.parse(rawBody || "{}");
+    const agent = api.findAgent(String(email), String(password));
+    if (!agent) throw new MockHttpError(401, "Invalid email or password");
+    return createSession(agent);
+  },
+
+  "POST /admin/auth/logout": ({ req, session }) => {
+    requireSession(session);
+    endSession(req.headers.authorization?.replace(/^Bearer /, "") ?? "");
+    return true;
+  },
+
+  "GET /mock/attachment": ({ query }) => {
+    const file = api.getAttachment(query.get("id") ?? "");
+    if (!file) throw new MockHttpError(404, "Attachment not found");
+    return new MockFile(file.name, file.mimeType, Buffer.from(file.data));
+  },
+
+  // Simulate a customer writing in:
+  // curl -X POST localhost:5173/api/mock/customerMessage \
+  //   -d '{"clientId":"client-1001","content":"Hello?"}'
+  // Add "file": {"name","mimeType","data"} with base64 data to attach one
+  "POST /mock/customerMessage": ({ rawBody }) => {
+    const { clientId, content, file } = JSON.parse(rawBody || "{}");
+    return api.addCustomerMessage(
+      String(clientId),
+      String(content ?? ""),
+      file
+        ? {
+            name: String(file.name ?? "file"),
+            mimeType: String(file.mimeType ?? ""),
+            data: String(file.data ?? ""),
+          }
+        : undefined
+    );
+  },
+
+  // Play the bot asking for a human; ignored while an agent has taken over
+  "POST /mock/requestHandoff": ({ rawBody }) => {
+    const { clientId, reason } = JSON.parse(rawBody || "{}");
+    return api.requestHandoff(String(clientId), String(reason ?? ""));
+  },
+
+  // Drop every socket to exercise reconnect and re-sync
+  "POST /mock/dropSockets": () => {
+    realtime.dropAll();
+    return true;
+  },
+};
+
+export function mockBackend(): Plugin {
+  return {
+    name: "sayy-mock-backend",
+    configureServer(server) {
+      verifyEnvelopeVectors();
+      verifySignatureVectors();
+      if (server.httpServer) {
+        realtime = attachMockSocketServer(server.httpServer as Server);
+      }
+
+      api.recordSlaBreaches();
+      const slaTimer = setInterval(
+        () => api.recordSlaBreaches(),
+        SLA_CHECK_INTERVAL_MS
+      );
+      server.httpServer?.on("close", () => clearInterval(slaTimer));
+
+      server.middlewares.use("/api", async (req, res) => {
+        const [path, search = ""] = (req.url ?? "/").split("?");
+        const handler = routes[`${req.method} ${path}`];
+        if (!handler && !api.hasRoute(req.method ?? "", path)) {
+          sendJson(res, 404, { error: `No mock route for ${path}` });
+          return;
+        }
+
+        try {
+          const rawBody = await readBody(req);
+          const session = authenticate(req, rawBody);
+          if (session && !isFreshRequest(req)) {
+            throw new MockHttpError(
+              400,
+              "Request timestamp is outside the allowed window",
+              "STALE_REQUEST"
+            );
+          }
+          if (session && !claimNonce(req)) {
+            throw new MockHttpError(
+              400,
+              "Request nonce is missing or was already used",
+              "REPLAYED_REQUEST"
+            );
+          }
+          const context = {
+            req,
+            query: new URLSearchParams(search),
+            rawBody,
+            session,
+          };
+          const result = handler
+            ? await handler(context)
+            : handleApiRoute(path, context);
+          if (result instanceof MockFile) {
+            res.setHeader("Content-Type", result.mimeType);
+            res.setHeader(
+              "Content-Disposition",
+              `inline; filename*=UTF-8''${encodeURIComponent(result.name)}`
+            );
+            res.end(result.data);
+            return;
+          }
+          // Signed-in responses are sealed like request bodies
+          sendJson(
+            res,
+            200,
+            session
+              ? sealEnvelope({ result }, session.encryptionKey)
+              : { result }
+          );
+        } catch (error) {
+          const status =
+            error instanceof MockHttpError
+              ? error.status
+              : error instanceof EnvelopeError
+              ? 400
+              : 500;
+          sendJson(res, status, {
+            error: error instanceof Error ? error.message : "Mock error",
+            code: error instanceof MockHttpError ? error.code : undefined,
+          });
+        }
+      });
+    },
+  };
+}
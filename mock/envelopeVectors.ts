@@ -0,0 +1,101 @@
+import CryptoJS from "crypto-js";
+import {
+  EnvelopeError,
+  openEnvelope,
+  openLegacyEnvelope,
+  sealEnvelope,
+  type SealedEnvelope,
+} from "../src/utils/envelope";
+
+// Known-answer vectors for the payload envelope, generated independently
+// with Node's crypto (hkdfSync, aes-256-cbc, HMAC-SHA256). The mock checks
+// them on startup, so `npm run dev:mock` fails fast if the client and the
+// backend contract drift apart; `npm run check:vectors` runs them alone.
+
+const KEY = "00112233445566778899aabbccddeeff";
+
+interface SealedVector {
+  name: string;
+  payload: unknown;
+  // Hex
+  iv: string;
+  expected: SealedEnvelope;
+}
+
+const SEALED_VECTORS: SealedVector[] = [
+  {
+    name: "request body",
+    payload: { clientId: "client-1001", status: "resolved" },
+    iv: "000102030405060708090a0b0c0d0e0f",
+    expected: {
+      v: 2,
+      iv: "AAECAwQFBgcICQoLDA0ODw==",
+      data: "J7H0fLqbGr9aFDD9zc7JsjdrjucudwtPhzyAsgl5Ejr519dWrQAWVqa14aADQVAa",
+      mac: "uJrmIX/52hR0ha3WC97QpVveYclYz73fIakfyra+p7o=",
+    },
+  },
+  {
+    name: "response with non-ASCII text",
+    payload: { result: [{ content: "Grüße, 你好 👋" }] },
+    iv: "f0e0d0c0b0a090807060504030201000",
+    expected: {
+      v: 2,
+      iv: "8ODQwLCgkIBwYFBAMCAQAA==",
+      data: "xWsXoM7AmIfk1Bfwid5l73vJLDMqiCVhDcGA1ksp2hfBfTRRbtP1icDEq05wX5W1",
+      mac: "0QaNBvNqAwmK88s9YMu1R2lMPEYUglcVFwHFo4cBXGU=",
+    },
+  },
+];
+
+// Version 1 body as the old client sent it
+const LEGACY_VECTOR = {
+  payload: { clientId: "client-1001" },
+  envelope: { data: "yEx+XoJ48NpRXPL4vxDsi6c5RzOk27ukBAEavzbUjn0=" },
+};
+
+const assert = (condition: boolean, message: string) => {
+  if (!condition) throw new Error(`Envelope test vector failed: ${message}`);
+};
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+const rejects = (envelope: SealedEnvelope) => {
+  try {
+    openEnvelope(envelope, KEY);
+    return false;
+  } catch (error) {
+    return error instanceof EnvelopeError;
+  }
+};
+
+export const verifyEnvelopeVectors = () => {
+  SEALED_VECTORS.forEach(({ name, payload, iv, expected }) => {
+    const sealed = sealEnvelope(payload, KEY, CryptoJS.enc.Hex.parse(iv));
+    assert(same(sealed, expected), `${name}: sealed output`);
+    assert(same(openEnvelope(expected, KEY), payload), `${name}: round trip`);
+    assert(
+      rejects({ ...expected, mac: sealEnvelope(payload, KEY).mac }),
+      `${name}: wrong MAC accepted`
+    );
+    assert(
+      rejects({ ...expected, data: `A${expected.data.slice(1)}` }),
+      `${name}: tampered ciphertext accepted`
+    );
+    assert(
+      rejects({ ...expected, iv: sealEnvelope(payload, KEY).iv }),
+      `${name}: swapped IV accepted`
+    );
+  });
+
+  // A random IV makes every sealing of the same payload different
+  const payload = SEALED_VECTORS[0].payload;
+  const first = sealEnvelope(payload, KEY);
+  const second = sealEnvelope(payload, KEY);
+  assert(first.iv !== second.iv && first.data !== second.data, "IV reuse");
+  assert(same(openEnvelope(first, KEY), payload), "random IV round trip");
+  assert(rejects(sealEnvelope(payload, `${KEY}0`)), "wrong key accepted");
+
+  const legacy = openLegacyEnvelope(LEGACY_VECTOR.envelope, KEY);
+  assert(same(legacy, LEGACY_VECTOR.payload), "legacy body");
+};
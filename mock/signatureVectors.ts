@@ -0,0 +1,67 @@
+import {
+  signRequest,
+  type SignedRequest,
+} from "../src/utils/requestSignature";
+
+// Known-answer vectors for the request signature, generated independently
+// with Node's crypto (createHmac over the newline-joined fields). Checked
+// with the envelope vectors on startup and by `npm run check:vectors`.
+
+const SIGNING_KEY =
+  "00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff";
+
+interface SignatureVector {
+  name: string;
+  request: SignedRequest;
+  // Hex
+  expected: string;
+}
+
+const SIGNATURE_VECTORS: SignatureVector[] = [
+  {
+    name: "GET with a query string",
+    request: {
+      method: "GET",
+      path: "/admin/getChatMessages?clientId=client-1001&limit=50",
+      timestamp: "1760000000.123",
+      nonce: "3f1c2b4e-5d6a-4b7c-8d9e-0f1a2b3c4d5e",
+      body: "",
+    },
+    expected:
+      "bf03dd93d3409039f8abb942d893d27fa4efc80840e216e4d5ef935ff5b9978e",
+  },
+  {
+    name: "POST with a sealed body",
+    request: {
+      method: "POST",
+      path: "/admin/updateChatStatus",
+      timestamp: "1760000000",
+      nonce: "0b7e2f6a-8c1d-4e3f-9a5b-6c7d8e9f0a1b",
+      body:
+        '{"v":2,"iv":"AAECAwQFBgcICQoLDA0ODw==",' +
+        '"data":"J7H0","mac":"uJrm"}',
+    },
+    expected:
+      "d33d0de3e4d3f8e801e7b07b08307b849b53bc3a0eed37b6daf9db8898600fd1",
+  },
+];
+
+const assert = (condition: boolean, message: string) => {
+  if (!condition) throw new Error(`Signature test vector failed: ${message}`);
+};
+
+export const verifySignatureVectors = () => {
+  SIGNATURE_VECTORS.forEach(({ name, request, expected }) => {
+    assert(signRequest(request, SIGNING_KEY) === expected, name);
+    // Every signed field changes the signature
+    (["method", "path", "timestamp", "nonce", "body"] as const).forEach(
+      (field) => {
+        const altered = { ...request, [field]: `${request[field]}x` };
+        assert(
+          signRequest(altered, SIGNING_KEY) !== expected,
+          `${name}: ${field} not covered`
+        );
+      }
+    );
+  });
+};
@@ -0,0 +1,99 @@
+import { randomBytes } from "node:crypto";
+import type { Server } from "node:http";
+import { WebSocketServer, type WebSocket } from "ws";
+import { findSession } from "./auth";
+
+// Minimal Socket.IO (Engine.IO v4, websocket transport) server for the mock
+// backend. Set MOCK_PING_INTERVAL (ms) low to exercise heartbeat handling.
+
+const PING_INTERVAL_MS = Number(process.env.MOCK_PING_INTERVAL) || 25000;
+const PING_TIMEOUT_MS = 20000;
+
+export interface MockRealtime {
+  broadcast: (event: string, payload: unknown) => void;
+  // Kill every connection without a close frame, like a network drop
+  dropAll: () => void;
+}
+
+// The auth object of a CONNECT packet, `40{"token":...}`; null when the
+// payload is not a JSON object
+const readConnectAuth = (packet: string): Record<string, unknown> | null => {
+  if (packet.length === 2) return {};
+  try {
+    const auth: unknown = JSON.parse(packet.slice(2));
+    return typeof auth === "object" && auth !== null && !Array.isArray(auth)
+      ? (auth as Record<string, unknown>)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+export const attachMockSocketServer = (httpServer: Server): MockRealtime => {
+  const wss = new WebSocketServer({ noServer: true });
+  const connected = new Set<WebSocket>();
+
+  const handleConnection = (ws: WebSocket) => {
+    const sid = randomBytes(10).toString("hex");
+    ws.send(
+      "0" +
+        JSON.stringify({
+          sid,
+          upgrades: [],
+          pingInterval: PING_INTERVAL_MS,
+          pingTimeout: PING_TIMEOUT_MS,
+          maxPayload: 1000000,
+        })
+    );
+
+    let alive = true;
+    const pingTimer = setInterval(() => {
+      if (!alive) {
+        ws.terminate();
+        return;
+      }
+      alive = false;
+      ws.send("2");
+    }, PING_INTERVAL_MS);
+
+    ws.on("message", (raw) => {
+      const packet = raw.toString();
+      if (packet === "3") {
+        alive = true;
+      } else if (packet.startsWith("40")) {
+        const auth = readConnectAuth(packet);
+        const error = !auth
+          ? "Invalid connect packet"
+          : typeof auth.token !== "string" || !findSession(auth.token)
+          ? "Unauthorized"
+          : null;
+        if (error) {
+          ws.send(`44${JSON.stringify({ message: error })}`);
+          ws.close();
+          return;
+        }
+        connected.add(ws);
+        ws.send(`40${JSON.stringify({ sid })}`);
+      }
+    });
+
+    ws.on("close", () => {
+      clearInterval(pingTimer);
+      connected.delete(ws);
+    });
+  };
+
+  httpServer.on("upgrade", (req, socket, head) => {
+    // Vite's HMR socket shares this server; only take our own path
+    if (!req.url?.startsWith("/socket.io/")) return;
+    wss.handleUpgrade(req, socket, head, handleConnection);
+  });
+
+  return {
+    broadcast: (event, payload) => {
+      const packet = `42${JSON.stringify([event, payload])}`;
+      connected.forEach((ws) => ws.send(packet));
+    },
+    dropAll: () => connected.forEach((ws) => ws.terminate()),
+  };
+};
@@ -1,8 +1,15 @@
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import { ThemeProvider, CssBaseline } from "@mui/material";
 import { createTheme } from "@mui/material/styles";
+import Dashboard from "./pages/Dashboard";
 import Support from "./pages/Support";
+import Macros from "./pages/Macros";
+import Settings from "./pages/Settings";
+import Audit from "./pages/Audit";
+import Login from "./pages/Login";
 import Layout from "./components/Layout";
+import RequireAuth from "./components/RequireAuth";
+import AuthProvider from "./context/AuthProvider";
 
 // Create a theme instance
 const theme = createTheme({
@@ -21,20 +28,34 @@ function App() {
   return (
     <ThemeProvider theme={theme}>
       <CssBaseline />
-      <Router>
-        <Layout>
+      <AuthProvider>
+        <Router>
           <Routes>
+            <Route path="/login" element={<Login />} />
             <Route
-              path="/"
+              path="/*"
               element={
-                <div className="text-center">Welcome to the Home Page</div>
+                <RequireAuth>
+                  <Layout>
+                    <Routes>
+                      <Route path="/" element={<Dashboard />} />
+                      <Route path="/support" element={<Support />} />
+                      <Route
+                        path="/support/:clientId"
+                        element={<Support />}
+                      />
+                      <Route path="/macros" element={<Macros />} />
+                      <Route path="/settings" element={<Settings />} />
+                      <Route path="/audit" element={<Audit />} />
+                      {/* Add more routes here as needed */}
+                    </Routes>
+                  </Layout>
+                </RequireAuth>
               }
             />
-            <Route path="/support" element={<Support />} />
-            {/* Add more routes here as needed */}
           </Routes>
-        </Layout>
-      </Router>
+        </Router>
+      </AuthProvider>
     </ThemeProvider>
   );
 }
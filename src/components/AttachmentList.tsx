@@ -0,0 +1,93 @@
+import React, { useState } from "react";
+import type { Attachment } from "../lib/types";
+import {
+  formatFileSize,
+  isImageAttachment,
+  toSafeAttachmentUrl,
+} from "../utils/attachments";
+import Lightbox from "./Lightbox";
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  // Support bubbles are dark, so file cards need lighter text
+  inverted?: boolean;
+}
+
+// Image thumbnails that open in a lightbox, and download cards for the rest.
+// An attachment with an unsafe URL gets a card without a link.
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  inverted = false,
+}) => {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const checked = attachments.map((item) => ({
+    ...item,
+    url: toSafeAttachmentUrl(item.url),
+  }));
+  const images = checked.filter(
+    (item): item is Attachment => item.url !== null && isImageAttachment(item)
+  );
+  const files = checked.filter(
+    (item) => item.url === null || !isImageAttachment(item)
+  );
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              onClick={() => setOpenIndex(index)}
+              className="p-0 bg-transparent rounded overflow-hidden focus:outline-none focus:ring-2 focus:ring-indigo-400"
+            >
+              <img
+                src={image.url}
+                alt={image.name}
+                loading="lazy"
+                className="h-32 max-w-[12rem] object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+      {files.map((file) => (
+        <a
+          key={file.id}
+          href={file.url ?? undefined}
+          download={file.url ? file.name : undefined}
+          className={`flex items-center gap-3 px-3 py-2 rounded border no-underline ${
+            inverted
+              ? "border-indigo-400 bg-indigo-500 text-white hover:bg-indigo-400"
+              : "border-gray-200 bg-gray-50 text-gray-800 hover:bg-gray-100"
+          }`}
+        >
+          <span aria-hidden="true">📄</span>
+          <span className="flex-1 min-w-0">
+            <span className="block text-sm font-medium truncate">
+              {file.name}
+            </span>
+            <span
+              className={`block text-xs ${
+                inverted ? "text-indigo-100" : "text-gray-500"
+              }`}
+            >
+              {formatFileSize(file.size)} ·{" "}
+              {file.url ? "Download" : "Link blocked"}
+            </span>
+          </span>
+        </a>
+      ))}
+      {openIndex !== null && (
+        <Lightbox
+          images={images}
+          index={openIndex}
+          onIndexChange={setOpenIndex}
+          onClose={() => setOpenIndex(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AttachmentList;
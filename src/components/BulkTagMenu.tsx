@@ -0,0 +1,173 @@
+import React, { useState } from "react";
+import { useTagCatalog } from "../hooks/useTagCatalog";
+
+export type BulkTagAction = "add" | "remove";
+
+interface BulkTagMenuProps {
+  label: string;
+  // How many conversations the current filters match
+  matchCount: number;
+  disabled?: boolean;
+  // Resolves to the number of conversations whose tags changed
+  onApply: (tag: string, action: BulkTagAction) => Promise<number>;
+}
+
+type BulkTagResult =
+  | { kind: "done"; updated: number }
+  | { kind: "error"; message: string; detail?: string };
+
+const selectClassName =
+  "w-full p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const conversations = (count: number) =>
+  `${count} conversation${count === 1 ? "" : "s"}`;
+
+// Button with a popover to add or remove one tag on many conversations.
+// It can touch a whole view, so the agent confirms the count first.
+const BulkTagMenu: React.FC<BulkTagMenuProps> = ({
+  label,
+  matchCount,
+  disabled,
+  onApply,
+}) => {
+  const catalog = useTagCatalog();
+  const [open, setOpen] = useState(false);
+  const [tag, setTag] = useState("");
+  const [pending, setPending] = useState<BulkTagAction | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [result, setResult] = useState<BulkTagResult | null>(null);
+  const selected = tag || catalog[0]?.name || "";
+
+  const toggle = () => {
+    setOpen((prev) => !prev);
+    setPending(null);
+    setResult(null);
+  };
+
+  const apply = async (action: BulkTagAction) => {
+    if (!selected) return;
+    setBusy(true);
+    setResult(null);
+    try {
+      const updated = await onApply(selected, action);
+      setResult({ kind: "done", updated });
+      setPending(null);
+    } catch (error) {
+      console.error("Error tagging conversations:", error);
+      setResult({
+        kind: "error",
+        message: `Could not ${action} the tag.`,
+        detail: error instanceof Error ? error.message : undefined,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={toggle}
+        disabled={disabled || catalog.length === 0}
+        className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors disabled:opacity-40"
+      >
+        {label}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-64 p-3 space-y-2 bg-white border border-gray-200 rounded-lg shadow-lg z-30 text-sm text-gray-700">
+          <label className="block space-y-1">
+            <span className="text-gray-500">Tag</span>
+            <select
+              value={selected}
+              onChange={(e) => {
+                setTag(e.target.value);
+                setPending(null);
+                setResult(null);
+              }}
+              disabled={busy}
+              className={selectClassName}
+            >
+              {catalog.map((item) => (
+                <option key={item.name} value={item.name}>
+                  {item.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          {result?.kind === "done" && (
+            <p className="text-xs text-green-700">
+              Updated {conversations(result.updated)}.
+            </p>
+          )}
+          {result?.kind === "error" && (
+            <div
+              title={result.detail}
+              className="text-xs rounded bg-red-50 text-red-700 px-2 py-1.5"
+            >
+              {result.message}
+            </div>
+          )}
+          {pending ? (
+            <>
+              <p className="text-xs text-gray-700">
+                {pending === "add"
+                  ? `Add “${selected}” to`
+                  : `Remove “${selected}” from`}{" "}
+                all {conversations(matchCount)} the current filters match?
+              </p>
+              <div className="flex justify-end gap-2 pt-1">
+                <button
+                  onClick={() => setPending(null)}
+                  disabled={busy}
+                  className="px-3 py-1.5 rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors disabled:opacity-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => apply(pending)}
+                  disabled={busy}
+                  className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  {busy
+                    ? "Updating..."
+                    : result?.kind === "error"
+                    ? "Retry"
+                    : "Confirm"}
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-xs text-gray-500">
+                Applies to all {conversations(matchCount)} the current filters
+                match.
+              </p>
+              <div className="flex justify-end gap-2 pt-1">
+                <button
+                  onClick={() => {
+                    setPending("remove");
+                    setResult(null);
+                  }}
+                  className="px-3 py-1.5 rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+                >
+                  Remove
+                </button>
+                <button
+                  onClick={() => {
+                    setPending("add");
+                    setResult(null);
+                  }}
+                  className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+                >
+                  Add
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkTagMenu;
@@ -0,0 +1,163 @@
+import React, { useRef, useState } from "react";
+import { useShortcut } from "../hooks/useShortcuts";
+import { useTagCatalog } from "../hooks/useTagCatalog";
+import {
+  DEFAULT_CHAT_FILTERS,
+  hasActiveFilters,
+  type ChatFilters,
+  type SenderFilter,
+} from "../utils/chatFilters";
+
+interface ChatFilterBarProps {
+  filters: ChatFilters;
+  onChange: (filters: ChatFilters) => void;
+  resultCount: number;
+}
+
+const inputClassName =
+  "p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const ChatFilterBar: React.FC<ChatFilterBarProps> = ({
+  filters,
+  onChange,
+  resultCount,
+}) => {
+  const [expanded, setExpanded] = useState(
+    () => hasActiveFilters({ ...filters, query: "" })
+  );
+
+  const searchRef = useRef<HTMLInputElement>(null);
+  const tags = useTagCatalog();
+
+  useShortcut("focusSearch", () => {
+    searchRef.current?.focus();
+    searchRef.current?.select();
+  });
+
+  const update = (patch: Partial<ChatFilters>) =>
+    onChange({ ...filters, ...patch });
+
+  return (
+    <div className="p-3 border-b border-gray-200 bg-white space-y-2">
+      <div className="flex items-center space-x-2">
+        <input
+          ref={searchRef}
+          type="search"
+          value={filters.query}
+          onChange={(e) => update({ query: e.target.value })}
+          // Leave the field so single-key shortcuts work again
+          onKeyDown={(e) => e.key === "Escape" && e.currentTarget.blur()}
+          placeholder="Search chats and messages..."
+          className={`flex-1 min-w-0 ${inputClassName}`}
+        />
+        <button
+          onClick={() => setExpanded((prev) => !prev)}
+          className={`px-2 py-1.5 text-sm rounded transition-colors ${
+            expanded ? "text-indigo-600" : "text-gray-600 hover:text-indigo-600"
+          }`}
+        >
+          Filters
+        </button>
+      </div>
+      {expanded && (
+        <div className="space-y-2 text-sm text-gray-700">
+          <div className="flex items-center space-x-2">
+            <span className="w-14 text-gray-500">Sender</span>
+            <select
+              value={filters.sender}
+              onChange={(e) =>
+                update({ sender: e.target.value as SenderFilter })
+              }
+              className={`flex-1 ${inputClassName}`}
+            >
+              <option value="all">Anyone</option>
+              <option value="customer">Customer</option>
+              <option value="bot">AI bot</option>
+              <option value="support">Agent</option>
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="w-14 text-gray-500">Tag</span>
+            <select
+              value={filters.tag ?? ""}
+              onChange={(e) => update({ tag: e.target.value || null })}
+              className={`flex-1 ${inputClassName}`}
+            >
+              <option value="">Any tag</option>
+              {/* Keep a tag from a shared link selectable after deletion */}
+              {filters.tag && !tags.some((tag) => tag.name === filters.tag) && (
+                <option value={filters.tag}>{filters.tag}</option>
+              )}
+              {tags.map((tag) => (
+                <option key={tag.name} value={tag.name}>
+                  {tag.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="w-14 text-gray-500">From</span>
+            <input
+              type="date"
+              value={filters.from ?? ""}
+              max={filters.to ?? undefined}
+              onChange={(e) => update({ from: e.target.value || null })}
+              className={`flex-1 ${inputClassName}`}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <span className="w-14 text-gray-500">To</span>
+            <input
+              type="date"
+              value={filters.to ?? ""}
+              min={filters.from ?? undefined}
+              onChange={(e) => update({ to: e.target.value || null })}
+              className={`flex-1 ${inputClassName}`}
+            />
+          </div>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={filters.unreadOnly}
+              onChange={(e) => update({ unreadOnly: e.target.checked })}
+            />
+            <span>Unread only</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={filters.awaitingReply}
+              onChange={(e) => update({ awaitingReply: e.target.checked })}
+            />
+            <span>Awaiting support reply</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={filters.mentionedOnly}
+              onChange={(e) => update({ mentionedOnly: e.target.checked })}
+            />
+            <span>Mentioning me</span>
+          </label>
+        </div>
+      )}
+      {hasActiveFilters(filters) && (
+        <div className="flex justify-between items-center text-xs text-gray-500">
+          <span>
+            {resultCount} {resultCount === 1 ? "match" : "matches"}
+          </span>
+          <button
+            onClick={() =>
+              onChange({ ...DEFAULT_CHAT_FILTERS, view: filters.view })
+            }
+            className="text-indigo-600 hover:underline"
+          >
+            Clear
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatFilterBar;
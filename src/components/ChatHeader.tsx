@@ -0,0 +1,152 @@
+import React from "react";
+import type { AgentRef, ChatStatus, ChatSummary } from "../lib/types";
+import { CHAT_STATUS_OPTIONS, getChatStatus } from "../utils/chatStatus";
+import type { TranscriptExportOptions } from "../utils/transcriptExport";
+import ExportMenu from "./ExportMenu";
+import SlaCountdown from "./SlaCountdown";
+import TagPicker from "./TagPicker";
+
+interface ChatHeaderProps {
+  log: ChatSummary;
+  agents: AgentRef[];
+  currentAgentId?: string;
+  onBack: () => void;
+  onStatusChange: (status: ChatStatus) => void;
+  onAssign: (assigneeId: string | null) => void;
+  onExport: (options: TranscriptExportOptions) => void;
+  onTakeOver: () => void;
+  onHandBack: () => void;
+  onTagsChange: (tags: string[]) => void;
+  customerPanelOpen: boolean;
+  onToggleCustomerPanel: () => void;
+}
+
+const selectClassName =
+  "p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const ChatHeader: React.FC<ChatHeaderProps> = ({
+  log,
+  agents,
+  currentAgentId,
+  onBack,
+  onStatusChange,
+  onAssign,
+  onExport,
+  onTakeOver,
+  onHandBack,
+  onTagsChange,
+  customerPanelOpen,
+  onToggleCustomerPanel,
+}) => {
+  const assigneeId = log.assignee?.id ?? "";
+  // Keep the current assignee selectable even if the agent list is stale
+  const assigneeOptions =
+    log.assignee && !agents.some((agent) => agent.id === log.assignee?.id)
+      ? [...agents, log.assignee]
+      : agents;
+
+  return (
+    <div className="p-4 border-b border-gray-200 bg-white flex flex-wrap items-center gap-3 sticky top-0 z-10 shadow-sm">
+      {/* Back button on mobile */}
+      <button
+        onClick={onBack}
+        className="md:hidden p-2 bg-transparent hover:bg-gray-100 rounded-full transition-colors"
+      >
+        <svg
+          className="w-5 h-5 text-gray-600"
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M15 19l-7-7 7-7"
+          />
+        </svg>
+      </button>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <h2 className="text-lg font-semibold text-gray-800 truncate">
+            {log.chatTitle}
+          </h2>
+          <SlaCountdown chat={log} />
+        </div>
+        <div className="text-sm text-gray-500 truncate">
+          {log.clientId} · {log.messageCount} messages ·{" "}
+          {log.aiPaused ? "Agent has taken over" : "AI bot answering"}
+        </div>
+        <div className="mt-1">
+          <TagPicker tags={log.tags ?? []} onChange={onTagsChange} />
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          aria-label="Status"
+          value={getChatStatus(log)}
+          onChange={(e) => onStatusChange(e.target.value as ChatStatus)}
+          className={selectClassName}
+        >
+          {CHAT_STATUS_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Assignee"
+          value={assigneeId}
+          onChange={(e) => onAssign(e.target.value || null)}
+          className={selectClassName}
+        >
+          <option value="">Unassigned</option>
+          {assigneeOptions.map((agent) => (
+            <option key={agent.id} value={agent.id}>
+              {agent.id === currentAgentId ? `${agent.name} (me)` : agent.name}
+            </option>
+          ))}
+        </select>
+        {currentAgentId && assigneeId !== currentAgentId && (
+          <button
+            onClick={() => onAssign(currentAgentId)}
+            className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+          >
+            Assign to me
+          </button>
+        )}
+        {log.aiPaused ? (
+          <button
+            onClick={onHandBack}
+            title="Let the AI bot answer this customer again"
+            className="px-3 py-1.5 text-sm rounded border border-teal-300 bg-white text-teal-700 hover:bg-teal-50 transition-colors"
+          >
+            Hand back to AI
+          </button>
+        ) : (
+          <button
+            onClick={onTakeOver}
+            title="Pause the AI bot and answer this customer yourself"
+            className="px-3 py-1.5 text-sm rounded border border-orange-300 bg-white text-orange-700 hover:bg-orange-50 transition-colors"
+          >
+            Take over
+          </button>
+        )}
+        <ExportMenu label="Export" onExport={onExport} />
+        <button
+          onClick={onToggleCustomerPanel}
+          aria-pressed={customerPanelOpen}
+          className={`px-3 py-1.5 text-sm rounded border transition-colors ${
+            customerPanelOpen
+              ? "border-indigo-500 bg-indigo-50 text-indigo-600"
+              : "border-gray-200 bg-white text-gray-600 hover:text-indigo-600"
+          }`}
+        >
+          Customer
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChatHeader;
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import type { ChatSummary } from "../lib/types";
+import { getChatStatus, getStatusOption } from "../utils/chatStatus";
+import {
+  SENDER_ROLE_LABELS,
+  describeMessage,
+  getSenderRole,
+} from "../utils/messages";
+import { isMentioned } from "../utils/notes";
+import HighlightedText from "./HighlightedText";
+import SlaCountdown from "./SlaCountdown";
+import TagChips from "./TagChips";
+
+interface ChatListProps {
+  chats: ChatSummary[];
+  // Leading chats that are waiting for a human after a bot handoff
+  queuedCount?: number;
+  selectedClientId: string | null;
+  // Row moved to with the keyboard; Enter opens it
+  cursorClientId?: string | null;
+  currentAgentId?: string;
+  query: string;
+  loading: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  emptyText: string;
+  onLoadMore: () => void;
+  onSelect: (chat: ChatSummary) => void;
+}
+
+const ESTIMATED_ROW_HEIGHT = 96;
+// Start fetching the next page this many rows before the end
+const LOAD_MORE_THRESHOLD = 10;
+
+// Virtualized conversation list that pages in more summaries on scroll
+const ChatList: React.FC<ChatListProps> = ({
+  chats,
+  queuedCount = 0,
+  selectedClientId,
+  cursorClientId = null,
+  currentAgentId,
+  query,
+  loading,
+  loadingMore,
+  hasMore,
+  emptyText,
+  onLoadMore,
+  onSelect,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualizer = useVirtualizer({
+    count: chats.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    getItemKey: (index) => chats[index].clientId,
+    overscan: 8,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualRows[virtualRows.length - 1]?.index ?? -1;
+  const cursorIndex = cursorClientId
+    ? chats.findIndex((chat) => chat.clientId === cursorClientId)
+    : -1;
+
+  useEffect(() => {
+    if (cursorIndex >= 0) virtualizer.scrollToIndex(cursorIndex);
+  }, [cursorIndex, virtualizer]);
+
+  useEffect(() => {
+    if (
+      hasMore &&
+      !loadingMore &&
+      lastVisibleIndex >= chats.length - LOAD_MORE_THRESHOLD
+    ) {
+      onLoadMore();
+    }
+  }, [hasMore, loadingMore, lastVisibleIndex, chats.length, onLoadMore]);
+
+  if (loading) {
+    return <div className="flex-1 p-4 text-gray-500">Loading...</div>;
+  }
+  if (chats.length === 0) {
+    return <div className="flex-1 p-4 text-gray-500">{emptyText}</div>;
+  }
+
+  return (
+    <>
+      {queuedCount > 0 && (
+        <div className="px-3 py-1.5 text-xs font-medium text-orange-800 bg-orange-50 border-b border-orange-100">
+          {queuedCount === 1
+            ? "1 conversation is waiting for a human"
+            : `${queuedCount} conversations are waiting for a human`}
+        </div>
+      )}
+      <div ref={scrollRef} className="flex-1 overflow-y-auto">
+        <div
+          className="relative w-full"
+          style={{ height: virtualizer.getTotalSize() }}
+        >
+          {virtualRows.map((row) => {
+            const log = chats[row.index];
+            const lastMessage = log.lastMessage;
+            const lastMessageTime = lastMessage
+              ? new Date(lastMessage.timestamp)
+              : null;
+            const hasUnread = log.unreadCount > 0;
+            const lastSender = lastMessage
+              ? SENDER_ROLE_LABELS[getSenderRole(lastMessage.sender)]
+              : null;
+
+            return (
+              <div
+                key={row.key}
+                data-index={row.index}
+                ref={virtualizer.measureElement}
+                className={`absolute left-0 top-0 w-full p-3 cursor-pointer border-b border-gray-100 transition-colors
+                  ${
+                    selectedClientId === log.clientId
+                      ? "bg-indigo-50 border-l-4 border-indigo-500"
+                      : "hover:bg-gray-50"
+                  }
+                  ${
+                    hasUnread
+                      ? "bg-blue-50 border-l-4 border-blue-500 animate-pulse-subtle"
+                      : ""
+                  }
+                  ${
+                    row.index === cursorIndex
+                      ? "ring-2 ring-inset ring-indigo-300"
+                      : ""
+                  }
+                `}
+                style={{ transform: `translateY(${row.start}px)` }}
+                aria-current={row.index === cursorIndex || undefined}
+                onClick={() => onSelect(log)}
+              >
+                <div className="flex justify-between items-start">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium text-gray-800 truncate">
+                        <HighlightedText text={log.chatTitle} query={query} />
+                      </span>
+                      {hasUnread && (
+                        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                          {log.unreadCount} new
+                        </span>
+                      )}
+                      {isMentioned(log, currentAgentId) && (
+                        <span
+                          title="A note mentions you"
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-yellow-100 text-yellow-800"
+                        >
+                          @
+                        </span>
+                      )}
+                      {log.handoffRequest && (
+                        <span
+                          title={log.handoffRequest.reason || undefined}
+                          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800 whitespace-nowrap"
+                        >
+                          Needs human
+                        </span>
+                      )}
+                      <SlaCountdown chat={log} />
+                      {getChatStatus(log) !== "open" && (
+                        <span
+                          className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${
+                            getStatusOption(getChatStatus(log)).className
+                          }`}
+                        >
+                          {getStatusOption(getChatStatus(log)).label}
+                        </span>
+                      )}
+                    </div>
+                    {query && (
+                      <div className="text-xs text-gray-400 truncate">
+                        <HighlightedText text={log.clientId} query={query} />
+                      </div>
+                    )}
+                    {lastMessage && (
+                      <div className="mt-1 text-sm text-gray-600 truncate">
+                        <span className="font-medium">
+                          {lastSender}:{" "}
+                        </span>
+                        <HighlightedText
+                          text={describeMessage(lastMessage)}
+                          query={query}
+                        />
+                      </div>
+                    )}
+                    {log.tags && log.tags.length > 0 && (
+                      <div className="mt-1">
+                        <TagChips tags={log.tags} />
+                      </div>
+                    )}
+                  </div>
+                  {hasUnread && (
+                    <div className="flex items-center space-x-2 ml-2">
+                      <span className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" />
+                    </div>
+                  )}
+                </div>
+                <div className="text-xs text-gray-500 mt-1 flex justify-between items-center">
+                  {lastMessageTime && (
+                    <span className="text-gray-500">
+                      {lastMessageTime.toLocaleDateString()} at{" "}
+                      {lastMessageTime.toLocaleTimeString([], {
+                        hour: "2-digit",
+                        minute: "2-digit",
+                      })}
+                    </span>
+                  )}
+                  {hasUnread ? (
+                    <span className="text-blue-600 text-xs font-medium">
+                      Unread message
+                    </span>
+                  ) : (
+                    <span className="truncate ml-2">
+                      {log.assignee
+                        ? log.assignee.id === currentAgentId
+                          ? "Assigned to me"
+                          : log.assignee.name
+                        : "Unassigned"}
+                    </span>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        {loadingMore && (
+          <div className="p-3 text-center text-sm text-gray-500">
+            Loading more...
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default ChatList;
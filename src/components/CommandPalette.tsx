@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { getCommands, type Command } from "../lib/commands";
+import { getChatSummaries } from "../lib/serverActions";
+import { isAbortError } from "../lib/apiClient";
+import type { ChatSummary } from "../lib/types";
+import { useShortcutBindings } from "../hooks/useShortcuts";
+import { useOpenChat } from "../hooks/useOpenChat";
+import { DEFAULT_CHAT_FILTERS } from "../utils/chatFilters";
+import { formatShortcut } from "../utils/shortcuts";
+
+interface CommandPaletteProps {
+  onClose: () => void;
+}
+
+interface PaletteItem {
+  id: string;
+  label: string;
+  detail: string;
+  shortcut?: string;
+  run: () => void;
+}
+
+const CONVERSATION_LIMIT = 8;
+const SEARCH_DEBOUNCE_MS = 200;
+
+const matchesQuery = (text: string, query: string) => {
+  const haystack = text.toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .every((word) => haystack.includes(word));
+};
+
+// Ctrl/Cmd+K: run any registered command or jump to a conversation by title
+// or client id. Conversations are searched on the server, not just the
+// loaded list.
+const CommandPalette: React.FC<CommandPaletteProps> = ({ onClose }) => {
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [chats, setChats] = useState<ChatSummary[]>([]);
+  const [searching, setSearching] = useState(false);
+  const bindings = useShortcutBindings();
+  const openChat = useOpenChat();
+  // Read once: the palette is mounted fresh each time it opens
+  const [commands] = useState<Command[]>(getCommands);
+  const trimmed = query.trim();
+
+  useEffect(() => {
+    setChats([]);
+    if (!trimmed) return;
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setSearching(true);
+      getChatSummaries(
+        {
+          // Resolved conversations are found too
+          filters: { ...DEFAULT_CHAT_FILTERS, view: "any", query: trimmed },
+          limit: CONVERSATION_LIMIT,
+        },
+        { signal: controller.signal }
+      )
+        .then((page) => setChats(page.items))
+        .catch((error) => {
+          if (!isAbortError(error)) {
+            console.error("Error searching conversations:", error);
+          }
+        })
+        .finally(() => setSearching(false));
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [trimmed]);
+
+  const items = useMemo<PaletteItem[]>(
+    () => [
+      ...commands
+        .filter((command) => matchesQuery(command.label, trimmed))
+        .map((command) => ({
+          id: command.id,
+          label: command.label,
+          detail: command.group,
+          shortcut: command.shortcut && bindings[command.shortcut],
+          run: command.run,
+        })),
+      ...chats.map((chat) => ({
+        id: `chat:${chat.clientId}`,
+        label: chat.chatTitle,
+        detail: chat.clientId,
+        run: () => openChat(chat.clientId),
+      })),
+    ],
+    [commands, chats, trimmed, bindings, openChat]
+  );
+
+  const selected = Math.min(activeIndex, items.length - 1);
+
+  const runItem = (item: PaletteItem | undefined) => {
+    if (!item) return;
+    onClose();
+    item.run();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      const count = Math.max(1, items.length);
+      setActiveIndex((selected + step + count) % count);
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      runItem(items[selected]);
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black bg-opacity-40 p-4 pt-[15vh]"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-lg bg-white rounded-lg shadow-xl overflow-hidden text-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a command or search conversations..."
+          className="w-full px-4 py-3 border-b border-gray-200 text-black focus:outline-none"
+        />
+        <ul role="listbox" className="max-h-80 overflow-y-auto py-1">
+          {items.map((item, idx) => (
+            <li
+              key={item.id}
+              role="option"
+              aria-selected={idx === selected}
+              onMouseEnter={() => setActiveIndex(idx)}
+              onClick={() => runItem(item)}
+              className={`flex items-center gap-3 px-4 py-2 text-sm cursor-pointer ${
+                idx === selected ? "bg-indigo-50 text-indigo-700" : ""
+              }`}
+            >
+              <span className="flex-1 truncate">{item.label}</span>
+              <span className="text-xs text-gray-400 truncate max-w-[10rem]">
+                {item.detail}
+              </span>
+              {item.shortcut && (
+                <kbd className="px-1.5 rounded border border-gray-200 bg-gray-50 text-xs text-gray-500 font-mono">
+                  {formatShortcut(item.shortcut)}
+                </kbd>
+              )}
+            </li>
+          ))}
+          {items.length === 0 && (
+            <li className="px-4 py-2 text-sm text-gray-500">
+              {searching ? "Searching..." : "No matching commands."}
+            </li>
+          )}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,414 @@
+import React, {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import type { Macro } from "../lib/macros";
+import type { AgentRef } from "../lib/types";
+import { useMacros } from "../hooks/useMacros";
+import type { PendingUpload } from "../hooks/useAttachmentUploads";
+import { ATTACHMENT_ACCEPT, formatFileSize } from "../utils/attachments";
+import { renderMacro, type MacroVariables } from "../utils/macroTemplate";
+import MacroPicker from "./MacroPicker";
+import MentionPicker from "./MentionPicker";
+import RichText from "./RichText";
+
+// Replies go to the customer, notes only to other agents
+export type ComposerMode = "reply" | "note";
+
+interface ComposerProps {
+  value: string;
+  onChange: (value: string) => void;
+  onSend: () => void;
+  mode: ComposerMode;
+  onModeChange: (mode: ComposerMode) => void;
+  // Values for {{placeholders}} in macros
+  macroVariables: MacroVariables;
+  // Offered after "@" in notes
+  agents: AgentRef[];
+  // Files for the reply; notes cannot carry attachments
+  uploads: PendingUpload[];
+  uploadError: string | null;
+  onAddFiles: (files: File[]) => void;
+  onRetryUpload: (id: string) => void;
+  onRemoveUpload: (id: string) => void;
+  // Changing this moves focus into the editor, e.g. from a shortcut
+  focusRequest?: number;
+}
+
+// "/" at the start of a word opens the macro picker; the rest is the search
+const MACRO_TRIGGER = /(^|\s)\/([^\s/]*)$/;
+const MENTION_TRIGGER = /(^|\s)@([^\s@]*)$/;
+
+// The editor grows with its content up to this height, then scrolls
+const MAX_EDITOR_HEIGHT_PX = 200;
+
+const MODES: { value: ComposerMode; label: string }[] = [
+  { value: "reply", label: "Reply" },
+  { value: "note", label: "Note" },
+];
+
+const UploadChip: React.FC<{
+  upload: PendingUpload;
+  onRetry: () => void;
+  onRemove: () => void;
+}> = ({ upload, onRetry, onRemove }) => (
+  <div
+    title={upload.error}
+    className={`relative flex items-center gap-2 pl-3 pr-1 py-1 rounded border text-sm overflow-hidden ${
+      upload.status === "failed"
+        ? "border-red-200 bg-red-50 text-red-800"
+        : "border-gray-200 bg-gray-50 text-gray-700"
+    }`}
+  >
+    {upload.status === "uploading" && (
+      <span
+        className="absolute left-0 bottom-0 h-0.5 bg-indigo-500 transition-all"
+        style={{ width: `${Math.round(upload.progress * 100)}%` }}
+      />
+    )}
+    <span className="truncate max-w-[10rem]">{upload.file.name}</span>
+    <span className="text-xs text-gray-500">
+      {upload.status === "uploading"
+        ? `${Math.round(upload.progress * 100)}%`
+        : upload.status === "failed"
+        ? "Failed"
+        : formatFileSize(upload.file.size)}
+    </span>
+    {upload.status === "failed" && (
+      <button
+        type="button"
+        onClick={onRetry}
+        className="px-1 py-0 bg-transparent text-xs font-medium text-indigo-600 hover:underline"
+      >
+        Retry
+      </button>
+    )}
+    <button
+      type="button"
+      onClick={onRemove}
+      aria-label={`Remove ${upload.file.name}`}
+      className="px-1 py-0 bg-transparent text-gray-400 hover:text-gray-700"
+    >
+      ✕
+    </button>
+  </div>
+);
+
+const Composer: React.FC<ComposerProps> = ({
+  value,
+  onChange,
+  onSend,
+  mode,
+  onModeChange,
+  macroVariables,
+  agents,
+  uploads,
+  uploadError,
+  onAddFiles,
+  onRetryUpload,
+  onRemoveUpload,
+  focusRequest = 0,
+}) => {
+  const macros = useMacros();
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [dragging, setDragging] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+
+  useLayoutEffect(() => {
+    const el = inputRef.current;
+    if (!el) return;
+    el.style.height = "auto";
+    el.style.height = `${Math.min(el.scrollHeight, MAX_EDITOR_HEIGHT_PX)}px`;
+  }, [value, previewing]);
+
+  useEffect(() => {
+    if (!focusRequest) return;
+    setPreviewing(false);
+    requestAnimationFrame(() => inputRef.current?.focus());
+  }, [focusRequest]);
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissed, setDismissed] = useState(false);
+
+  const beforeCaret = value.slice(0, caret);
+  const macroTrigger = dismissed ? null : MACRO_TRIGGER.exec(beforeCaret);
+  const mentionTrigger =
+    dismissed || mode !== "note" ? null : MENTION_TRIGGER.exec(beforeCaret);
+  const trigger = macroTrigger ?? mentionTrigger;
+  const macroQuery = macroTrigger ? macroTrigger[2].toLowerCase() : null;
+  const mentionQuery = mentionTrigger ? mentionTrigger[2].toLowerCase() : null;
+
+  const matchingMacros = useMemo(
+    () =>
+      macroQuery === null
+        ? []
+        : macros.filter((macro) =>
+            `${macro.title} ${macro.category} ${macro.content}`
+              .toLowerCase()
+              .includes(macroQuery)
+          ),
+    [macros, macroQuery]
+  );
+
+  const matchingAgents = useMemo(
+    () =>
+      mentionQuery === null
+        ? []
+        : agents.filter((agent) =>
+            agent.name.toLowerCase().includes(mentionQuery)
+          ),
+    [agents, mentionQuery]
+  );
+
+  const optionCount = macroTrigger
+    ? matchingMacros.length
+    : matchingAgents.length;
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    onChange(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    setActiveIndex(0);
+    setDismissed(false);
+  };
+
+  // Replace the "/query" or "@query" before the caret with `text`
+  const replaceTrigger = (text: string) => {
+    if (!trigger) return;
+    const start = caret - trigger[0].length + trigger[1].length;
+    const next = value.slice(0, start) + text + value.slice(caret);
+    onChange(next);
+    const nextCaret = start + text.length;
+    setCaret(nextCaret);
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
+  };
+
+  const insertMacro = (macro: Macro) =>
+    replaceTrigger(renderMacro(macro.content, macroVariables));
+
+  const insertMention = (agent: AgentRef) =>
+    replaceTrigger(`@${agent.name} `);
+
+  const selectOption = (index: number) => {
+    if (macroTrigger) insertMacro(matchingMacros[index]);
+    else insertMention(matchingAgents[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (trigger) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        const count = Math.max(1, optionCount);
+        setActiveIndex((prev) => (prev + step + count) % count);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissed(true);
+        return;
+      }
+      if ((e.key === "Enter" || e.key === "Tab") && optionCount) {
+        e.preventDefault();
+        selectOption(Math.min(activeIndex, optionCount - 1));
+        return;
+      }
+    }
+    // Shift+Enter adds a line; Enter while composing accented text is not a send
+    if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      onSend();
+    }
+  };
+
+  const isNote = mode === "note";
+  const uploading = uploads.some((upload) => upload.status !== "done");
+  const canSend = isNote
+    ? !!value.trim()
+    : !uploading && (!!value.trim() || uploads.length > 0);
+
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (isNote || files.length === 0) return;
+    e.preventDefault();
+    onAddFiles(files);
+  };
+
+  // Dropping a file anywhere outside would make the browser navigate to it
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = isNote ? "none" : "copy";
+    setDragging(!isNote);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setDragging(false);
+    if (!isNote) onAddFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div
+      className={`space-y-2 rounded-lg ${
+        dragging ? "ring-2 ring-indigo-400 ring-offset-4" : ""
+      }`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setDragging(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex space-x-1 text-sm">
+        {MODES.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => onModeChange(option.value)}
+            className={`px-3 py-1 rounded transition-colors ${
+              mode === option.value
+                ? option.value === "note"
+                  ? "bg-yellow-100 text-yellow-800 font-medium"
+                  : "bg-indigo-50 text-indigo-700 font-medium"
+                : "bg-transparent text-gray-500 hover:text-indigo-600"
+            }`}
+          >
+            {option.label}
+          </button>
+        ))}
+        <span className="flex-1" />
+        {[false, true].map((preview) => (
+          <button
+            key={String(preview)}
+            type="button"
+            onClick={() => setPreviewing(preview)}
+            className={`px-3 py-1 rounded transition-colors ${
+              previewing === preview
+                ? "bg-gray-100 text-gray-800 font-medium"
+                : "bg-transparent text-gray-500 hover:text-indigo-600"
+            }`}
+          >
+            {preview ? "Preview" : "Write"}
+          </button>
+        ))}
+      </div>
+      {!isNote && uploads.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {uploads.map((upload) => (
+            <UploadChip
+              key={upload.id}
+              upload={upload}
+              onRetry={() => onRetryUpload(upload.id)}
+              onRemove={() => onRemoveUpload(upload.id)}
+            />
+          ))}
+        </div>
+      )}
+      {!isNote && uploadError && (
+        <div className="text-sm rounded bg-red-50 text-red-700 px-3 py-2">
+          {uploadError}
+        </div>
+      )}
+      <div className="flex items-end space-x-4">
+        {!isNote && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={ATTACHMENT_ACCEPT}
+              className="hidden"
+              onChange={(e) => {
+                onAddFiles(Array.from(e.target.files ?? []));
+                // Allow picking the same file again after removing it
+                e.target.value = "";
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              aria-label="Attach files"
+              title="Attach files"
+              className="px-3 py-3 rounded-lg border border-gray-200 bg-white text-gray-500 hover:text-indigo-600 transition-colors"
+            >
+              📎
+            </button>
+          </>
+        )}
+        <div className="relative flex-1">
+          {macroTrigger && (
+            <MacroPicker
+              macros={matchingMacros}
+              activeIndex={activeIndex}
+              onHover={setActiveIndex}
+              onSelect={insertMacro}
+            />
+          )}
+          {!macroTrigger && mentionTrigger && (
+            <MentionPicker
+              agents={matchingAgents}
+              activeIndex={activeIndex}
+              onHover={setActiveIndex}
+              onSelect={insertMention}
+            />
+          )}
+          {previewing && (
+            <div
+              className={`w-full p-3 border rounded-lg text-sm text-black overflow-y-auto ${
+                isNote
+                  ? "border-yellow-300 bg-yellow-50"
+                  : "border-gray-200 bg-white"
+              }`}
+              style={{ maxHeight: MAX_EDITOR_HEIGHT_PX }}
+            >
+              {value.trim() ? (
+                <RichText text={value} />
+              ) : (
+                <span className="text-gray-400">Nothing to preview</span>
+              )}
+            </div>
+          )}
+          <textarea
+            ref={inputRef}
+            rows={1}
+            value={value}
+            onChange={handleChange}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onSelect={(e) =>
+              setCaret(e.currentTarget.selectionStart ?? value.length)
+            }
+            onBlur={() => setDismissed(true)}
+            onFocus={() => setDismissed(false)}
+            placeholder={
+              isNote
+                ? "Internal note, only agents see this... (@ to mention)"
+                : "Type your message... (/ for macros)"
+            }
+            className={`${
+              previewing ? "hidden" : "block"
+            } w-full p-3 border rounded-lg text-black resize-none focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-shadow ${
+              isNote
+                ? "border-yellow-300 bg-yellow-50"
+                : "border-gray-200 bg-white"
+            }`}
+          />
+        </div>
+        <button
+          className="px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+          onClick={onSend}
+          disabled={!canSend}
+        >
+          {isNote ? "Add note" : "Send"}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Composer;
@@ -0,0 +1,21 @@
+import React from "react";
+import type { RealtimeStatus } from "../lib/realtime";
+
+const STATUS_STYLES: Record<RealtimeStatus, { dot: string; label: string }> = {
+  online: { dot: "bg-green-500", label: "Online" },
+  connecting: { dot: "bg-yellow-400 animate-pulse", label: "Connecting" },
+  reconnecting: { dot: "bg-yellow-400 animate-pulse", label: "Reconnecting" },
+  offline: { dot: "bg-red-500", label: "Offline" },
+};
+
+const ConnectionStatus: React.FC<{ status: RealtimeStatus }> = ({ status }) => {
+  const { dot, label } = STATUS_STYLES[status];
+  return (
+    <div className="flex items-center space-x-2">
+      <div className={`w-2 h-2 rounded-full ${dot}`} />
+      <span className="text-sm text-gray-500">{label}</span>
+    </div>
+  );
+};
+
+export default ConnectionStatus;
@@ -0,0 +1,385 @@
+import React, { useMemo, useState } from "react";
+import {
+  addChatNote,
+  assignChat,
+  getChatLog,
+  handBackChat,
+  recordTranscriptExport,
+  takeOverChat,
+  updateChatStatus,
+  updateChatTags,
+} from "../lib/serverActions";
+import { outbox } from "../lib/outbox";
+import { chatStore } from "../lib/chatStore";
+import { getDraft, saveDraft } from "../lib/drafts";
+import type { AgentRef, ChatStatus, ChatSummary } from "../lib/types";
+import { useAuth } from "../context/auth";
+import { useOutbox } from "../hooks/useOutbox";
+import { useChatTranscript } from "../hooks/useChatTranscript";
+import { useAttachmentUploads } from "../hooks/useAttachmentUploads";
+import { useDraft } from "../hooks/useDrafts";
+import { useShortcut } from "../hooks/useShortcuts";
+import { useCommands } from "../hooks/useCommands";
+import ChatHeader from "./ChatHeader";
+import Transcript from "./Transcript";
+import Composer from "./Composer";
+import { messageKey } from "../utils/messages";
+import { CHAT_STATUS_OPTIONS, getChatStatus } from "../utils/chatStatus";
+import { buildMacroVariables } from "../utils/macroTemplate";
+import { downloadFile } from "../utils/download";
+import {
+  exportTranscripts,
+  loadExportOptions,
+  type TranscriptExportOptions,
+} from "../utils/transcriptExport";
+import { extractMentions } from "../utils/notes";
+
+interface ActionError {
+  message: string;
+  detail?: string;
+  retry: () => void;
+}
+
+interface ConversationPaneProps {
+  chat: ChatSummary;
+  agents: AgentRef[];
+  highlight: string;
+  // The focused conversation takes the reply shortcut and palette commands
+  active: boolean;
+  // Split panes report clicks so the tab bar and customer panel follow
+  onFocus: () => void;
+  onBack: () => void;
+  customerPanelOpen: boolean;
+  onToggleCustomerPanel: () => void;
+}
+
+// The fields of `source` that `patch` touches
+const pickFields = (
+  source: Partial<ChatSummary> | undefined,
+  patch: Partial<ChatSummary>
+): Partial<ChatSummary> =>
+  Object.fromEntries(
+    Object.keys(patch).map((key) => [key, source?.[key as keyof ChatSummary]])
+  );
+
+// One open conversation: its transcript, header actions and composer. The
+// chat store keeps summary and transcript current; the pane only acts.
+const ConversationPane: React.FC<ConversationPaneProps> = ({
+  chat,
+  agents,
+  highlight,
+  active,
+  onFocus,
+  onBack,
+  customerPanelOpen,
+  onToggleCustomerPanel,
+}) => {
+  const { clientId } = chat;
+  const { agent } = useAuth();
+  const [noteError, setNoteError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<ActionError | null>(null);
+  const [focusRequest, setFocusRequest] = useState(0);
+  const transcript = useChatTranscript(clientId);
+  const uploads = useAttachmentUploads(clientId);
+  const draft = useDraft(clientId);
+
+  const outboxEntries = useOutbox();
+
+  const pendingMessages = useMemo(() => {
+    const delivered = new Set(transcript.messages.map(messageKey));
+    return outboxEntries.filter(
+      (entry) =>
+        entry.clientId === clientId &&
+        !delivered.has(messageKey(entry.message))
+    );
+  }, [outboxEntries, clientId, transcript.messages]);
+
+  // Header actions apply at once. A failure puts back what the server still
+  // has and keeps the action ready to retry, like a failed reply.
+  const runAction = async (
+    description: string,
+    patch: Partial<ChatSummary>,
+    request: () => Promise<Partial<ChatSummary> | null | undefined>
+  ) => {
+    const previous = pickFields(chatStore.getChat(clientId), patch);
+    const retry = () => runAction(description, patch, request);
+    setActionError(null);
+    chatStore.patchChat(clientId, patch);
+    try {
+      const updated = await request();
+      if (updated) chatStore.patchChat(clientId, pickFields(updated, patch));
+    } catch (error) {
+      console.error(`Error trying to ${description}:`, error);
+      chatStore.patchChat(clientId, previous);
+      setActionError({
+        message: `Could not ${description}.`,
+        detail: error instanceof Error ? error.message : undefined,
+        retry,
+      });
+    }
+  };
+
+  const handleStatusChange = (status: ChatStatus) =>
+    runAction("update the status", { status }, () =>
+      updateChatStatus({ clientId, status })
+    );
+
+  const handleAssign = (assigneeId: string | null) =>
+    runAction(
+      assigneeId ? "assign the conversation" : "unassign the conversation",
+      {
+        assignee: assigneeId
+          ? agents.find((candidate) => candidate.id === assigneeId) ?? null
+          : null,
+      },
+      () => assignChat({ clientId, assigneeId })
+    );
+
+  // Taking over pauses the bot and answers its handoff request
+  const handleTakeOver = () =>
+    runAction(
+      "take over from the AI bot",
+      { aiPaused: true, handoffRequest: null },
+      () => takeOverChat({ clientId })
+    );
+
+  const handleHandBack = () =>
+    runAction("hand back to the AI bot", { aiPaused: false }, () =>
+      handBackChat({ clientId })
+    );
+
+  const handleTagsChange = (tags: string[]) =>
+    runAction("update the tags", { tags }, () =>
+      updateChatTags({ clientId, tags })
+    );
+
+  // The page only holds summaries, so the export fetches the transcript
+  const handleExport = async (options: TranscriptExportOptions) => {
+    setActionError(null);
+    try {
+      const { filename, content, mimeType } = exportTranscripts(
+        [await getChatLog(clientId)],
+        options
+      );
+      downloadFile(filename, content, mimeType);
+      recordTranscriptExport({
+        clientIds: [clientId],
+        format: options.format,
+        includeNotes: options.includeNotes,
+      }).catch((error) => console.error("Error recording export:", error));
+    } catch (error) {
+      console.error("Error exporting transcript:", error);
+      setActionError({
+        message: "Could not export the conversation.",
+        detail: error instanceof Error ? error.message : undefined,
+        retry: () => handleExport(options),
+      });
+    }
+  };
+
+  const startComposing = (mode: "reply" | "note") => {
+    draft.setMode(mode);
+    setFocusRequest((prev) => prev + 1);
+  };
+
+  useShortcut("reply", () => startComposing("reply"), active);
+
+  useCommands(
+    active
+      ? [
+          {
+            id: "conversation:reply",
+            label: "Reply to customer",
+            group: chat.chatTitle,
+            shortcut: "reply",
+            run: () => startComposing("reply"),
+          },
+          {
+            id: "conversation:note",
+            label: "Add internal note",
+            group: chat.chatTitle,
+            run: () => startComposing("note"),
+          },
+          ...(agent && chat.assignee?.id !== agent.id
+            ? [
+                {
+                  id: "conversation:assign-me",
+                  label: "Assign to me",
+                  group: chat.chatTitle,
+                  run: () => handleAssign(agent.id),
+                },
+              ]
+            : []),
+          chat.aiPaused
+            ? {
+                id: "conversation:hand-back",
+                label: "Hand back to AI",
+                group: chat.chatTitle,
+                run: handleHandBack,
+              }
+            : {
+                id: "conversation:take-over",
+                label: "Take over from AI",
+                group: chat.chatTitle,
+                run: handleTakeOver,
+              },
+          ...CHAT_STATUS_OPTIONS.filter(
+            (option) => option.value !== getChatStatus(chat)
+          ).map((option) => ({
+            id: `conversation:status:${option.value}`,
+            label: `Mark as ${option.label.toLowerCase()}`,
+            group: chat.chatTitle,
+            run: () => handleStatusChange(option.value),
+          })),
+          {
+            id: "conversation:export",
+            label: "Export conversation",
+            group: chat.chatTitle,
+            run: () => handleExport(loadExportOptions()),
+          },
+        ]
+      : []
+  );
+
+  const handleSendMessage = () => {
+    if (!uploads.ready) return;
+    if (!draft.text.trim() && uploads.attachments.length === 0) return;
+
+    // The outbox keeps the reply until the server accepts it
+    outbox.enqueue(clientId, draft.text.trim(), uploads.attachments);
+    draft.setText("");
+    uploads.clear();
+  };
+
+  const handleAddNote = async () => {
+    const content = draft.text.trim();
+    if (!content) return;
+    draft.setText("");
+    setNoteError(null);
+    try {
+      const note = await addChatNote({
+        clientId,
+        note: {
+          id: crypto.randomUUID(),
+          content,
+          mentions: extractMentions(content, agents),
+        },
+      });
+      chatStore.receiveNote(clientId, note);
+    } catch (error) {
+      console.error("Error adding note:", error);
+      setNoteError("The note could not be saved. Try again.");
+      // Give the text back unless the agent already started a new one
+      if (!getDraft(clientId)?.text) {
+        saveDraft(clientId, { text: content, mode: "note" });
+      }
+    }
+  };
+
+  return (
+    <div
+      onFocusCapture={onFocus}
+      onMouseDown={onFocus}
+      className="flex-1 min-w-0 flex flex-col h-full bg-gray-50"
+    >
+      <ChatHeader
+        log={chat}
+        agents={agents}
+        currentAgentId={agent?.id}
+        onBack={onBack}
+        onStatusChange={handleStatusChange}
+        onAssign={handleAssign}
+        onExport={handleExport}
+        onTakeOver={handleTakeOver}
+        onHandBack={handleHandBack}
+        onTagsChange={handleTagsChange}
+        customerPanelOpen={customerPanelOpen}
+        onToggleCustomerPanel={onToggleCustomerPanel}
+      />
+
+      <Transcript
+        clientId={clientId}
+        messages={transcript.messages}
+        notes={transcript.notes}
+        pending={pendingMessages}
+        highlight={highlight}
+        loading={transcript.loading}
+        hasOlder={transcript.hasOlder}
+        loadingOlder={transcript.loadingOlder}
+        onLoadOlder={transcript.loadOlder}
+      />
+      <div className="p-4 border-t border-gray-200 bg-white sticky bottom-0">
+        {chat.handoffRequest ? (
+          <div className="mb-3 text-sm rounded bg-orange-50 text-orange-800 px-3 py-2 flex items-center justify-between gap-3">
+            <span>
+              The AI bot asked for a human
+              {chat.handoffRequest.reason
+                ? `: ${chat.handoffRequest.reason}`
+                : "."}
+            </span>
+            <button
+              onClick={handleTakeOver}
+              className="px-3 py-1 text-sm bg-orange-600 text-white rounded hover:bg-orange-700 transition-colors whitespace-nowrap"
+            >
+              Take over
+            </button>
+          </div>
+        ) : (
+          chat.aiPaused === false &&
+          draft.mode === "reply" && (
+            <div className="mb-3 text-sm rounded bg-teal-50 text-teal-800 px-3 py-2">
+              The AI bot is answering this customer. Take over so it stays
+              quiet while you reply.
+            </div>
+          )
+        )}
+        {chat.assignee && chat.assignee.id !== agent?.id && (
+          <div className="mb-3 text-sm rounded bg-yellow-50 text-yellow-800 px-3 py-2">
+            Assigned to {chat.assignee.name}. Check with them before replying.
+          </div>
+        )}
+        {actionError && (
+          <div className="mb-3 text-sm rounded bg-red-50 text-red-700 px-3 py-2 flex items-center justify-between gap-3">
+            <span title={actionError.detail}>{actionError.message}</span>
+            <div className="flex space-x-3 text-xs">
+              <button
+                onClick={actionError.retry}
+                className="p-0 bg-transparent font-medium text-indigo-600 hover:underline"
+              >
+                Retry
+              </button>
+              <button
+                onClick={() => setActionError(null)}
+                className="p-0 bg-transparent font-medium text-gray-500 hover:underline"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        )}
+        {noteError && (
+          <div className="mb-3 text-sm rounded bg-red-50 text-red-700 px-3 py-2">
+            {noteError}
+          </div>
+        )}
+        <Composer
+          value={draft.text}
+          onChange={draft.setText}
+          onSend={draft.mode === "note" ? handleAddNote : handleSendMessage}
+          mode={draft.mode}
+          onModeChange={draft.setMode}
+          macroVariables={buildMacroVariables(chat, agent)}
+          agents={agents}
+          uploads={uploads.uploads}
+          uploadError={uploads.error}
+          onAddFiles={uploads.addFiles}
+          onRetryUpload={uploads.retry}
+          onRemoveUpload={uploads.remove}
+          focusRequest={focusRequest}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ConversationPane;
@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from "react";
+import type { CustomerAttributes } from "../lib/types";
+import { useCustomerProfile } from "../hooks/useCustomerProfile";
+import { getChatStatus, getStatusOption } from "../utils/chatStatus";
+
+interface CustomerPanelProps {
+  clientId: string;
+  // _id of the conversation on screen, left out of the history list
+  currentChatId: string;
+  onClose: () => void;
+}
+
+const ATTRIBUTE_FIELDS: {
+  key: keyof CustomerAttributes;
+  label: string;
+  type: string;
+}[] = [
+  { key: "name", label: "Name", type: "text" },
+  { key: "email", label: "Email", type: "email" },
+  { key: "plan", label: "Plan", type: "text" },
+];
+
+const inputClassName =
+  "w-full p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const formatDateTime = (value: string | null) =>
+  value
+    ? new Date(value).toLocaleString([], {
+        dateStyle: "medium",
+        timeStyle: "short",
+      })
+    : "—";
+
+const Section: React.FC<{
+  title: string;
+  action?: React.ReactNode;
+  children: React.ReactNode;
+}> = ({ title, action, children }) => (
+  <section className="p-4 border-b border-gray-100">
+    <div className="flex items-center justify-between mb-2">
+      <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+        {title}
+      </h3>
+      {action}
+    </div>
+    {children}
+  </section>
+);
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <div className="py-1 text-sm">
+    <dt className="text-gray-500">{label}</dt>
+    <dd className="text-gray-800 break-words">{children}</dd>
+  </div>
+);
+
+// Right-hand panel with who the customer is, their other conversations and
+// where they are writing from. Agents can correct the profile attributes.
+const CustomerPanel: React.FC<CustomerPanelProps> = ({
+  clientId,
+  currentChatId,
+  onClose,
+}) => {
+  const { profile, loading, error, saveAttributes } =
+    useCustomerProfile(clientId);
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<CustomerAttributes>({});
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  // Drop an unsaved edit when switching to another customer
+  useEffect(() => {
+    setEditing(false);
+    setSaveError(null);
+  }, [clientId]);
+
+  const startEditing = () => {
+    setDraft(profile?.attributes ?? {});
+    setSaveError(null);
+    setEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await saveAttributes(draft);
+      setEditing(false);
+    } catch (error) {
+      console.error("Error saving customer:", error);
+      setSaveError("The changes could not be saved. Try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const otherConversations =
+    profile?.conversations.filter(
+      (conversation) => conversation._id !== currentChatId
+    ) ?? [];
+
+  return (
+    <aside className="fixed lg:relative inset-0 lg:inset-auto z-30 w-full lg:w-80 h-full flex flex-col bg-white border-l border-gray-200 text-gray-800">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Customer</h2>
+        <button
+          onClick={onClose}
+          aria-label="Close customer panel"
+          className="p-1 bg-transparent text-gray-500 hover:text-gray-800 rounded transition-colors"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {loading && !profile ? (
+          <div className="p-4 text-sm text-gray-500">Loading...</div>
+        ) : error && !profile ? (
+          <div className="m-4 text-sm rounded bg-red-50 text-red-700 px-3 py-2">
+            {error}
+          </div>
+        ) : profile ? (
+          <>
+            <Section
+              title="Profile"
+              action={
+                !editing && (
+                  <button
+                    onClick={startEditing}
+                    className="px-2 py-0.5 text-xs rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+                  >
+                    Edit
+                  </button>
+                )
+              }
+            >
+              {editing ? (
+                <form onSubmit={handleSave} className="space-y-2">
+                  {ATTRIBUTE_FIELDS.map((field) => (
+                    <label key={field.key} className="block text-sm">
+                      <span className="text-gray-500">{field.label}</span>
+                      <input
+                        type={field.type}
+                        value={draft[field.key] ?? ""}
+                        onChange={(e) =>
+                          setDraft({ ...draft, [field.key]: e.target.value })
+                        }
+                        className={inputClassName}
+                      />
+                    </label>
+                  ))}
+                  {saveError && (
+                    <div className="text-sm rounded bg-red-50 text-red-700 px-3 py-2">
+                      {saveError}
+                    </div>
+                  )}
+                  <div className="flex justify-end gap-2 pt-1">
+                    <button
+                      type="button"
+                      onClick={() => setEditing(false)}
+                      className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="submit"
+                      disabled={saving}
+                      className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                    >
+                      {saving ? "Saving..." : "Save"}
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <dl>
+                  {ATTRIBUTE_FIELDS.map((field) => (
+                    <Field key={field.key} label={field.label}>
+                      {profile.attributes[field.key] || (
+                        <span className="text-gray-400">Not set</span>
+                      )}
+                    </Field>
+                  ))}
+                  <Field label="Client ID">{profile.clientId}</Field>
+                </dl>
+              )}
+            </Section>
+
+            <Section title="Activity">
+              <dl>
+                <Field label="First seen">
+                  {formatDateTime(profile.firstSeen)}
+                </Field>
+                <Field label="Last seen">
+                  {formatDateTime(profile.lastSeen)}
+                </Field>
+                <Field label="Messages">
+                  {profile.messageCount} in {profile.conversations.length}{" "}
+                  {profile.conversations.length === 1
+                    ? "conversation"
+                    : "conversations"}
+                </Field>
+              </dl>
+            </Section>
+
+            <Section title="Session">
+              {profile.session ? (
+                <dl>
+                  <Field label="IP address">{profile.session.ip || "—"}</Field>
+                  <Field label="Location">
+                    {profile.session.location || "—"}
+                  </Field>
+                  <Field label="Page">
+                    {profile.session.pageUrl ? (
+                      <a
+                        href={profile.session.pageUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-indigo-600 hover:underline"
+                      >
+                        {profile.session.pageUrl}
+                      </a>
+                    ) : (
+                      "—"
+                    )}
+                  </Field>
+                  <Field label="Browser">
+                    <span className="text-xs text-gray-600">
+                      {profile.session.userAgent || "—"}
+                    </span>
+                  </Field>
+                </dl>
+              ) : (
+                <p className="text-sm text-gray-400">
+                  No session details recorded.
+                </p>
+              )}
+            </Section>
+
+            <Section title="Other conversations">
+              {otherConversations.length === 0 ? (
+                <p className="text-sm text-gray-400">
+                  No other conversations.
+                </p>
+              ) : (
+                <ul className="space-y-2">
+                  {otherConversations.map((conversation) => {
+                    const status = getStatusOption(
+                      getChatStatus(conversation)
+                    );
+                    return (
+                      <li
+                        key={conversation._id}
+                        className="p-2 rounded border border-gray-100 text-sm"
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium truncate">
+                            {conversation.chatTitle}
+                          </span>
+                          <span
+                            className={`px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${status.className}`}
+                          >
+                            {status.label}
+                          </span>
+                        </div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {formatDateTime(conversation.lastActivityAt)} ·{" "}
+                          {conversation.messageCount} messages
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </Section>
+          </>
+        ) : null}
+      </div>
+    </aside>
+  );
+};
+
+export default CustomerPanel;
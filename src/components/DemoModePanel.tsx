@@ -0,0 +1,46 @@
+import React, { useSyncExternalStore } from "react";
+import {
+  DEMO_MESSAGE_RATES,
+  enableDemoMode,
+  getDemoSettings,
+  isDemoMode,
+  subscribeToDemoMode,
+} from "../lib/demoMode";
+
+// Sidebar notice while demo mode is on, with the simulated message rate
+const DemoModePanel: React.FC = () => {
+  const active = useSyncExternalStore(subscribeToDemoMode, isDemoMode);
+  const { messageIntervalMs } = useSyncExternalStore(
+    subscribeToDemoMode,
+    getDemoSettings
+  );
+
+  if (!active) return null;
+
+  return (
+    <div className="mb-4 rounded bg-yellow-100 text-yellow-900 px-3 py-2 text-xs space-y-2">
+      <div>
+        <span className="font-semibold">Demo mode.</span> Conversations are
+        generated in your browser; log out to leave.
+      </div>
+      <label className="flex items-center justify-between gap-2">
+        <span>Customer messages</span>
+        <select
+          value={messageIntervalMs}
+          onChange={(e) =>
+            enableDemoMode({ messageIntervalMs: Number(e.target.value) })
+          }
+          className="p-1 rounded border border-yellow-300 bg-white text-black"
+        >
+          {DEMO_MESSAGE_RATES.map((rate) => (
+            <option key={rate.value} value={rate.value}>
+              {rate.label}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
+
+export default DemoModePanel;
@@ -0,0 +1,35 @@
+import React from "react";
+import { getEnvironment, getEnvironments } from "../lib/runtimeConfig";
+
+// Says which backend replies go to. Always shown outside production, and
+// in production whenever another environment could have been picked.
+const EnvironmentBanner: React.FC<{ className?: string }> = ({
+  className = "",
+}) => {
+  const environment = getEnvironment();
+
+  if (environment.production) {
+    if (getEnvironments().length < 2) return null;
+    return (
+      <div
+        role="status"
+        className={`rounded px-3 py-1.5 text-xs bg-gray-100 text-gray-600 ${className}`}
+      >
+        Connected to <span className="font-semibold">{environment.label}</span>
+        . Replies reach real customers.
+      </div>
+    );
+  }
+
+  return (
+    <div
+      role="status"
+      className={`rounded px-3 py-2 text-sm bg-orange-100 text-orange-900 border border-orange-300 ${className}`}
+    >
+      Connected to <span className="font-semibold">{environment.label}</span>,
+      not production.
+    </div>
+  );
+};
+
+export default EnvironmentBanner;
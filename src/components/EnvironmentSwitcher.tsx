@@ -0,0 +1,64 @@
+import React, { useState } from "react";
+import { useAuth } from "../context/auth";
+import {
+  getEnvironment,
+  getEnvironments,
+  selectEnvironment,
+} from "../lib/runtimeConfig";
+
+const inputClassName =
+  "p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+// Sessions belong to one backend, so switching signs out and reloads
+const EnvironmentSwitcher: React.FC = () => {
+  const { logout } = useAuth();
+  const current = getEnvironment();
+  const [selected, setSelected] = useState(current.id);
+  const [switching, setSwitching] = useState(false);
+  const target = getEnvironments().find(
+    (environment) => environment.id === selected
+  );
+
+  const handleSwitch = async () => {
+    if (!target || target.id === current.id) return;
+    if (
+      !window.confirm(
+        `Switch to ${target.label}? You will be signed out and need to ` +
+          "sign in there."
+      )
+    ) {
+      return;
+    }
+    setSwitching(true);
+    selectEnvironment(target.id);
+    await logout();
+    window.location.assign("/login");
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-3 text-sm">
+      <select
+        aria-label="Environment"
+        value={selected}
+        onChange={(e) => setSelected(e.target.value)}
+        className={`min-w-[12rem] ${inputClassName}`}
+      >
+        {getEnvironments().map((environment) => (
+          <option key={environment.id} value={environment.id}>
+            {environment.label}
+            {environment.production ? " (production)" : ""}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={handleSwitch}
+        disabled={switching || selected === current.id}
+        className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+      >
+        {switching ? "Switching..." : "Switch"}
+      </button>
+    </div>
+  );
+};
+
+export default EnvironmentSwitcher;
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from "react";
+import {
+  EXPORT_FORMATS,
+  getTimeZones,
+  loadExportOptions,
+  saveExportOptions,
+  type ExportFormat,
+  type TranscriptExportOptions,
+} from "../utils/transcriptExport";
+
+interface ExportMenuProps {
+  label: string;
+  disabled?: boolean;
+  onExport: (options: TranscriptExportOptions) => void;
+}
+
+const selectClassName =
+  "w-full p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+// Button with a small popover to pick format and timezone; the last choice
+// is remembered for the next export
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  label,
+  disabled,
+  onExport,
+}) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState(loadExportOptions);
+  const timeZones = useMemo(() => {
+    const zones = getTimeZones();
+    return zones.includes(options.timeZone)
+      ? zones
+      : [options.timeZone, ...zones];
+  }, [options.timeZone]);
+
+  const handleExport = () => {
+    saveExportOptions(options);
+    onExport(options);
+    setOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        disabled={disabled}
+        className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors disabled:opacity-40"
+      >
+        {label}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-64 p-3 space-y-2 bg-white border border-gray-200 rounded-lg shadow-lg z-30 text-sm text-gray-700">
+          <label className="block space-y-1">
+            <span className="text-gray-500">Format</span>
+            <select
+              value={options.format}
+              onChange={(e) =>
+                setOptions({
+                  ...options,
+                  format: e.target.value as ExportFormat,
+                })
+              }
+              className={selectClassName}
+            >
+              {EXPORT_FORMATS.map((format) => (
+                <option key={format.value} value={format.value}>
+                  {format.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block space-y-1">
+            <span className="text-gray-500">Timezone</span>
+            <select
+              value={options.timeZone}
+              onChange={(e) =>
+                setOptions({ ...options, timeZone: e.target.value })
+              }
+              className={selectClassName}
+            >
+              {timeZones.map((zone) => (
+                <option key={zone} value={zone}>
+                  {zone}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={options.includeNotes}
+              onChange={(e) =>
+                setOptions({ ...options, includeNotes: e.target.checked })
+              }
+            />
+            <span>Include internal notes</span>
+          </label>
+          <div className="flex justify-end gap-2 pt-1">
+            <button
+              onClick={() => setOpen(false)}
+              className="px-3 py-1.5 rounded bg-transparent text-gray-600 hover:text-indigo-600"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleExport}
+              className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+            >
+              Download
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,30 @@
+import React from "react";
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Renders `text` with every case-insensitive occurrence of `query` marked
+const HighlightedText: React.FC<{ text: string; query: string }> = ({
+  text,
+  query,
+}) => {
+  const needle = query.trim();
+  if (!needle) return <>{text}</>;
+
+  const parts = text.split(new RegExp(`(${escapeRegExp(needle)})`, "gi"));
+  return (
+    <>
+      {parts.map((part, idx) =>
+        idx % 2 === 1 ? (
+          <mark key={idx} className="bg-yellow-200 text-inherit rounded-sm">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+};
+
+export default HighlightedText;
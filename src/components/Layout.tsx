@@ -1,13 +1,49 @@
-import React from "react";
-import { Link, useLocation } from "react-router-dom";
+import React, { useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "../context/auth";
+import { useMessageAlerts } from "../hooks/useNotifications";
+import { useShortcut } from "../hooks/useShortcuts";
+import { useCommands } from "../hooks/useCommands";
+import CommandPalette from "./CommandPalette";
+import DemoModePanel from "./DemoModePanel";
+import EnvironmentBanner from "./EnvironmentBanner";
+import ShortcutHelp from "./ShortcutHelp";
 
 const sidebarLinks = [
   { label: "Dashboard", to: "/" },
   { label: "Support", to: "/support" },
+  { label: "Macros", to: "/macros" },
+  { label: "Audit", to: "/audit" },
+  { label: "Settings", to: "/settings" },
 ];
 
 const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const location = useLocation();
+  const { agent, logout } = useAuth();
+  const unreadCount = useMessageAlerts();
+  const navigate = useNavigate();
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [shortcutHelpOpen, setShortcutHelpOpen] = useState(false);
+
+  useShortcut("commandPalette", () => setPaletteOpen((prev) => !prev));
+  useShortcut("showShortcuts", () => setShortcutHelpOpen(true));
+
+  useCommands([
+    ...sidebarLinks.map((link) => ({
+      id: `route:${link.to}`,
+      label: `Go to ${link.label}`,
+      group: "Navigation",
+      run: () => navigate(link.to),
+    })),
+    {
+      id: "shortcuts",
+      label: "Show keyboard shortcuts",
+      group: "Help",
+      shortcut: "showShortcuts" as const,
+      run: () => setShortcutHelpOpen(true),
+    },
+  ]);
+
   return (
     <div className="flex min-h-screen bg-gray-50">
       {/* Sidebar */}
@@ -22,19 +58,49 @@ const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
             <Link
               key={link.to}
               to={link.to}
-              className={`block rounded px-4 py-2 text-base font-medium transition-colors ${
-                location.pathname === link.to
+              className={`flex items-center justify-between rounded px-4 py-2 text-base font-medium transition-colors ${
+                location.pathname === link.to ||
+                (link.to !== "/" &&
+                  location.pathname.startsWith(`${link.to}/`))
                   ? "bg-blue-100 text-blue-700"
                   : "text-white hover:bg-gray-800"
               }`}
             >
               {link.label}
+              {link.to === "/support" && unreadCount > 0 && (
+                <span
+                  title={`${unreadCount} unread conversations`}
+                  className="min-w-[1.5rem] px-1.5 py-0.5 rounded-full bg-red-500 text-white text-xs text-center"
+                >
+                  {unreadCount}
+                </span>
+              )}
             </Link>
           ))}
         </nav>
+        <DemoModePanel />
+        {agent && (
+          <div className="border-t border-gray-800 pt-4 px-2">
+            <div className="text-sm font-medium truncate">{agent.name}</div>
+            <div className="text-xs text-gray-400 truncate">{agent.email}</div>
+            <button
+              onClick={logout}
+              className="mt-3 w-full rounded px-4 py-2 text-sm font-medium text-white bg-gray-800 hover:bg-gray-700 transition-colors"
+            >
+              Log out
+            </button>
+          </div>
+        )}
       </aside>
       {/* Main Content */}
-      <main className="flex-1 p-8 overflow-y-auto ml-64">{children}</main>
+      <main className="flex-1 p-8 overflow-y-auto ml-64">
+        <EnvironmentBanner className="mb-4" />
+        {children}
+      </main>
+      {paletteOpen && <CommandPalette onClose={() => setPaletteOpen(false)} />}
+      {shortcutHelpOpen && (
+        <ShortcutHelp onClose={() => setShortcutHelpOpen(false)} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,85 @@
+import React, { useEffect } from "react";
+import type { Attachment } from "../lib/types";
+import { formatFileSize } from "../utils/attachments";
+
+interface LightboxProps {
+  images: Attachment[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+// Full-size view of a message's images; arrow keys step through them
+const Lightbox: React.FC<LightboxProps> = ({
+  images,
+  index,
+  onIndexChange,
+  onClose,
+}) => {
+  const image = images[index];
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      if (e.key === "ArrowRight" && index < images.length - 1) {
+        onIndexChange(index + 1);
+      }
+      if (e.key === "ArrowLeft" && index > 0) onIndexChange(index - 1);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [index, images.length, onIndexChange, onClose]);
+
+  if (!image) return null;
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={image.name}
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center bg-black bg-opacity-80 p-4"
+      onClick={onClose}
+    >
+      <img
+        src={image.url}
+        alt={image.name}
+        className="max-h-[80vh] max-w-full object-contain rounded shadow-lg"
+        onClick={(e) => e.stopPropagation()}
+      />
+      <div
+        className="mt-3 flex items-center gap-4 text-sm text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {images.length > 1 && (
+          <button
+            onClick={() => onIndexChange(index - 1)}
+            disabled={index === 0}
+            className="px-2 py-1 bg-transparent text-white disabled:opacity-40"
+          >
+            ←
+          </button>
+        )}
+        <span className="truncate max-w-xs">{image.name}</span>
+        <span className="text-gray-300">{formatFileSize(image.size)}</span>
+        <a
+          href={image.url}
+          download={image.name}
+          className="underline text-white hover:text-indigo-200"
+        >
+          Download
+        </a>
+        {images.length > 1 && (
+          <button
+            onClick={() => onIndexChange(index + 1)}
+            disabled={index === images.length - 1}
+            className="px-2 py-1 bg-transparent text-white disabled:opacity-40"
+          >
+            →
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Lightbox;
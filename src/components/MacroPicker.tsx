@@ -0,0 +1,46 @@
+import React from "react";
+import type { Macro } from "../lib/macros";
+
+interface MacroPickerProps {
+  macros: Macro[];
+  activeIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (macro: Macro) => void;
+}
+
+// Searchable list shown above the composer after typing "/"
+const MacroPicker: React.FC<MacroPickerProps> = ({
+  macros,
+  activeIndex,
+  onHover,
+  onSelect,
+}) => (
+  <div className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-20">
+    {macros.length === 0 ? (
+      <div className="p-3 text-sm text-gray-500">No matching macros.</div>
+    ) : (
+      macros.map((macro, idx) => (
+        <div
+          key={macro.id}
+          onMouseEnter={() => onHover(idx)}
+          // Keep focus in the composer
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(macro);
+          }}
+          className={`px-3 py-2 cursor-pointer ${
+            idx === activeIndex ? "bg-indigo-50" : "hover:bg-gray-50"
+          }`}
+        >
+          <div className="flex justify-between text-sm">
+            <span className="font-medium text-gray-800">{macro.title}</span>
+            <span className="text-xs text-gray-400">{macro.category}</span>
+          </div>
+          <div className="text-xs text-gray-500 truncate">{macro.content}</div>
+        </div>
+      ))
+    )}
+  </div>
+);
+
+export default MacroPicker;
@@ -0,0 +1,42 @@
+import React from "react";
+import type { AgentRef } from "../lib/types";
+
+interface MentionPickerProps {
+  agents: AgentRef[];
+  activeIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (agent: AgentRef) => void;
+}
+
+// Agent list shown above the composer after typing "@" in a note
+const MentionPicker: React.FC<MentionPickerProps> = ({
+  agents,
+  activeIndex,
+  onHover,
+  onSelect,
+}) => (
+  <div className="absolute bottom-full left-0 right-0 mb-2 max-h-64 overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg z-20">
+    {agents.length === 0 ? (
+      <div className="p-3 text-sm text-gray-500">No matching agents.</div>
+    ) : (
+      agents.map((agent, idx) => (
+        <div
+          key={agent.id}
+          onMouseEnter={() => onHover(idx)}
+          // Keep focus in the composer
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(agent);
+          }}
+          className={`px-3 py-2 cursor-pointer text-sm text-gray-800 ${
+            idx === activeIndex ? "bg-indigo-50" : "hover:bg-gray-50"
+          }`}
+        >
+          @{agent.name}
+        </div>
+      ))
+    )}
+  </div>
+);
+
+export default MentionPicker;
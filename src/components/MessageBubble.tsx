@@ -0,0 +1,105 @@
+import React from "react";
+import type { Message } from "../lib/types";
+import type { OutboxStatus } from "../lib/outbox";
+import { getSenderLabel, getSenderRole } from "../utils/messages";
+import AttachmentList from "./AttachmentList";
+import RichText from "./RichText";
+
+interface MessageBubbleProps {
+  message: Message;
+  highlight?: string;
+  // Set for replies still in the outbox
+  pending?: {
+    status: OutboxStatus;
+    // Waiting for an earlier failed reply to this customer
+    held: boolean;
+    error?: string;
+    onRetry: () => void;
+    onDiscard: () => void;
+  };
+}
+
+const MessageBubble: React.FC<MessageBubbleProps> = ({
+  message,
+  highlight = "",
+  pending,
+}) => {
+  const role = getSenderRole(message.sender);
+  const fromSupport = role === "agent";
+  const failed = pending?.status === "failed";
+
+  return (
+    <div
+      className={`flex ${
+        role === "customer" ? "justify-start" : "justify-end"
+      }`}
+    >
+      <div
+        className={`max-w-[85%] md:max-w-lg px-4 py-2 rounded-lg ${
+          fromSupport
+            ? failed
+              ? "bg-red-50 text-red-900 border border-red-200"
+              : `bg-indigo-600 text-white ${pending ? "opacity-70" : ""}`
+            : role === "bot"
+            ? "bg-teal-50 text-gray-800 border border-teal-200"
+            : "bg-white text-gray-800 shadow-sm"
+        }`}
+      >
+        {message.attachments?.length ? (
+          <div className={message.content ? "mb-2" : ""}>
+            <AttachmentList
+              attachments={message.attachments}
+              inverted={fromSupport && !failed}
+            />
+          </div>
+        ) : null}
+        {message.content && (
+          <div className="text-sm">
+            <RichText
+              text={message.content}
+              highlight={highlight}
+              inverted={fromSupport && !failed}
+            />
+          </div>
+        )}
+        <div
+          className={`text-xs mt-1 flex items-center justify-end space-x-2 ${
+            fromSupport && !failed ? "text-indigo-100" : "text-gray-500"
+          }`}
+        >
+          <span className="font-medium">{getSenderLabel(message)}</span>
+          <span>{new Date(message.timestamp).toLocaleTimeString()}</span>
+          {fromSupport && (
+            <span title={pending?.error}>
+              {!pending
+                ? "✓ Sent"
+                : failed
+                ? "Failed"
+                : pending.held
+                ? "Waiting for the failed reply"
+                : "Sending…"}
+            </span>
+          )}
+        </div>
+        {failed && (
+          <div className="flex justify-end space-x-3 mt-1 text-xs">
+            <button
+              onClick={pending.onRetry}
+              className="p-0 bg-transparent font-medium text-indigo-600 hover:underline"
+            >
+              Retry
+            </button>
+            <button
+              onClick={pending.onDiscard}
+              className="p-0 bg-transparent font-medium text-gray-500 hover:underline"
+            >
+              Discard
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MessageBubble;
@@ -0,0 +1,27 @@
+import React from "react";
+import type { InternalNote } from "../lib/types";
+import RichText from "./RichText";
+
+interface NoteBubbleProps {
+  note: InternalNote;
+  highlight?: string;
+}
+
+// Internal notes sit in the transcript but never reach the customer
+const NoteBubble: React.FC<NoteBubbleProps> = ({ note, highlight = "" }) => (
+  <div className="flex justify-center">
+    <div className="w-full md:max-w-xl px-4 py-2 rounded-lg border border-dashed border-yellow-300 bg-yellow-50 text-yellow-900">
+      <div className="text-xs font-medium text-yellow-700 mb-1">
+        Internal note · {note.author.name}
+      </div>
+      <div className="text-sm">
+        <RichText text={note.content} highlight={highlight} />
+      </div>
+      <div className="text-xs mt-1 text-right text-yellow-700">
+        {new Date(note.timestamp).toLocaleTimeString()}
+      </div>
+    </div>
+  </div>
+);
+
+export default NoteBubble;
@@ -0,0 +1,163 @@
+import React, { useMemo, useState } from "react";
+import {
+  parseMarkdown,
+  type BlockNode,
+  type InlineNode,
+} from "../utils/markdown";
+import HighlightedText from "./HighlightedText";
+
+interface RichTextProps {
+  text: string;
+  highlight?: string;
+  // Support bubbles are dark, so code and quotes need lighter styling
+  inverted?: boolean;
+}
+
+const CodeBlock: React.FC<{
+  language: string;
+  code: string;
+  inverted: boolean;
+}> = ({ language, code, inverted }) => {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Error copying code:", error);
+    }
+  };
+
+  return (
+    <div
+      className={`rounded overflow-hidden text-xs ${
+        inverted ? "bg-indigo-900 text-indigo-50" : "bg-gray-900 text-gray-100"
+      }`}
+    >
+      <div className="flex items-center justify-between px-2 py-1 bg-black bg-opacity-20">
+        <span className="font-mono opacity-70">{language || "code"}</span>
+        <button
+          type="button"
+          onClick={copy}
+          className="px-1.5 py-0 bg-transparent text-inherit opacity-80 hover:opacity-100"
+        >
+          {copied ? "Copied" : "Copy"}
+        </button>
+      </div>
+      <pre className="p-2 overflow-x-auto whitespace-pre font-mono">
+        <code>{code}</code>
+      </pre>
+    </div>
+  );
+};
+
+// Markdown for chat bubbles. Everything is rendered as React elements, so
+// message content can never inject markup; only http(s) and mailto links
+// become anchors.
+const RichText: React.FC<RichTextProps> = ({
+  text,
+  highlight = "",
+  inverted = false,
+}) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+
+  const renderInline = (nodes: InlineNode[]): React.ReactNode =>
+    nodes.map((node, idx) => {
+      switch (node.type) {
+        case "text":
+          return (
+            <HighlightedText key={idx} text={node.text} query={highlight} />
+          );
+        case "strong":
+          return <strong key={idx}>{renderInline(node.children)}</strong>;
+        case "em":
+          return <em key={idx}>{renderInline(node.children)}</em>;
+        case "code":
+          return (
+            <code
+              key={idx}
+              className={`px-1 rounded font-mono text-[0.85em] ${
+                inverted ? "bg-indigo-800" : "bg-gray-100 text-pink-700"
+              }`}
+            >
+              {node.text}
+            </code>
+          );
+        case "link":
+          return (
+            <a
+              key={idx}
+              href={node.href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={`underline break-all ${
+                inverted ? "text-white" : "text-indigo-600"
+              }`}
+            >
+              {renderInline(node.children)}
+            </a>
+          );
+      }
+    });
+
+  const renderBlock = (block: BlockNode, idx: number) => {
+    switch (block.type) {
+      case "paragraph":
+        return (
+          <p key={idx} className="whitespace-pre-wrap">
+            {renderInline(block.children)}
+          </p>
+        );
+      case "heading":
+        return (
+          <p key={idx} className="font-semibold">
+            {renderInline(block.children)}
+          </p>
+        );
+      case "quote":
+        return (
+          <blockquote
+            key={idx}
+            className={`pl-2 border-l-2 whitespace-pre-wrap ${
+              inverted ? "border-indigo-300" : "border-gray-300 text-gray-600"
+            }`}
+          >
+            {renderInline(block.children)}
+          </blockquote>
+        );
+      case "list": {
+        const items = block.items.map((item, itemIdx) => (
+          <li key={itemIdx} className="whitespace-pre-wrap">
+            {renderInline(item)}
+          </li>
+        ));
+        return block.ordered ? (
+          <ol key={idx} start={block.start} className="pl-5 list-decimal">
+            {items}
+          </ol>
+        ) : (
+          <ul key={idx} className="pl-5 list-disc">
+            {items}
+          </ul>
+        );
+      }
+      case "code":
+        return (
+          <CodeBlock
+            key={idx}
+            language={block.language}
+            code={block.text}
+            inverted={inverted}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-2 break-words">{blocks.map(renderBlock)}</div>
+  );
+};
+
+export default RichText;
@@ -0,0 +1,87 @@
+import React, { useEffect } from "react";
+import { Link } from "react-router-dom";
+import { SHORTCUTS } from "../lib/shortcuts";
+import { useShortcutBindings } from "../hooks/useShortcuts";
+import { formatShortcut } from "../utils/shortcuts";
+
+interface ShortcutHelpProps {
+  onClose: () => void;
+}
+
+const GROUPS = ["Conversations", "General"] as const;
+
+// "?" overlay listing the current bindings, remapped ones included
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+  const bindings = useShortcutBindings();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40 p-4"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Keyboard shortcuts"
+        className="w-full max-w-md bg-white rounded-lg shadow-xl p-5 space-y-4 text-gray-800"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold">Keyboard shortcuts</h2>
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="px-2 py-1 bg-transparent text-gray-400 hover:text-gray-700"
+          >
+            ✕
+          </button>
+        </div>
+        {GROUPS.map((group) => (
+          <div key={group}>
+            <h3 className="text-xs font-medium uppercase text-gray-500 mb-1">
+              {group}
+            </h3>
+            <dl className="divide-y divide-gray-100 text-sm">
+              {SHORTCUTS.filter((shortcut) => shortcut.group === group).map(
+                (shortcut) => (
+                  <div
+                    key={shortcut.action}
+                    className="flex items-center justify-between py-1.5"
+                  >
+                    <dt>{shortcut.label}</dt>
+                    <dd>
+                      <kbd className="px-1.5 rounded border border-gray-200 bg-gray-50 text-xs text-gray-600 font-mono">
+                        {formatShortcut(bindings[shortcut.action])}
+                      </kbd>
+                    </dd>
+                  </div>
+                )
+              )}
+            </dl>
+          </div>
+        ))}
+        <p className="text-sm text-gray-500">
+          Change these in{" "}
+          <Link
+            to="/settings"
+            onClick={onClose}
+            className="text-indigo-600 hover:underline"
+          >
+            Settings
+          </Link>
+          .
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutHelp;
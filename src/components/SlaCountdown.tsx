@@ -0,0 +1,44 @@
+import React from "react";
+import type { ChatSummary } from "../lib/types";
+import { useNow, useSlaPolicy } from "../hooks/useSlaPolicy";
+import {
+  SLA_KIND_LABELS,
+  formatSlaCountdown,
+  getSlaState,
+  type SlaLevel,
+} from "../utils/sla";
+
+interface SlaCountdownProps {
+  chat: ChatSummary;
+}
+
+const LEVEL_CLASSES: Record<SlaLevel, string> = {
+  ok: "bg-green-100 text-green-800",
+  warning: "bg-amber-100 text-amber-800",
+  breached: "bg-red-100 text-red-700",
+};
+
+// Time left to answer a waiting customer; ticks on its own so the rest of
+// the list does not re-render every second
+const SlaCountdown: React.FC<SlaCountdownProps> = ({ chat }) => {
+  const policy = useSlaPolicy();
+  const now = useNow(1000);
+  const state = getSlaState(chat, policy, now);
+  if (!state) return null;
+
+  const title =
+    `${SLA_KIND_LABELS[state.kind]} target: ${state.targetMinutes} min, ` +
+    `waiting since ${new Date(state.waitingSince).toLocaleTimeString()}`;
+  return (
+    <span
+      title={title}
+      className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium tabular-nums whitespace-nowrap ${
+        LEVEL_CLASSES[state.level]
+      }`}
+    >
+      {formatSlaCountdown(state.remainingMs)}
+    </span>
+  );
+};
+
+export default SlaCountdown;
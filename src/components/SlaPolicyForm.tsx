@@ -0,0 +1,257 @@
+import React, { useEffect, useState } from "react";
+import { slaPolicy } from "../lib/slaPolicy";
+import type { ChatPriority, SlaPolicy, SlaRule } from "../lib/types";
+import { useSlaPolicy } from "../hooks/useSlaPolicy";
+import { CHAT_PRIORITIES } from "../utils/sla";
+
+const inputClassName =
+  "p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+// One week; anything longer is almost certainly a typo
+const MAX_TARGET_MINUTES = 7 * 24 * 60;
+
+const isValidMinutes = (value: number) =>
+  Number.isInteger(value) && value > 0 && value <= MAX_TARGET_MINUTES;
+
+const validatePolicy = (policy: SlaPolicy): string | null => {
+  const targets = [policy.defaults, ...policy.rules];
+  if (
+    !targets.every(
+      (target) =>
+        isValidMinutes(target.firstResponseMinutes) &&
+        isValidMinutes(target.nextResponseMinutes)
+    )
+  ) {
+    return "Targets must be whole minutes between 1 and 10080.";
+  }
+  if (policy.rules.some((rule) => !rule.tag && !rule.priority)) {
+    return "Every rule needs a tag or a priority.";
+  }
+  if (policy.warnAtPercent < 1 || policy.warnAtPercent > 99) {
+    return "The warning threshold must be between 1% and 99%.";
+  }
+  return null;
+};
+
+const MinutesInput: React.FC<{
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}> = ({ label, value, onChange }) => (
+  <input
+    type="number"
+    min={1}
+    max={MAX_TARGET_MINUTES}
+    aria-label={label}
+    value={Number.isNaN(value) ? "" : value}
+    onChange={(e) => onChange(e.target.valueAsNumber)}
+    className={`w-20 ${inputClassName}`}
+  />
+);
+
+// Team-wide response targets; saved to the backend, which records breaches
+const SlaPolicyForm: React.FC = () => {
+  const saved = useSlaPolicy();
+  const [draft, setDraft] = useState(saved);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const dirty = JSON.stringify(draft) !== JSON.stringify(saved);
+
+  // Pick up the policy once it loads and again after each save
+  useEffect(() => {
+    setDraft(saved);
+  }, [saved]);
+
+  const updateRule = (id: string, patch: Partial<SlaRule>) =>
+    setDraft((prev) => ({
+      ...prev,
+      rules: prev.rules.map((rule) =>
+        rule.id === id ? { ...rule, ...patch } : rule
+      ),
+    }));
+
+  const addRule = () =>
+    setDraft((prev) => ({
+      ...prev,
+      rules: [
+        ...prev.rules,
+        { id: crypto.randomUUID(), priority: "urgent", ...prev.defaults },
+      ],
+    }));
+
+  const removeRule = (id: string) =>
+    setDraft((prev) => ({
+      ...prev,
+      rules: prev.rules.filter((rule) => rule.id !== id),
+    }));
+
+  const handleSave = async () => {
+    const invalid = validatePolicy(draft);
+    setError(invalid);
+    if (invalid) return;
+    setSaving(true);
+    try {
+      await slaPolicy.save(draft);
+    } catch (saveError) {
+      console.error("Error saving SLA policy:", saveError);
+      setError("The policy could not be saved. Try again.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 pt-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="w-36 text-gray-600">Everyone else</span>
+        <span>first reply within</span>
+        <MinutesInput
+          label="Default first response minutes"
+          value={draft.defaults.firstResponseMinutes}
+          onChange={(firstResponseMinutes) =>
+            setDraft((prev) => ({
+              ...prev,
+              defaults: { ...prev.defaults, firstResponseMinutes },
+            }))
+          }
+        />
+        <span>min, then within</span>
+        <MinutesInput
+          label="Default next response minutes"
+          value={draft.defaults.nextResponseMinutes}
+          onChange={(nextResponseMinutes) =>
+            setDraft((prev) => ({
+              ...prev,
+              defaults: { ...prev.defaults, nextResponseMinutes },
+            }))
+          }
+        />
+        <span>min</span>
+      </div>
+
+      {draft.rules.map((rule) => (
+        <div key={rule.id} className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Rule applies to"
+            value={rule.priority ? "priority" : "tag"}
+            onChange={(e) =>
+              updateRule(
+                rule.id,
+                e.target.value === "priority"
+                  ? { priority: "urgent", tag: undefined }
+                  : { priority: undefined, tag: "" }
+              )
+            }
+            className={inputClassName}
+          >
+            <option value="priority">Priority</option>
+            <option value="tag">Tag</option>
+          </select>
+          {rule.priority ? (
+            <select
+              aria-label="Priority"
+              value={rule.priority}
+              onChange={(e) =>
+                updateRule(rule.id, {
+                  priority: e.target.value as ChatPriority,
+                })
+              }
+              className={`w-24 ${inputClassName}`}
+            >
+              {CHAT_PRIORITIES.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          ) : (
+            <input
+              aria-label="Tag"
+              value={rule.tag ?? ""}
+              placeholder="billing"
+              onChange={(e) => updateRule(rule.id, { tag: e.target.value })}
+              className={`w-24 ${inputClassName}`}
+            />
+          )}
+          <MinutesInput
+            label="First response minutes"
+            value={rule.firstResponseMinutes}
+            onChange={(firstResponseMinutes) =>
+              updateRule(rule.id, { firstResponseMinutes })
+            }
+          />
+          <span>/</span>
+          <MinutesInput
+            label="Next response minutes"
+            value={rule.nextResponseMinutes}
+            onChange={(nextResponseMinutes) =>
+              updateRule(rule.id, { nextResponseMinutes })
+            }
+          />
+          <span>min</span>
+          <button
+            onClick={() => removeRule(rule.id)}
+            aria-label="Remove rule"
+            className="px-2 py-1 bg-transparent text-gray-400 hover:text-red-600"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={addRule}
+        className="px-3 py-1.5 rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+      >
+        Add rule
+      </button>
+      <p className="text-gray-500">
+        Rules are checked top to bottom and the first match wins.
+      </p>
+
+      <div className="flex items-center gap-2">
+        <span>Warn when</span>
+        <input
+          type="number"
+          min={1}
+          max={99}
+          aria-label="Warning threshold percent"
+          value={Number.isNaN(draft.warnAtPercent) ? "" : draft.warnAtPercent}
+          onChange={(e) =>
+            setDraft((prev) => ({
+              ...prev,
+              warnAtPercent: e.target.valueAsNumber,
+            }))
+          }
+          className={`w-20 ${inputClassName}`}
+        />
+        <span>% of the target has passed</span>
+      </div>
+
+      {error && (
+        <div className="rounded bg-red-50 text-red-700 px-3 py-2">{error}</div>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          disabled={!dirty || saving}
+          className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save targets"}
+        </button>
+        {dirty && !saving && (
+          <button
+            onClick={() => {
+              setDraft(saved);
+              setError(null);
+            }}
+            className="px-3 py-1.5 rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+          >
+            Discard
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SlaPolicyForm;
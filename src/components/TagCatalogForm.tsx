@@ -0,0 +1,199 @@
+import React, { useState } from "react";
+import { tagCatalog } from "../lib/tagCatalog";
+import type { TagColor, TagDefinition } from "../lib/types";
+import { useTagCatalog } from "../hooks/useTagCatalog";
+import {
+  MAX_TAG_NAME_LENGTH,
+  TAG_COLORS,
+  getTagClassName,
+  normalizeTagName,
+} from "../utils/tags";
+
+const inputClassName =
+  "p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const EMPTY_TAG: TagDefinition = { name: "", color: "blue", description: "" };
+
+const ColorSelect: React.FC<{
+  value: TagColor;
+  onChange: (color: TagColor) => void;
+}> = ({ value, onChange }) => (
+  <select
+    aria-label="Color"
+    value={value}
+    onChange={(e) => onChange(e.target.value as TagColor)}
+    className={`w-24 ${inputClassName}`}
+  >
+    {TAG_COLORS.map((option) => (
+      <option key={option.value} value={option.value}>
+        {option.label}
+      </option>
+    ))}
+  </select>
+);
+
+// Names are fixed once created, so only color and description are edited
+const TagRow: React.FC<{
+  tag: TagDefinition;
+  catalog: TagDefinition[];
+  onError: (message: string | null) => void;
+}> = ({ tag, catalog, onError }) => {
+  const [draft, setDraft] = useState(tag);
+  const [saving, setSaving] = useState(false);
+  const dirty =
+    draft.color !== tag.color || draft.description !== tag.description;
+
+  const handleSave = async () => {
+    setSaving(true);
+    onError(null);
+    try {
+      await tagCatalog.save(draft);
+    } catch (error) {
+      console.error("Error saving tag:", error);
+      onError(`The tag "${tag.name}" could not be saved. Try again.`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (
+      !window.confirm(
+        `Delete the tag "${tag.name}"? It is removed from every conversation.`
+      )
+    ) {
+      return;
+    }
+    onError(null);
+    try {
+      await tagCatalog.remove(tag.name);
+    } catch (error) {
+      console.error("Error deleting tag:", error);
+      onError(`The tag "${tag.name}" could not be deleted. Try again.`);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span
+        className={`w-36 truncate px-2 py-0.5 rounded text-xs font-medium ${getTagClassName(
+          tag.name,
+          [draft, ...catalog]
+        )}`}
+      >
+        {tag.name}
+      </span>
+      <ColorSelect
+        value={draft.color}
+        onChange={(color) => setDraft({ ...draft, color })}
+      />
+      <input
+        aria-label="Description"
+        value={draft.description}
+        placeholder="Description"
+        onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+        className={`flex-1 min-w-[8rem] ${inputClassName}`}
+      />
+      {dirty && (
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          {saving ? "Saving..." : "Save"}
+        </button>
+      )}
+      <button
+        onClick={handleDelete}
+        aria-label={`Delete tag ${tag.name}`}
+        className="px-2 py-1 bg-transparent text-gray-400 hover:text-red-600"
+      >
+        ✕
+      </button>
+    </div>
+  );
+};
+
+// Team-wide tags agents can put on conversations
+const TagCatalogForm: React.FC = () => {
+  const catalog = useTagCatalog();
+  const [draft, setDraft] = useState(EMPTY_TAG);
+  const [adding, setAdding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = normalizeTagName(draft.name);
+    if (!name) {
+      setError("Tag names need at least one letter or digit.");
+      return;
+    }
+    if (catalog.some((tag) => tag.name === name)) {
+      setError(`A tag named "${name}" already exists.`);
+      return;
+    }
+    setAdding(true);
+    setError(null);
+    try {
+      await tagCatalog.save({ ...draft, name });
+      setDraft(EMPTY_TAG);
+    } catch (saveError) {
+      console.error("Error adding tag:", saveError);
+      setError("The tag could not be added. Try again.");
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-3 text-sm">
+      {catalog.length === 0 && (
+        <div className="text-gray-500">No tags yet.</div>
+      )}
+      {catalog.map((tag) => (
+        // Keyed on the saved values so the row resets after a save
+        <TagRow
+          key={`${tag.name}:${tag.color}:${tag.description}`}
+          tag={tag}
+          catalog={catalog}
+          onError={setError}
+        />
+      ))}
+
+      <form onSubmit={handleAdd} className="flex flex-wrap items-center gap-2">
+        <input
+          aria-label="New tag name"
+          value={draft.name}
+          maxLength={MAX_TAG_NAME_LENGTH}
+          placeholder="feature-request"
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          className={`w-36 ${inputClassName}`}
+        />
+        <ColorSelect
+          value={draft.color}
+          onChange={(color) => setDraft({ ...draft, color })}
+        />
+        <input
+          aria-label="New tag description"
+          value={draft.description}
+          placeholder="Description"
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          className={`flex-1 min-w-[8rem] ${inputClassName}`}
+        />
+        <button
+          type="submit"
+          disabled={adding || !draft.name.trim()}
+          className="px-3 py-1.5 rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors disabled:opacity-50"
+        >
+          Add tag
+        </button>
+      </form>
+
+      {error && (
+        <div className="rounded bg-red-50 text-red-700 px-3 py-2">{error}</div>
+      )}
+    </div>
+  );
+};
+
+export default TagCatalogForm;
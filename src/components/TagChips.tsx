@@ -0,0 +1,43 @@
+import React from "react";
+import { useTagCatalog } from "../hooks/useTagCatalog";
+import { getTagClassName } from "../utils/tags";
+
+interface TagChipsProps {
+  tags: string[];
+  // Shows a remove button on each chip
+  onRemove?: (tag: string) => void;
+}
+
+// Colored tag labels; the description is the hover text
+const TagChips: React.FC<TagChipsProps> = ({ tags, onRemove }) => {
+  const catalog = useTagCatalog();
+  if (tags.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {tags.map((tag) => (
+        <span
+          key={tag}
+          title={catalog.find((item) => item.name === tag)?.description}
+          className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${getTagClassName(
+            tag,
+            catalog
+          )}`}
+        >
+          {tag}
+          {onRemove && (
+            <button
+              onClick={() => onRemove(tag)}
+              aria-label={`Remove tag ${tag}`}
+              className="p-0 bg-transparent leading-none opacity-60 hover:opacity-100"
+            >
+              ✕
+            </button>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default TagChips;
@@ -0,0 +1,45 @@
+import React from "react";
+import { useTagCatalog } from "../hooks/useTagCatalog";
+import TagChips from "./TagChips";
+
+interface TagPickerProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+}
+
+const selectClassName =
+  "p-0.5 text-xs border border-dashed border-gray-300 rounded text-gray-600 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+// A conversation's tags with remove buttons and a menu of the unused ones
+const TagPicker: React.FC<TagPickerProps> = ({ tags, onChange }) => {
+  const catalog = useTagCatalog();
+  const available = catalog.filter((tag) => !tags.includes(tag.name));
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <TagChips
+        tags={tags}
+        onRemove={(tag) => onChange(tags.filter((item) => item !== tag))}
+      />
+      {available.length > 0 && (
+        <select
+          aria-label="Add tag"
+          value=""
+          onChange={(e) =>
+            e.target.value && onChange([...tags, e.target.value])
+          }
+          className={selectClassName}
+        >
+          <option value="">+ Tag</option>
+          {available.map((tag) => (
+            <option key={tag.name} value={tag.name}>
+              {tag.name}
+            </option>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,199 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import type { InternalNote, Message } from "../lib/types";
+import { findHeldEntries, outbox, type OutboxEntry } from "../lib/outbox";
+import { messageKey } from "../utils/messages";
+import MessageBubble from "./MessageBubble";
+import NoteBubble from "./NoteBubble";
+
+interface TranscriptProps {
+  // Changing this scrolls to the newest message
+  clientId: string;
+  messages: Message[];
+  notes: InternalNote[];
+  pending: OutboxEntry[];
+  highlight: string;
+  loading: boolean;
+  hasOlder: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+}
+
+type TranscriptItem =
+  | { key: string; kind: "message"; message: Message; time: number }
+  | { key: string; kind: "note"; note: InternalNote; time: number }
+  | { key: string; kind: "pending"; entry: OutboxEntry; time: number };
+
+const ESTIMATED_ITEM_HEIGHT = 72;
+// Fetch older messages when scrolled this close to the top
+const LOAD_OLDER_OFFSET_PX = 300;
+// Follow new messages only when already this close to the bottom
+const STICK_TO_BOTTOM_PX = 120;
+
+const buildItems = (
+  messages: Message[],
+  notes: InternalNote[],
+  pending: OutboxEntry[],
+  hasOlder: boolean
+): TranscriptItem[] => {
+  const oldest = messages.length ? new Date(messages[0].timestamp) : null;
+  const items: TranscriptItem[] = [
+    ...messages.map((message) => ({
+      key: `m:${messageKey(message)}`,
+      kind: "message" as const,
+      message,
+      time: new Date(message.timestamp).getTime(),
+    })),
+    // Notes older than the loaded window appear with the page they belong to
+    ...notes
+      .filter(
+        (note) => !hasOlder || !oldest || new Date(note.timestamp) >= oldest
+      )
+      .map((note) => ({
+        key: `n:${note.id}`,
+        kind: "note" as const,
+        note,
+        time: new Date(note.timestamp).getTime(),
+      })),
+  ];
+  // Stable sort keeps messages in server order when timestamps tie
+  items.sort((a, b) => a.time - b.time);
+  return [
+    ...items,
+    ...pending.map((entry) => ({
+      key: `p:${entry.message.id}`,
+      kind: "pending" as const,
+      entry,
+      time: Infinity,
+    })),
+  ];
+};
+
+// Virtualized message history. Older pages load when scrolling up, keeping
+// the visible messages in place; new messages are followed at the bottom.
+const Transcript: React.FC<TranscriptProps> = ({
+  clientId,
+  messages,
+  notes,
+  pending,
+  highlight,
+  loading,
+  hasOlder,
+  loadingOlder,
+  onLoadOlder,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const items = useMemo(
+    () => buildItems(messages, notes, pending, hasOlder),
+    [messages, notes, pending, hasOlder]
+  );
+  const heldIds = useMemo(() => findHeldEntries(pending), [pending]);
+
+  const virtualizer = useVirtualizer({
+    count: items.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ITEM_HEIGHT,
+    getItemKey: (index) => items[index].key,
+    overscan: 10,
+    paddingStart: 16,
+    paddingEnd: 16,
+  });
+
+  const totalSize = virtualizer.getTotalSize();
+  const previous = useRef({ firstKey: "", lastKey: "", totalSize: 0 });
+  const nearBottomRef = useRef(true);
+  const scrolledClientRef = useRef<string | null>(null);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    const before = previous.current;
+    const firstKey = items[0]?.key ?? "";
+    const lastKey = items[items.length - 1]?.key ?? "";
+    previous.current = { firstKey, lastKey, totalSize };
+    if (!el || items.length === 0) return;
+
+    if (scrolledClientRef.current !== clientId) {
+      // Newly opened conversation: start at the newest message
+      scrolledClientRef.current = clientId;
+      virtualizer.scrollToIndex(items.length - 1, { align: "end" });
+      return;
+    }
+    if (before.firstKey && firstKey !== before.firstKey) {
+      // Older messages were prepended: keep the same messages on screen
+      el.scrollTop += totalSize - before.totalSize;
+      return;
+    }
+    const ownReply = items[items.length - 1].kind === "pending";
+    if (lastKey !== before.lastKey && (nearBottomRef.current || ownReply)) {
+      virtualizer.scrollToIndex(items.length - 1, { align: "end" });
+    }
+  }, [items, clientId, totalSize, virtualizer]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    nearBottomRef.current =
+      el.scrollHeight - el.scrollTop - el.clientHeight < STICK_TO_BOTTOM_PX;
+    if (el.scrollTop < LOAD_OLDER_OFFSET_PX && hasOlder && !loadingOlder) {
+      onLoadOlder();
+    }
+  };
+
+  // A short first page may not fill the view, so there is nothing to scroll
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && hasOlder && !loadingOlder && el.scrollHeight <= el.clientHeight) {
+      onLoadOlder();
+    }
+  }, [hasOlder, loadingOlder, totalSize, onLoadOlder]);
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className="flex-1 overflow-y-auto px-4 md:px-6"
+    >
+      {/* Zero-height so the indicators never shift the messages */}
+      <div className="sticky top-0 z-10 h-0">
+        {(loading || loadingOlder) && (
+          <div className="pt-2 text-center text-xs text-gray-500">
+            {loading ? "Loading messages..." : "Loading older messages..."}
+          </div>
+        )}
+      </div>
+      <div className="relative w-full" style={{ height: totalSize }}>
+        {virtualizer.getVirtualItems().map((row) => {
+          const item = items[row.index];
+          return (
+            <div
+              key={row.key}
+              data-index={row.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full pb-4"
+              style={{ transform: `translateY(${row.start}px)` }}
+            >
+              {item.kind === "note" ? (
+                <NoteBubble note={item.note} highlight={highlight} />
+              ) : item.kind === "message" ? (
+                <MessageBubble message={item.message} highlight={highlight} />
+              ) : (
+                <MessageBubble
+                  message={item.entry.message}
+                  pending={{
+                    status: item.entry.status,
+                    held: heldIds.has(item.entry.message.id),
+                    error: item.entry.error,
+                    onRetry: () => outbox.retry(item.entry.message.id),
+                    onDiscard: () => outbox.discard(item.entry.message.id),
+                  }}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default Transcript;
@@ -0,0 +1,88 @@
+import React from "react";
+import type { WorkspaceLayout } from "../utils/workspace";
+
+export interface WorkspaceTab {
+  clientId: string;
+  // Null while the conversation is loading or if it could not be found
+  title: string | null;
+  unreadCount: number;
+  hasDraft: boolean;
+}
+
+interface WorkspaceTabsProps {
+  tabs: WorkspaceTab[];
+  activeClientId: string | null;
+  layout: WorkspaceLayout;
+  onSelect: (clientId: string) => void;
+  onClose: (clientId: string) => void;
+  onLayoutChange: (layout: WorkspaceLayout) => void;
+}
+
+// Open conversations above the chat area, with a switch between one at a
+// time and all side by side
+const WorkspaceTabs: React.FC<WorkspaceTabsProps> = ({
+  tabs,
+  activeClientId,
+  layout,
+  onSelect,
+  onClose,
+  onLayoutChange,
+}) => (
+  <div className="flex items-stretch border-b border-gray-200 bg-gray-100">
+    <div role="tablist" className="flex flex-1 min-w-0 overflow-x-auto">
+      {tabs.map((tab) => {
+        const active = tab.clientId === activeClientId;
+        return (
+          <div
+            key={tab.clientId}
+            role="tab"
+            aria-selected={active}
+            tabIndex={0}
+            onClick={() => onSelect(tab.clientId)}
+            onKeyDown={(e) => e.key === "Enter" && onSelect(tab.clientId)}
+            onAuxClick={(e) => e.button === 1 && onClose(tab.clientId)}
+            title={tab.title ?? tab.clientId}
+            className={`group flex items-center gap-2 max-w-[14rem] pl-3 pr-1 py-2 text-sm border-r border-gray-200 cursor-pointer transition-colors ${
+              active
+                ? "bg-white text-gray-900 font-medium"
+                : "text-gray-600 hover:bg-gray-50"
+            }`}
+          >
+            {tab.hasDraft && (
+              <span title="Unsent draft" aria-label="Unsent draft">
+                ✎
+              </span>
+            )}
+            <span className="truncate">{tab.title ?? tab.clientId}</span>
+            {tab.unreadCount > 0 && (
+              <span className="min-w-[1.25rem] px-1 rounded-full bg-blue-500 text-white text-xs text-center">
+                {tab.unreadCount}
+              </span>
+            )}
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose(tab.clientId);
+              }}
+              aria-label={`Close ${tab.title ?? tab.clientId}`}
+              className="px-1 py-0 bg-transparent text-gray-400 hover:text-gray-700"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+    </div>
+    {tabs.length > 1 && (
+      <button
+        onClick={() => onLayoutChange(layout === "split" ? "tabs" : "split")}
+        aria-pressed={layout === "split"}
+        className="hidden md:block px-3 text-sm rounded-none bg-transparent border-l border-gray-200 text-gray-600 hover:text-indigo-600 whitespace-nowrap"
+      >
+        {layout === "split" ? "Show one" : "Side by side"}
+      </button>
+    )}
+  </div>
+);
+
+export default WorkspaceTabs;
@@ -0,0 +1,68 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { adminLogin, adminLogout } from "../lib/serverActions";
+import {
+  clearSession,
+  getSession,
+  saveSession,
+  subscribeToSession,
+  type Session,
+  type SessionEndReason,
+} from "../lib/session";
+import type { LoginParams } from "../lib/serverActions";
+import { AuthContext, type AuthContextValue } from "./auth";
+
+const AuthProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [session, setSession] = useState<Session | null>(getSession);
+  const [endReason, setEndReason] = useState<SessionEndReason | null>(null);
+
+  useEffect(
+    () =>
+      subscribeToSession((next, reason) => {
+        setSession(next);
+        setEndReason(next ? null : reason ?? null);
+      }),
+    []
+  );
+
+  // Expire the session client-side at the time the backend gave us
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(
+      () => clearSession("expired"),
+      Math.max(0, session.expiresAt - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const login = useCallback(async (params: LoginParams) => {
+    saveSession(await adminLogin(params));
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await adminLogout();
+    } catch (error) {
+      // The local session is dropped regardless
+      console.error("Error logging out:", error);
+    } finally {
+      clearSession("logout");
+    }
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      agent: session?.agent ?? null,
+      isAuthenticated: session !== null,
+      endReason,
+      login,
+      logout,
+    }),
+    [session, endReason, login, logout]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export default AuthProvider;
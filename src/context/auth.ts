@@ -0,0 +1,22 @@
+import { createContext, useContext } from "react";
+import type { Agent, SessionEndReason } from "../lib/session";
+import type { LoginParams } from "../lib/serverActions";
+
+export interface AuthContextValue {
+  agent: Agent | null;
+  isAuthenticated: boolean;
+  // Why the last session ended, shown on the login page
+  endReason: SessionEndReason | null;
+  login: (params: LoginParams) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+};
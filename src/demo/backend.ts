@@ -0,0 +1,125 @@
+import { ApiError } from "../lib/apiClient";
+import type { DemoSettings } from "../lib/demoMode";
+import type { Session } from "../lib/session";
+import { MockApi, MockHttpError } from "../mockApi/backend";
+import {
+  SCRIPTED_CUSTOMER_MESSAGES,
+  createDemoData,
+  createRandom,
+  pick,
+  toAgentRef,
+  type MockApiData,
+} from "../mockApi/fixtures";
+
+// In-browser stand-in for the admin API, used in demo mode. It is the same
+// fake backend the mock dev server runs (src/mockApi), over generated data
+// held in memory, so a reload starts over from the seed. Events go to the
+// demo socket.
+
+export interface DemoRequest {
+  method: "GET" | "POST";
+  path: string;
+  query?: URLSearchParams;
+  body?: unknown;
+  token: string | null;
+}
+
+type DemoEventListener = (event: string, payload: unknown) => void;
+
+const DEMO_TOKEN = "demo-session";
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+const fail = (status: number, message: string): never => {
+  throw new ApiError(message, "HTTP", status);
+};
+
+export class DemoBackend {
+  private readonly data: MockApiData;
+  private readonly api: MockApi;
+  private readonly random: ReturnType<typeof createRandom>;
+  private readonly listeners = new Set<DemoEventListener>();
+
+  constructor({ seed, chatCount }: DemoSettings) {
+    this.data = createDemoData({ seed, chatCount });
+    this.api = new MockApi(this.data, {
+      broadcast: (event, payload) =>
+        this.listeners.forEach((listener) => listener(event, payload)),
+      // Blob URLs, so uploads display without any storage behind them
+      attachmentUrl: (_id, file) =>
+        URL.createObjectURL(new Blob([file.data], { type: file.mimeType })),
+    });
+    // A separate stream, so simulated traffic does not shift the fixtures
+    this.random = createRandom(seed + 1);
+  }
+
+  // Throws ApiError like the real client would for an HTTP error
+  handle({ method, path, query, body, token }: DemoRequest) {
+    if (path === "/admin/auth/login") return this.login(body);
+    if (!this.api.hasRoute(method, path) && path !== "/admin/auth/logout") {
+      return fail(404, `${path} is not available in demo mode`);
+    }
+    if (token !== DEMO_TOKEN) fail(401, "Unauthorized");
+    if (path === "/admin/auth/logout") return true;
+    try {
+      return this.api.handle({
+        method,
+        path,
+        query: query ?? new URLSearchParams(),
+        body: body ?? {},
+        // Demo sessions are always the first agent; see login below
+        agent: toAgentRef(this.data.agents[0]),
+        role: this.data.agents[0].role,
+      });
+    } catch (error) {
+      if (error instanceof MockHttpError) {
+        return fail(error.status, error.message);
+      }
+      throw error;
+    }
+  }
+
+  onEvent(listener: DemoEventListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // One scripted customer message on a random open conversation
+  sendScriptedMessage() {
+    const open = this.data.chatLogs.filter((log) => log.status === "open");
+    if (open.length === 0) return;
+    this.api.addCustomerMessage(
+      pick(this.random, open).clientId,
+      pick(this.random, SCRIPTED_CUSTOMER_MESSAGES)
+    );
+  }
+
+  private login(body: unknown): Session {
+    const { email, password } = (body ?? {}) as Record<string, unknown>;
+    const agent = this.api.findAgent(String(email), String(password));
+    if (agent !== this.data.agents[0]) fail(401, "Invalid email or password");
+    const { id, name, email: agentEmail, role } = this.data.agents[0];
+    return {
+      token: DEMO_TOKEN,
+      // Demo requests are never signed or sealed
+      signingKey: "demo",
+      encryptionKey: "demo",
+      expiresAt: Date.now() + SESSION_TTL_MS,
+      agent: { id, name, email: agentEmail, role },
+    };
+  }
+}
+
+let backend: DemoBackend | null = null;
+let backendKey = "";
+
+// One store per seed and size, shared by the API client and the socket
+export const getDemoBackend = (settings: DemoSettings) => {
+  const key = `${settings.seed}:${settings.chatCount}`;
+  if (!backend || key !== backendKey) {
+    backend = new DemoBackend(settings);
+    backendKey = key;
+  }
+  return backend;
+};
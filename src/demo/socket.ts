@@ -0,0 +1,93 @@
+import {
+  getDemoSettings,
+  isDemoMode,
+  subscribeToDemoMode,
+} from "../lib/demoMode";
+import type { RealtimeSocket } from "../lib/realtime";
+
+// Stands in for the WebSocket the realtime client opens, speaking just
+// enough Engine.IO/Socket.IO framing for it: the open handshake, CONNECT,
+// pings and `42[event, payload]` events from the demo backend. It also
+// drives the scripted customer messages at the configured rate.
+
+const PING_INTERVAL_MS = 25000;
+const PING_TIMEOUT_MS = 20000;
+
+type Listener<E> = ((event: E) => void) | null;
+
+export class DemoSocket implements RealtimeSocket {
+  onmessage: Listener<MessageEvent> = null;
+  onclose: Listener<CloseEvent> = null;
+  onerror: Listener<Event> = null;
+
+  private closed = false;
+  private pingTimer?: ReturnType<typeof setInterval>;
+  private messageTimer?: ReturnType<typeof setTimeout>;
+  private cleanups: (() => void)[] = [];
+
+  constructor() {
+    // Async like a real socket, so the client has attached its handlers
+    setTimeout(() => this.open(), 0);
+  }
+
+  send(packet: string) {
+    if (this.closed) return;
+    // Socket.IO CONNECT, with or without auth
+    if (packet.startsWith("40")) this.deliver("40");
+  }
+
+  close() {
+    if (this.closed) return;
+    this.closed = true;
+    clearInterval(this.pingTimer);
+    clearTimeout(this.messageTimer);
+    this.cleanups.forEach((cleanup) => cleanup());
+    this.onclose?.(new CloseEvent("close", { code: 1000 }));
+  }
+
+  private async open() {
+    // Kept out of the main bundle until demo mode is actually used
+    const { getDemoBackend } = await import("./backend");
+    if (this.closed) return;
+    const backend = getDemoBackend(getDemoSettings());
+
+    this.deliver(
+      "0" +
+        JSON.stringify({
+          sid: crypto.randomUUID(),
+          upgrades: [],
+          pingInterval: PING_INTERVAL_MS,
+          pingTimeout: PING_TIMEOUT_MS,
+        })
+    );
+    this.pingTimer = setInterval(() => this.deliver("2"), PING_INTERVAL_MS);
+    this.cleanups.push(
+      backend.onEvent((event, payload) =>
+        this.deliver(`42${JSON.stringify([event, payload])}`)
+      ),
+      // A new rate applies from the next message on
+      subscribeToDemoMode(() => {
+        if (!isDemoMode()) return this.close();
+        this.scheduleMessage(() => backend.sendScriptedMessage());
+      })
+    );
+    this.scheduleMessage(() => backend.sendScriptedMessage());
+  }
+
+  // Spaced at half to one and a half times the interval, so it feels live
+  private scheduleMessage(send: () => void) {
+    clearTimeout(this.messageTimer);
+    const { messageIntervalMs } = getDemoSettings();
+    if (this.closed || messageIntervalMs === 0) return;
+    const delay = messageIntervalMs * (0.5 + Math.random());
+    this.messageTimer = setTimeout(() => {
+      send();
+      this.scheduleMessage(send);
+    }, delay);
+  }
+
+  private deliver(data: string) {
+    if (this.closed) return;
+    this.onmessage?.(new MessageEvent("message", { data }));
+  }
+}
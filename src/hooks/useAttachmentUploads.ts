@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { isAbortError } from "../lib/apiClient";
+import { uploadAttachment } from "../lib/serverActions";
+import type { Attachment } from "../lib/types";
+import {
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  validateAttachment,
+} from "../utils/attachments";
+
+export type UploadStatus = "uploading" | "done" | "failed";
+
+export interface PendingUpload {
+  // Also sent as the attachment id so a retried upload is stored once
+  id: string;
+  file: File;
+  status: UploadStatus;
+  // 0 to 1
+  progress: number;
+  attachment?: Attachment;
+  error?: string;
+}
+
+// Files attached to the reply being written. Each upload starts as soon as
+// the file is added, so the message can be sent once they have finished.
+export const useAttachmentUploads = (clientId: string | null) => {
+  const [uploads, setUploads] = useState<PendingUpload[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const abortAll = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    controllersRef.current.clear();
+  }, []);
+
+  // Attachments belong to the conversation they were added in
+  useEffect(() => {
+    setUploads([]);
+    setError(null);
+    return abortAll;
+  }, [clientId, abortAll]);
+
+  const patch = (id: string, update: Partial<PendingUpload>) =>
+    setUploads((prev) =>
+      prev.map((upload) =>
+        upload.id === id ? { ...upload, ...update } : upload
+      )
+    );
+
+  const start = (id: string, file: File) => {
+    if (!clientId) return;
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    uploadAttachment(
+      { clientId, id, file },
+      {
+        signal: controller.signal,
+        onProgress: (progress) => patch(id, { progress }),
+      }
+    )
+      .then((attachment) =>
+        patch(id, { status: "done", progress: 1, attachment })
+      )
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error uploading attachment:", error);
+        patch(id, {
+          status: "failed",
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      })
+      .finally(() => controllersRef.current.delete(id));
+  };
+
+  const addFiles = (files: File[]) => {
+    const room = MAX_ATTACHMENTS_PER_MESSAGE - uploads.length;
+    const problems: string[] = [];
+    if (files.length > room) {
+      problems.push(
+        `Attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files per message.`
+      );
+    }
+    const accepted = files.slice(0, Math.max(0, room)).filter((file) => {
+      const problem = validateAttachment(file);
+      if (problem) problems.push(problem);
+      return !problem;
+    });
+    setError(problems.length ? problems.join(" ") : null);
+
+    const added = accepted.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      status: "uploading" as const,
+      progress: 0,
+    }));
+    setUploads((prev) => [...prev, ...added]);
+    added.forEach((upload) => start(upload.id, upload.file));
+  };
+
+  const retry = (id: string) => {
+    const upload = uploads.find((candidate) => candidate.id === id);
+    if (!upload) return;
+    patch(id, { status: "uploading", progress: 0, error: undefined });
+    start(id, upload.file);
+  };
+
+  const remove = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+    controllersRef.current.delete(id);
+    setUploads((prev) => prev.filter((upload) => upload.id !== id));
+  };
+
+  // After sending; the uploaded files now belong to the message
+  const clear = () => {
+    setUploads([]);
+    setError(null);
+  };
+
+  return {
+    uploads,
+    error,
+    attachments: uploads.flatMap((upload) =>
+      upload.attachment ? [upload.attachment] : []
+    ),
+    // Sending waits until every file has been uploaded or removed
+    ready: uploads.every((upload) => upload.status === "done"),
+    addFiles,
+    retry,
+    remove,
+    clear,
+  };
+};
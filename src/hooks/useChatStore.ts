@@ -0,0 +1,9 @@
+import { useSyncExternalStore } from "react";
+import { chatStore, type ChatStoreState } from "../lib/chatStore";
+
+const subscribe = (listener: () => void) => chatStore.subscribe(listener);
+const getSnapshot = () => chatStore.get();
+
+// Re-renders on any change; derive with the selectors and useMemo
+export const useChatStore = (): ChatStoreState =>
+  useSyncExternalStore(subscribe, getSnapshot);
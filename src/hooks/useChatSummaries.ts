@@ -0,0 +1,43 @@
+import { useEffect, useMemo, useRef } from "react";
+import { chatStore, selectChats } from "../lib/chatStore";
+import type { ChatFilters } from "../utils/chatFilters";
+import { useChatStore } from "./useChatStore";
+
+// Typing in the search box should not fire a request per keystroke
+const FILTER_DEBOUNCE_MS = 250;
+
+const loadMore = () => chatStore.loadMore();
+const refresh = () => chatStore.refreshList();
+
+// Cursor-paged conversation list for the current filters. New pages are
+// appended as the list is scrolled; a filter change starts over.
+export const useChatSummaries = (filters: ChatFilters) => {
+  const { chats, list } = useChatStore();
+  const filterKey = JSON.stringify(filters);
+  const firstLoadRef = useRef(true);
+
+  useEffect(() => {
+    const delay = firstLoadRef.current ? 0 : FILTER_DEBOUNCE_MS;
+    firstLoadRef.current = false;
+    const timer = setTimeout(
+      () => chatStore.loadList(JSON.parse(filterKey)),
+      delay
+    );
+    return () => clearTimeout(timer);
+  }, [filterKey]);
+
+  const items = useMemo(
+    () => selectChats(chats, list.clientIds),
+    [chats, list.clientIds]
+  );
+
+  return {
+    items,
+    total: list.total,
+    loading: list.loading,
+    loadingMore: list.loadingMore,
+    hasMore: list.nextCursor !== null,
+    loadMore,
+    refresh,
+  };
+};
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useMemo } from "react";
+import {
+  chatStore,
+  selectMessages,
+  selectTranscript,
+} from "../lib/chatStore";
+import { useChatStore } from "./useChatStore";
+
+// Lazily loaded transcript of an open conversation: the newest page on
+// open, older pages on demand. Live messages and notes reach it through
+// the store.
+export const useChatTranscript = (clientId: string) => {
+  const state = useChatStore();
+  const transcript = selectTranscript(state, clientId);
+  const loaded = state.messages[clientId];
+
+  useEffect(() => chatStore.openTranscript(clientId), [clientId]);
+
+  const messages = useMemo(
+    () => selectMessages(loaded, transcript),
+    [loaded, transcript]
+  );
+
+  const loadOlder = useCallback(
+    () => chatStore.loadOlderMessages(clientId),
+    [clientId]
+  );
+
+  return {
+    messages,
+    notes: transcript.notes,
+    loading: transcript.loading,
+    loadingOlder: transcript.loadingOlder,
+    hasOlder: transcript.prevCursor !== null,
+    loadOlder,
+  };
+};
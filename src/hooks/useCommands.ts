@@ -0,0 +1,11 @@
+import { useEffect, useRef } from "react";
+import { registerCommandSource, type Command } from "../lib/commands";
+
+// Offer commands in the palette while the calling component is mounted.
+// The list is read when the palette opens, so it may change every render.
+export const useCommands = (commands: Command[]) => {
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+
+  useEffect(() => registerCommandSource(() => commandsRef.current), []);
+};
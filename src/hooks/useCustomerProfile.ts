@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from "react";
+import { isAbortError } from "../lib/apiClient";
+import {
+  getCustomerProfile,
+  updateCustomerAttributes,
+} from "../lib/serverActions";
+import type { CustomerAttributes, CustomerProfile } from "../lib/types";
+import { isCustomerMessage } from "../utils/messages";
+import { useRealtimeEvent, useRealtimeReconnect } from "./useRealtime";
+
+// Profile, history and session details for the customer behind a chat.
+// Edits from other agents and new customer messages are applied live.
+export const useCustomerProfile = (clientId: string | null) => {
+  const [profile, setProfile] = useState<CustomerProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    setError(null);
+    if (!clientId) return;
+    const controller = new AbortController();
+    setLoading(true);
+    getCustomerProfile(clientId, { signal: controller.signal })
+      .then((loaded) => {
+        setProfile(loaded);
+        setLoading(false);
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.error("Error fetching customer profile:", error);
+        setError("Customer details could not be loaded.");
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [clientId, reloadKey]);
+
+  const patchProfile = useCallback(
+    (targetId: string, update: (prev: CustomerProfile) => CustomerProfile) =>
+      setProfile((prev) =>
+        prev && prev.clientId === targetId ? update(prev) : prev
+      ),
+    []
+  );
+
+  useRealtimeEvent("customerUpdated", ({ clientId, attributes }) =>
+    patchProfile(clientId, (prev) => ({ ...prev, attributes }))
+  );
+
+  useRealtimeEvent("chatUpdated", ({ clientId, message }) => {
+    if (!isCustomerMessage(message.sender)) return;
+    patchProfile(clientId, (prev) => ({
+      ...prev,
+      lastSeen: message.timestamp,
+    }));
+  });
+
+  useRealtimeReconnect(() => setReloadKey((key) => key + 1));
+
+  // Throws so the form can keep the agent's input on failure
+  const saveAttributes = useCallback(
+    async (attributes: CustomerAttributes) => {
+      if (!clientId) return;
+      const saved = await updateCustomerAttributes({ clientId, attributes });
+      patchProfile(clientId, (prev) => ({ ...prev, attributes: saved }));
+    },
+    [clientId, patchProfile]
+  );
+
+  return {
+    // Never show the previous customer while the next one loads
+    profile: profile?.clientId === clientId ? profile : null,
+    loading,
+    error,
+    saveAttributes,
+  };
+};
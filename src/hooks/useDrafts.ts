@@ -0,0 +1,19 @@
+import { useSyncExternalStore } from "react";
+import { getDrafts, saveDraft, subscribeToDrafts } from "../lib/drafts";
+
+export const useDrafts = () =>
+  useSyncExternalStore(subscribeToDrafts, getDrafts);
+
+// The composer text and mode for one conversation
+export const useDraft = (clientId: string) => {
+  const draft = useDrafts()[clientId];
+  const text = draft?.text ?? "";
+  const mode = draft?.mode ?? "reply";
+  return {
+    text,
+    mode,
+    setText: (next: string) => saveDraft(clientId, { text: next, mode }),
+    setMode: (next: "reply" | "note") =>
+      saveDraft(clientId, { text, mode: next }),
+  };
+};
@@ -0,0 +1,23 @@
+import { useEffect, useMemo } from "react";
+import { chatStore, selectChats } from "../lib/chatStore";
+import type { ChatFilters } from "../utils/chatFilters";
+import { useChatStore } from "./useChatStore";
+
+// Conversations the AI bot handed to a human, for the top of the chat list.
+// Follows the list filters; the store drops a conversation once someone
+// takes over.
+export const useHandoffQueue = (filters: ChatFilters) => {
+  const { chats, handoffQueue } = useChatStore();
+  const filterKey = JSON.stringify(filters);
+
+  useEffect(() => {
+    chatStore.loadHandoffQueue(JSON.parse(filterKey));
+  }, [filterKey]);
+
+  const items = useMemo(
+    () => selectChats(chats, handoffQueue.clientIds),
+    [chats, handoffQueue.clientIds]
+  );
+
+  return { items };
+};
@@ -0,0 +1,5 @@
+import { useSyncExternalStore } from "react";
+import { getMacros, subscribeToMacros } from "../lib/macros";
+
+export const useMacros = () =>
+  useSyncExternalStore(subscribeToMacros, getMacros);
@@ -0,0 +1,111 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { useAuth } from "../context/auth";
+import {
+  getNotificationSettings,
+  isQuietTime,
+  subscribeToNotificationSettings,
+} from "../lib/notificationSettings";
+import { chatStore, selectUnreadCount } from "../lib/chatStore";
+import {
+  playChime,
+  setFaviconBadge,
+  setTitleBadge,
+  showDesktopNotification,
+} from "../utils/alerts";
+import { describeMessage, isCustomerMessage } from "../utils/messages";
+import { SLA_KIND_LABELS } from "../utils/sla";
+import { useOpenChat } from "./useOpenChat";
+import { useRealtimeEvent } from "./useRealtime";
+
+export const useNotificationSettings = () =>
+  useSyncExternalStore(
+    subscribeToNotificationSettings,
+    getNotificationSettings
+  );
+
+const subscribeToChats = (listener: () => void) =>
+  chatStore.subscribe(listener);
+const getUnreadCount = () => selectUnreadCount(chatStore.get());
+
+export const useUnreadCount = () =>
+  useSyncExternalStore(subscribeToChats, getUnreadCount);
+
+// Mounted once in the layout: loads unread conversations for any route,
+// alerts the agent according to their settings and badges title and favicon
+export const useMessageAlerts = () => {
+  const { agent } = useAuth();
+  const openChat = useOpenChat();
+  const unreadCount = useUnreadCount();
+
+  useEffect(() => {
+    chatStore.loadUnread();
+  }, []);
+
+  // The chat store counts the message; this only tells the agent
+  useRealtimeEvent("chatUpdated", async ({ clientId, message }) => {
+    if (!isCustomerMessage(message.sender)) return;
+    if (chatStore.isViewing(clientId)) return;
+
+    const settings = getNotificationSettings();
+    if (settings.muted || isQuietTime(settings)) return;
+    if (settings.assignedOnly) {
+      // Conversations nobody has loaded yet are fetched for their assignee
+      const chat = await chatStore.ensureChat(clientId);
+      if (!agent || chat?.assignee?.id !== agent.id) return;
+    }
+    if (settings.sound) playChime();
+    if (settings.desktop) {
+      showDesktopNotification(
+        "New customer message",
+        describeMessage(message),
+        {
+          tag: clientId,
+          onClick: () => openChat(clientId),
+        }
+      );
+    }
+  });
+
+  // Breaches are recorded by the backend; this only tells the agent
+  useRealtimeEvent("slaBreached", ({ breach }) => {
+    const settings = getNotificationSettings();
+    if (!settings.slaBreaches || settings.muted || isQuietTime(settings)) {
+      return;
+    }
+    if (
+      settings.assignedOnly &&
+      (!agent || breach.assignee?.id !== agent.id)
+    ) {
+      return;
+    }
+    if (settings.sound) playChime();
+    if (settings.desktop) {
+      const target = SLA_KIND_LABELS[breach.kind].toLowerCase();
+      showDesktopNotification(
+        "Response target missed",
+        `${breach.chatTitle} has waited over ${breach.targetMinutes} min ` +
+          `for a ${target}`,
+        {
+          tag: `sla:${breach.id}`,
+          onClick: () => openChat(breach.clientId),
+        }
+      );
+    }
+  });
+
+  useEffect(() => {
+    setTitleBadge(unreadCount);
+    setFaviconBadge(unreadCount);
+  }, [unreadCount]);
+
+  // Restore the plain title and icon after logging out
+  useEffect(
+    () => () => {
+      setTitleBadge(0);
+      setFaviconBadge(0);
+    },
+    []
+  );
+
+  return unreadCount;
+};
@@ -0,0 +1,24 @@
+import { useCallback, useRef } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { supportPath } from "../utils/workspace";
+
+// Open a conversation from anywhere in the app, next to the tabs already
+// open when the agent is on Support. Stable across renders; the location is
+// read when it runs.
+export const useOpenChat = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const locationRef = useRef(location);
+  locationRef.current = location;
+
+  return useCallback(
+    (clientId: string) => {
+      const { pathname, search } = locationRef.current;
+      navigate({
+        pathname: supportPath(clientId),
+        search: pathname.startsWith("/support") ? search : "",
+      });
+    },
+    [navigate]
+  );
+};
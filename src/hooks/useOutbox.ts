@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+import { outbox } from "../lib/outbox";
+
+// Pending replies; delivered ones reach the chat store by themselves
+export const useOutbox = () => {
+  const [entries, setEntries] = useState(() => outbox.getEntries());
+
+  useEffect(() => {
+    const unsubscribe = outbox.subscribe(setEntries);
+    setEntries(outbox.getEntries());
+    outbox.resume();
+    return unsubscribe;
+  }, []);
+
+  return entries;
+};
@@ -0,0 +1,44 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  realtimeClient,
+  type RealtimeEventMap,
+  type RealtimeEventName,
+  type RealtimeStatus,
+} from "../lib/realtime";
+
+// Keeps the shared connection open while the calling component is mounted
+const useRealtimeConnection = () => {
+  useEffect(() => realtimeClient.retain(), []);
+};
+
+export const useRealtimeStatus = (): RealtimeStatus => {
+  useRealtimeConnection();
+  const [status, setStatus] = useState(() => realtimeClient.getStatus());
+  useEffect(() => {
+    setStatus(realtimeClient.getStatus());
+    return realtimeClient.onStatusChange(setStatus);
+  }, []);
+  return status;
+};
+
+// Subscribes to a typed server event; the latest handler is always used
+export const useRealtimeEvent = <K extends RealtimeEventName>(
+  event: K,
+  handler: (payload: RealtimeEventMap[K]) => void
+) => {
+  useRealtimeConnection();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  useEffect(
+    () => realtimeClient.on(event, (payload) => handlerRef.current(payload)),
+    [event]
+  );
+};
+
+// Runs after a dropped connection comes back, to re-sync missed messages
+export const useRealtimeReconnect = (handler: () => void) => {
+  useRealtimeConnection();
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  useEffect(() => realtimeClient.onReconnect(() => handlerRef.current()), []);
+};
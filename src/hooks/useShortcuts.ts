@@ -0,0 +1,43 @@
+import { useEffect, useRef, useSyncExternalStore } from "react";
+import {
+  getShortcutBindings,
+  subscribeToShortcutBindings,
+  type ShortcutAction,
+} from "../lib/shortcuts";
+import {
+  isActivationTarget,
+  isEditableTarget,
+  keyFromEvent,
+} from "../utils/shortcuts";
+
+export const useShortcutBindings = () =>
+  useSyncExternalStore(subscribeToShortcutBindings, getShortcutBindings);
+
+// Run `handler` when the agent presses the key bound to `action`. Only
+// Mod combinations fire while typing in a field.
+export const useShortcut = (
+  action: ShortcutAction,
+  handler: (event: KeyboardEvent) => void,
+  enabled = true
+) => {
+  const binding = useShortcutBindings()[action];
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.isComposing) return;
+      const key = keyFromEvent(e);
+      if (key !== binding) return;
+      if (!key.startsWith("Mod+") && isEditableTarget(e.target)) return;
+      if ((key === "Enter" || key === " ") && isActivationTarget(e.target)) {
+        return;
+      }
+      e.preventDefault();
+      handlerRef.current(e);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [binding, enabled]);
+};
@@ -0,0 +1,23 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { slaPolicy } from "../lib/slaPolicy";
+
+const subscribe = (listener: () => void) => slaPolicy.subscribe(listener);
+const getSnapshot = () => slaPolicy.get();
+
+export const useSlaPolicy = () => {
+  const policy = useSyncExternalStore(subscribe, getSnapshot);
+  useEffect(() => {
+    slaPolicy.load();
+  }, []);
+  return policy;
+};
+
+// Current time, refreshed every `intervalMs` for live countdowns
+export const useNow = (intervalMs: number) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+  return now;
+};
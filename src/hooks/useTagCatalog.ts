@@ -0,0 +1,13 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { tagCatalog } from "../lib/tagCatalog";
+
+const subscribe = (listener: () => void) => tagCatalog.subscribe(listener);
+const getSnapshot = () => tagCatalog.get();
+
+export const useTagCatalog = () => {
+  const tags = useSyncExternalStore(subscribe, getSnapshot);
+  useEffect(() => {
+    tagCatalog.load();
+  }, []);
+  return tags;
+};
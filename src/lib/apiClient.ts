@@ -0,0 +1,279 @@
+import axios, { type AxiosRequestConfig } from "axios";
+import { getDemoSettings, isDemoMode } from "./demoMode";
+import { getEnvironment } from "./runtimeConfig";
+import { clearSession, getSession, type Session } from "./session";
+import {
+  EnvelopeError,
+  isSealedEnvelope,
+  openEnvelope,
+  sealEnvelope,
+} from "../utils/envelope";
+import { signRequest, type SignedRequest } from "../utils/requestSignature";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 5000;
+
+export type ApiErrorCode =
+  | "ABORTED"
+  | "TIMEOUT"
+  | "NETWORK"
+  | "UNAUTHENTICATED"
+  | "HTTP"
+  | "SERVER"
+  // A sealed response failed verification
+  | "INTEGRITY";
+
+// Every failure coming out of the client is normalised to this type
+export class ApiError extends Error {
+  readonly status: number | null;
+  readonly code: ApiErrorCode | string;
+
+  constructor(
+    message: string,
+    code: ApiErrorCode | string,
+    status: number | null = null
+  ) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export const isAbortError = (error: unknown) =>
+  error instanceof ApiError && error.code === "ABORTED";
+
+// Shape of every response body returned by the admin API
+interface ApiEnvelope<T> {
+  result: T;
+  error?: string;
+  code?: string;
+}
+
+export interface RequestOptions<TBody> {
+  method: "GET" | "POST";
+  path: string;
+  // Appended to the path as a query string
+  query?: URLSearchParams;
+  body?: TBody;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Only idempotent requests are retried; GET is idempotent by default
+  idempotent?: boolean;
+  retries?: number;
+  withCredentials?: boolean;
+  // Public endpoints (login) are sent in plaintext without a session
+  authenticated?: boolean;
+  // Fraction of the request body sent so far, from 0 to 1
+  onUploadProgress?: (progress: number) => void;
+}
+
+// Build the Authorization/HMAC/Timestamp/Nonce headers for a request
+const getSignatureHeaders = (
+  request: Pick<SignedRequest, "method" | "path" | "body">,
+  session: Session
+) => {
+  const timestamp = (Date.now() / 1000).toString();
+  const nonce = crypto.randomUUID();
+  return {
+    Authorization: `Bearer ${session.token}`,
+    HMAC: signRequest({ ...request, timestamp, nonce }, session.signingKey),
+    Timestamp: timestamp,
+    Nonce: nonce,
+  };
+};
+
+const requireSession = () => {
+  const session = getSession();
+  if (!session) {
+    throw new ApiError("Not signed in", "UNAUTHENTICATED", 401);
+  }
+  return session;
+};
+
+const toApiError = (error: unknown, signal?: AbortSignal): ApiError => {
+  if (error instanceof ApiError) return error;
+
+  if (signal?.aborted || axios.isCancel(error)) {
+    return new ApiError("Request was cancelled", "ABORTED");
+  }
+
+  if (axios.isAxiosError(error)) {
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new ApiError("Request timed out", "TIMEOUT");
+    }
+    if (!error.response) {
+      return new ApiError(error.message || "Network error", "NETWORK");
+    }
+    const data = error.response.data as
+      | Partial<ApiEnvelope<unknown>>
+      | undefined;
+    return new ApiError(
+      data?.error || error.message,
+      data?.code || "HTTP",
+      error.response.status
+    );
+  }
+
+  return new ApiError(
+    error instanceof Error ? error.message : "Unknown error",
+    "NETWORK"
+  );
+};
+
+const isRetryable = (error: ApiError) =>
+  error.code === "NETWORK" ||
+  error.code === "TIMEOUT" ||
+  error.status === 429 ||
+  (error.status !== null && error.status >= 500);
+
+// Exponential backoff with full jitter
+const backoffDelay = (attempt: number) =>
+  Math.random() *
+  Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new ApiError("Request was cancelled", "ABORTED"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ApiError("Request was cancelled", "ABORTED"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Signed-in responses arrive sealed; plaintext is still accepted while the
+// backend migrates
+const openResponse = <TResponse>(
+  body: unknown,
+  session: Session | null
+): ApiEnvelope<TResponse> => {
+  if (!session || !isSealedEnvelope(body)) {
+    return body as ApiEnvelope<TResponse>;
+  }
+  try {
+    return openEnvelope<ApiEnvelope<TResponse>>(body, session.encryptionKey);
+  } catch (error) {
+    if (error instanceof EnvelopeError) {
+      throw new ApiError(error.message, "INTEGRITY");
+    }
+    throw error;
+  }
+};
+
+const sendOnce = async <TResponse>(
+  config: AxiosRequestConfig,
+  session: Session | null
+): Promise<TResponse> => {
+  const response = await axios.request<unknown>(config);
+  const data = openResponse<TResponse>(response.data, session);
+  if (data?.error) {
+    throw new ApiError(data.error, data.code || "SERVER");
+  }
+  return data?.result;
+};
+
+// Demo mode answers from the in-browser fixture backend instead; nothing
+// is sealed or signed and nothing leaves the browser
+const sendToDemo = async <TResponse>(
+  { method, path, query, body }: RequestOptions<unknown>,
+  session: Session | null
+) => {
+  const { getDemoBackend } = await import("../demo/backend");
+  const result = getDemoBackend(getDemoSettings()).handle({
+    method,
+    path,
+    query,
+    body,
+    token: session?.token ?? null,
+  });
+  // A copy, as if it had come over the wire
+  return (result === undefined ? result : structuredClone(result)) as TResponse;
+};
+
+// Single entry point for every admin API call: signs, seals POST bodies,
+// opens sealed responses, applies a timeout, retries idempotent calls and
+// honours cancellation.
+export async function apiRequest<TResponse, TBody = undefined>(
+  options: RequestOptions<TBody>
+): Promise<TResponse> {
+  const {
+    method,
+    path,
+    query,
+    body,
+    signal,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    idempotent = method === "GET",
+    retries = DEFAULT_RETRIES,
+    withCredentials,
+    authenticated = true,
+    onUploadProgress,
+  } = options;
+
+  const maxAttempts = idempotent ? retries + 1 : 1;
+  const search = query?.toString();
+  const { apiUrl } = getEnvironment();
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      let payload: unknown = body;
+      let headers: Record<string, string> | undefined;
+      const session = authenticated ? requireSession() : null;
+      if (isDemoMode()) {
+        return await sendToDemo<TResponse>(options, session);
+      }
+      if (session) {
+        // Sign on every attempt so the timestamp and nonce stay fresh
+        payload =
+          method === "POST"
+            ? sealEnvelope(body ?? {}, session.encryptionKey)
+            : undefined;
+        headers = getSignatureHeaders(
+          {
+            method,
+            path: `${path}${search ? `?${search}` : ""}`,
+            body: payload ? JSON.stringify(payload) : "",
+          },
+          session
+        );
+      }
+
+      return await sendOnce<TResponse>(
+        {
+          method,
+          url: `${apiUrl}${path}${search ? `?${search}` : ""}`,
+          data: payload,
+          headers,
+          signal,
+          timeout: timeoutMs,
+          withCredentials,
+          onUploadProgress: onUploadProgress
+            ? ({ loaded, total }) => total && onUploadProgress(loaded / total)
+            : undefined,
+        },
+        session
+      );
+    } catch (rawError) {
+      const error = toApiError(rawError, signal);
+      if (authenticated && error.status === 401) {
+        // The backend no longer recognises the token
+        clearSession("expired");
+        throw error;
+      }
+      if (attempt + 1 >= maxAttempts || !isRetryable(error)) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt), signal);
+    }
+  }
+}
@@ -0,0 +1,777 @@
+import { isAbortError } from "./apiClient";
+import { outbox } from "./outbox";
+import { realtimeClient } from "./realtime";
+import {
+  clearChatMention,
+  getChatMessages,
+  getChatSummaries,
+  getChatSummary,
+  getHandoffQueue,
+  markChatRead,
+  markChatUnread,
+} from "./serverActions";
+import { getSession, subscribeToSession } from "./session";
+import type { ChatSummary, InternalNote, Message } from "./types";
+import { DEFAULT_CHAT_FILTERS, type ChatFilters } from "../utils/chatFilters";
+import {
+  isCustomerMessage,
+  isSupportMessage,
+  messageKey,
+} from "../utils/messages";
+
+// The one copy of every conversation and message the app has loaded, keyed
+// by id. The chat list, handoff queue, open panes and unread badges are all
+// selections of it, and the socket, the outbox and the pages change it only
+// through the actions below. Read state comes from the agent's read cursors
+// on the server, so it survives reloads and matches on every device.
+
+const LIST_PAGE_SIZE = 50;
+const TRANSCRIPT_PAGE_SIZE = 100;
+// Unread conversations loaded for the badges before Support is opened; the
+// count itself is the server's total
+const UNREAD_LIMIT = 100;
+// Bursts of messages for conversations that are not listed cause one reload
+const REFRESH_DEBOUNCE_MS = 250;
+
+export interface ChatListState {
+  filters: ChatFilters | null;
+  clientIds: string[];
+  nextCursor: string | null;
+  // Conversations matching the filters across all pages
+  total: number;
+  loading: boolean;
+  loadingMore: boolean;
+}
+
+export interface TranscriptState {
+  // Keys into the conversation's messages, oldest first
+  messageKeys: string[];
+  notes: InternalNote[];
+  // Cursor for older messages; null once the start is loaded
+  prevCursor: string | null;
+  loading: boolean;
+  loadingOlder: boolean;
+}
+
+export interface ChatStoreState {
+  chats: Record<string, ChatSummary>;
+  // Loaded messages per conversation, keyed by messageKey
+  messages: Record<string, Record<string, Message>>;
+  // Only for conversations open in a pane
+  transcripts: Record<string, TranscriptState>;
+  list: ChatListState;
+  handoffQueue: { filters: ChatFilters | null; clientIds: string[] };
+  // Conversations that could not be loaded, e.g. from a stale link
+  missing: Record<string, true>;
+  // The agent's unread conversations on the server, loaded or not
+  unreadTotal: number;
+}
+
+const INITIAL_STATE: ChatStoreState = {
+  chats: {},
+  messages: {},
+  transcripts: {},
+  list: {
+    filters: null,
+    clientIds: [],
+    nextCursor: null,
+    total: 0,
+    loading: true,
+    loadingMore: false,
+  },
+  handoffQueue: { filters: null, clientIds: [] },
+  missing: {},
+  unreadTotal: 0,
+};
+
+const EMPTY_TRANSCRIPT: TranscriptState = {
+  messageKeys: [],
+  notes: [],
+  prevCursor: null,
+  loading: true,
+  loadingOlder: false,
+};
+
+// Selectors take the slices they read, so callers can memoize on them
+
+// Summaries in list order, skipping any that are not loaded
+export const selectChats = (
+  chats: ChatStoreState["chats"],
+  clientIds: string[]
+) => clientIds.flatMap((clientId) => chats[clientId] ?? []);
+
+export const selectTranscript = (state: ChatStoreState, clientId: string) =>
+  state.transcripts[clientId] ?? EMPTY_TRANSCRIPT;
+
+// A transcript's messages, oldest first
+export const selectMessages = (
+  messages: Record<string, Message> | undefined,
+  transcript: TranscriptState
+) => transcript.messageKeys.flatMap((key) => messages?.[key] ?? []);
+
+// Conversations with unread customer messages, for the title and favicon.
+// The server's total covers every page; a message that just arrived counts
+// at once, before the total is reloaded.
+export const selectUnreadCount = (state: ChatStoreState) =>
+  Math.max(
+    state.unreadTotal,
+    Object.values(state.chats).filter((chat) => chat.unreadCount > 0).length
+  );
+
+const appendKeys = (current: string[], incoming: string[]) => {
+  const known = new Set(current);
+  const fresh = incoming.filter((key) => !known.has(key));
+  return fresh.length ? [...current, ...fresh] : current;
+};
+
+const currentAgentId = () => getSession()?.agent.id ?? null;
+
+const isOlder = (message: Message, than: Message | null) =>
+  !!than &&
+  new Date(message.timestamp).getTime() < new Date(than.timestamp).getTime();
+
+class ChatStore {
+  private state = INITIAL_STATE;
+  // Conversations on screen; several when the workspace is split
+  private visibleIds: string[] = [];
+  // Open tabs, visible or not, which are re-synced after a reconnect
+  private openIds: string[] = [];
+  private readonly pendingChats = new Map<
+    string,
+    Promise<ChatSummary | null>
+  >();
+  private readonly transcriptRequests = new Map<string, AbortController>();
+  // Message keys already counted per conversation, so an echo of a delivered
+  // reply, or one that arrives late, is never counted twice
+  private readonly countedMessages = new Map<string, Set<string>>();
+  private listRequest: AbortController | null = null;
+  private queueRequest: AbortController | null = null;
+  private unreadRequest: AbortController | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+  private unreadTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly listeners = new Set<() => void>();
+
+  constructor() {
+    // Nothing carries over to the next agent signing in
+    subscribeToSession((session) => {
+      if (!session) this.reset();
+    });
+    // A message that arrived in a background tab counts as read once the
+    // agent comes back to the conversation
+    document.addEventListener("visibilitychange", () => this.readVisible());
+
+    realtimeClient.on("chatUpdated", ({ clientId, message }) => {
+      // Our own replies come back as echoes; drop them from the outbox
+      outbox.acknowledge(message.id);
+      this.receiveMessage(clientId, message);
+    });
+    outbox.onDelivered(({ clientId, message }) =>
+      this.receiveMessage(clientId, message)
+    );
+    realtimeClient.on("chatNoteAdded", ({ clientId, note }) =>
+      this.receiveNote(clientId, note)
+    );
+    // Resolved conversations leave the unread total
+    realtimeClient.on("chatStatusChanged", ({ clientId, status }) => {
+      this.patchChat(clientId, { status });
+      this.refreshUnread();
+    });
+    realtimeClient.on("chatAssigned", ({ clientId, assignee }) =>
+      this.patchChat(clientId, { assignee })
+    );
+    realtimeClient.on("chatTagsChanged", ({ clientId, tags }) =>
+      this.patchChat(clientId, { tags })
+    );
+    realtimeClient.on(
+      "chatHandoffChanged",
+      ({ clientId, aiPaused, handoffRequest }) => {
+        this.patchChat(clientId, { aiPaused, handoffRequest });
+        if (handoffRequest) {
+          this.reloadHandoffQueue();
+        } else {
+          this.removeFromQueue(clientId);
+        }
+      }
+    );
+    // Only the agent's own reads count, from this device or another
+    realtimeClient.on(
+      "chatReadChanged",
+      ({ clientId, agentId, unreadCount }) => {
+        if (agentId === currentAgentId()) {
+          this.patchChat(clientId, { unreadCount });
+          this.refreshUnread();
+        }
+      }
+    );
+    // Fetch anything that changed while the socket was down
+    realtimeClient.onReconnect(() => this.resync());
+  }
+
+  get() {
+    return this.state;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getChat(clientId: string): ChatSummary | undefined {
+    return this.state.chats[clientId];
+  }
+
+  // The conversation is on screen in a visible browser tab
+  isViewing(clientId: string) {
+    return (
+      this.visibleIds.includes(clientId) &&
+      document.visibilityState === "visible"
+    );
+  }
+
+  // The first page for new filters; anything loaded for the old ones goes
+  async loadList(filters: ChatFilters, showLoading = true) {
+    this.listRequest?.abort();
+    const controller = new AbortController();
+    this.listRequest = controller;
+    if (showLoading) this.setList({ filters, loading: true });
+
+    try {
+      const page = await getChatSummaries(
+        { filters, limit: LIST_PAGE_SIZE },
+        { signal: controller.signal }
+      );
+      this.upsertChats(page.items);
+      this.setList({
+        filters,
+        clientIds: page.items.map((chat) => chat.clientId),
+        nextCursor: page.nextCursor,
+        total: page.total,
+        loading: false,
+        loadingMore: false,
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error fetching chats:", error);
+        this.setList({ loading: false, loadingMore: false });
+      }
+    }
+  }
+
+  async loadMore() {
+    const { filters, nextCursor, loading, loadingMore } = this.state.list;
+    if (!filters || !nextCursor || loading || loadingMore) return;
+    const controller = new AbortController();
+    this.listRequest = controller;
+    this.setList({ loadingMore: true });
+
+    try {
+      const page = await getChatSummaries(
+        { filters, cursor: nextCursor, limit: LIST_PAGE_SIZE },
+        { signal: controller.signal }
+      );
+      this.upsertChats(page.items);
+      this.setList({
+        // Conversations can move between pages as new messages arrive
+        clientIds: appendKeys(
+          this.state.list.clientIds,
+          page.items.map((chat) => chat.clientId)
+        ),
+        nextCursor: page.nextCursor,
+        total: page.total,
+        loadingMore: false,
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error fetching more chats:", error);
+        this.setList({ loadingMore: false });
+      }
+    }
+  }
+
+  // Reload the first page in place, e.g. when a message arrives for a
+  // conversation that is not listed yet
+  refreshList() {
+    clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      const { filters } = this.state.list;
+      if (filters) this.loadList(filters, false);
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  async loadHandoffQueue(filters: ChatFilters) {
+    this.queueRequest?.abort();
+    const controller = new AbortController();
+    this.queueRequest = controller;
+    this.set({
+      ...this.state,
+      handoffQueue: { ...this.state.handoffQueue, filters },
+    });
+
+    try {
+      const queue = await getHandoffQueue(filters, {
+        signal: controller.signal,
+      });
+      this.upsertChats(queue);
+      this.set({
+        ...this.state,
+        handoffQueue: {
+          filters,
+          clientIds: queue.map((chat) => chat.clientId),
+        },
+      });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error fetching handoff queue:", error);
+      }
+    }
+  }
+
+  private reloadHandoffQueue() {
+    const { filters } = this.state.handoffQueue;
+    if (filters) this.loadHandoffQueue(filters);
+  }
+
+  private removeFromQueue(clientId: string) {
+    const { handoffQueue } = this.state;
+    if (!handoffQueue.clientIds.includes(clientId)) return;
+    this.set({
+      ...this.state,
+      handoffQueue: {
+        ...handoffQueue,
+        clientIds: handoffQueue.clientIds.filter((id) => id !== clientId),
+      },
+    });
+  }
+
+  // The summary of a conversation that may not be listed, e.g. an open tab
+  // or the sender of an alert; null when it cannot be loaded
+  ensureChat(clientId: string): Promise<ChatSummary | null> {
+    const known = this.state.chats[clientId];
+    if (known) return Promise.resolve(known);
+    return this.fetchChat(clientId);
+  }
+
+  // Conversations open as tabs, whether or not they are on screen
+  setOpenChats(clientIds: string[]) {
+    this.openIds = clientIds;
+    clientIds.forEach((clientId) => this.ensureChat(clientId));
+  }
+
+  // Conversations on screen are read, however they got there
+  setVisibleChats(clientIds: string[]) {
+    this.visibleIds = clientIds;
+    this.readVisible();
+  }
+
+  // Summary changes, ours or another agent's
+  patchChat(clientId: string, patch: Partial<ChatSummary>) {
+    const chat = this.state.chats[clientId];
+    if (!chat) return;
+    this.set({
+      ...this.state,
+      chats: { ...this.state.chats, [clientId]: { ...chat, ...patch } },
+    });
+  }
+
+  // A new message from the socket or the outbox; duplicates are ignored
+  receiveMessage(clientId: string, message: Message) {
+    const key = messageKey(message);
+    this.appendMessages(clientId, [message]);
+
+    const chat = this.state.chats[clientId];
+    if (!chat) {
+      // Fetched with the server's unread count, which includes this message
+      this.fetchChat(clientId);
+      this.refreshList();
+      this.refreshUnread();
+      return;
+    }
+    if (this.countedMessages.get(clientId)?.has(key)) return;
+    this.markCounted(clientId, key);
+
+    const viewing = this.isViewing(clientId);
+    const fromCustomer = isCustomerMessage(message.sender);
+    const messageCount = chat.messageCount + 1;
+    // A message that arrives out of order is counted but never replaces a
+    // newer last message
+    const latest = !isOlder(message, chat.lastMessage);
+    this.patchChat(clientId, {
+      lastMessage: latest ? message : chat.lastMessage,
+      messageCount,
+      firstResponseAt:
+        isSupportMessage(message.sender) &&
+        (!chat.firstResponseAt ||
+          new Date(message.timestamp) < new Date(chat.firstResponseAt))
+          ? message.timestamp
+          : chat.firstResponseAt,
+      awaitingReplySince: !latest
+        ? chat.awaitingReplySince
+        : isSupportMessage(message.sender)
+        ? null
+        : fromCustomer
+        ? chat.awaitingReplySince ?? message.timestamp
+        : chat.awaitingReplySince,
+      unreadCount: viewing
+        ? 0
+        : fromCustomer
+        ? chat.unreadCount + 1
+        : chat.unreadCount,
+    });
+    // Seen as it arrived, so the server cursor moves on too
+    if (viewing && fromCustomer) this.saveReadCursor(clientId, messageCount);
+    else if (fromCustomer) this.refreshUnread();
+
+    const { clientIds } = this.state.list;
+    if (!latest) return;
+    if (!clientIds.includes(clientId)) {
+      // Not loaded yet; it belongs at the top of a fresh first page
+      this.refreshList();
+    } else if (clientIds[0] !== clientId) {
+      this.setList({
+        clientIds: [clientId, ...clientIds.filter((id) => id !== clientId)],
+      });
+    }
+  }
+
+  // A note from the socket or the agent's own composer
+  receiveNote(clientId: string, note: InternalNote) {
+    const transcript = this.state.transcripts[clientId];
+    if (
+      transcript &&
+      !transcript.notes.some((existing) => existing.id === note.id)
+    ) {
+      this.setTranscript(clientId, { notes: [...transcript.notes, note] });
+    }
+
+    // Mark the conversation for the agents the note mentions
+    const chat = this.state.chats[clientId];
+    if (!chat) return;
+    const agentId = currentAgentId();
+    const viewing = this.isViewing(clientId);
+    const mentioned = new Set([
+      ...(chat.mentionedAgentIds ?? []),
+      ...note.mentions,
+    ]);
+    mentioned.delete(note.author.id);
+    if (viewing && agentId) mentioned.delete(agentId);
+    this.patchChat(clientId, { mentionedAgentIds: [...mentioned] });
+
+    if (
+      viewing &&
+      agentId &&
+      note.author.id !== agentId &&
+      note.mentions.includes(agentId)
+    ) {
+      clearChatMention(clientId).catch((error) =>
+        console.error("Error clearing mention:", error)
+      );
+    }
+  }
+
+  markRead(clientId: string) {
+    const chat = this.state.chats[clientId];
+    if (!chat || chat.unreadCount === 0) return;
+    this.patchChat(clientId, { unreadCount: 0 });
+    this.saveReadCursor(clientId, chat.messageCount);
+  }
+
+  // Stays unread on every device until the agent opens it again. The caller
+  // closes the conversation, so it is no longer on screen from here on.
+  markUnread(clientId: string) {
+    this.visibleIds = this.visibleIds.filter((id) => id !== clientId);
+    const chat = this.state.chats[clientId];
+    if (chat) {
+      this.patchChat(clientId, {
+        unreadCount: Math.max(1, chat.unreadCount),
+      });
+    }
+    markChatUnread(clientId)
+      .then(() => this.refreshUnread())
+      .catch((error) => console.error("Error marking chat unread:", error));
+  }
+
+  // Looking at a conversation clears the current agent's mention marker
+  clearMention(clientId: string) {
+    const chat = this.state.chats[clientId];
+    const agentId = currentAgentId();
+    if (!chat || !agentId || !chat.mentionedAgentIds?.includes(agentId)) {
+      return;
+    }
+    this.patchChat(clientId, {
+      mentionedAgentIds: chat.mentionedAgentIds.filter((id) => id !== agentId),
+    });
+    clearChatMention(clientId).catch((error) =>
+      console.error("Error clearing mention:", error)
+    );
+  }
+
+  // Unread conversations and their total for the badges, from any route
+  async loadUnread() {
+    this.unreadRequest?.abort();
+    const controller = new AbortController();
+    this.unreadRequest = controller;
+    try {
+      const page = await getChatSummaries(
+        {
+          filters: { ...DEFAULT_CHAT_FILTERS, view: "all", unreadOnly: true },
+          limit: UNREAD_LIMIT,
+        },
+        { signal: controller.signal }
+      );
+      this.upsertChats(page.items);
+      this.set({ ...this.state, unreadTotal: page.total });
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error fetching unread chats:", error);
+      }
+    }
+  }
+
+  // Loads the newest page for a pane; the returned function releases it
+  openTranscript(clientId: string) {
+    this.setTranscript(clientId, EMPTY_TRANSCRIPT);
+    const controller = new AbortController();
+    this.transcriptRequests.set(clientId, controller);
+    this.loadLatest(clientId, controller.signal).catch((error) => {
+      if (!isAbortError(error)) {
+        console.error("Error fetching messages:", error);
+        this.setTranscript(clientId, { loading: false });
+      }
+    });
+
+    return () => {
+      if (this.transcriptRequests.get(clientId) !== controller) return;
+      controller.abort();
+      this.transcriptRequests.delete(clientId);
+      const transcripts = { ...this.state.transcripts };
+      const messages = { ...this.state.messages };
+      delete transcripts[clientId];
+      delete messages[clientId];
+      this.set({ ...this.state, transcripts, messages });
+    };
+  }
+
+  async loadOlderMessages(clientId: string) {
+    const transcript = this.state.transcripts[clientId];
+    if (
+      !transcript ||
+      !transcript.prevCursor ||
+      transcript.loading ||
+      transcript.loadingOlder
+    ) {
+      return;
+    }
+    this.setTranscript(clientId, { loadingOlder: true });
+    try {
+      const page = await getChatMessages(
+        {
+          clientId,
+          before: transcript.prevCursor,
+          limit: TRANSCRIPT_PAGE_SIZE,
+        },
+        { signal: this.transcriptRequests.get(clientId)?.signal }
+      );
+      const current = this.state.transcripts[clientId];
+      if (!current) return;
+      const known = new Set(current.messageKeys);
+      this.setTranscript(
+        clientId,
+        {
+          messageKeys: [
+            ...page.messages.map(messageKey).filter((key) => !known.has(key)),
+            ...current.messageKeys,
+          ],
+          prevCursor: page.prevCursor,
+          loadingOlder: false,
+        },
+        page.messages
+      );
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error("Error fetching older messages:", error);
+      }
+      this.setTranscript(clientId, { loadingOlder: false });
+    }
+  }
+
+  private async loadLatest(clientId: string, signal?: AbortSignal) {
+    const page = await getChatMessages(
+      { clientId, limit: TRANSCRIPT_PAGE_SIZE },
+      { signal }
+    );
+    const prev = this.state.transcripts[clientId];
+    if (!prev) return;
+    const newest = page.messages.map(messageKey);
+    const overlaps =
+      !prev.loading && newest.some((key) => prev.messageKeys.includes(key));
+    // Keep the older pages already loaded when the new page joins up with
+    // them, otherwise start again from the newest messages
+    this.setTranscript(
+      clientId,
+      overlaps
+        ? {
+            messageKeys: appendKeys(prev.messageKeys, newest),
+            notes: page.notes ?? prev.notes,
+            loading: false,
+          }
+        : {
+            // Live messages that arrived during the first load come last
+            messageKeys: prev.loading
+              ? appendKeys(newest, prev.messageKeys)
+              : newest,
+            notes: page.notes ?? [],
+            prevCursor: page.prevCursor,
+            loading: false,
+          },
+      page.messages
+    );
+  }
+
+  private fetchChat(clientId: string) {
+    const pending = this.pendingChats.get(clientId);
+    if (pending) return pending;
+    const request = getChatSummary(clientId)
+      .then((chat) => {
+        this.upsertChats([chat]);
+        return chat;
+      })
+      .catch((error) => {
+        console.error("Error fetching conversation:", error);
+        if (!this.state.chats[clientId]) {
+          this.set({
+            ...this.state,
+            missing: { ...this.state.missing, [clientId]: true as const },
+          });
+        }
+        return null;
+      })
+      .finally(() => this.pendingChats.delete(clientId));
+    this.pendingChats.set(clientId, request);
+    return request;
+  }
+
+  // The server's copy wins; it may have been loaded for another view
+  private upsertChats(chats: ChatSummary[]) {
+    if (chats.length === 0) return;
+    const next = { ...this.state.chats };
+    const missing = { ...this.state.missing };
+    chats.forEach((chat) => {
+      next[chat.clientId] = chat;
+      delete missing[chat.clientId];
+      // The server's count already includes its last message
+      if (chat.lastMessage) {
+        this.markCounted(chat.clientId, messageKey(chat.lastMessage));
+      }
+    });
+    this.set({ ...this.state, chats: next, missing });
+    this.readVisible();
+  }
+
+  private markCounted(clientId: string, key: string) {
+    const counted = this.countedMessages.get(clientId);
+    if (counted) counted.add(key);
+    else this.countedMessages.set(clientId, new Set([key]));
+  }
+
+  private appendMessages(clientId: string, incoming: Message[]) {
+    const transcript = this.state.transcripts[clientId];
+    if (!transcript) return;
+    const messageKeys = appendKeys(
+      transcript.messageKeys,
+      incoming.map(messageKey)
+    );
+    if (messageKeys !== transcript.messageKeys) {
+      this.setTranscript(clientId, { messageKeys }, incoming);
+    }
+  }
+
+  // Messages are kept only while a transcript lists them
+  private setTranscript(
+    clientId: string,
+    patch: Partial<TranscriptState>,
+    incoming: Message[] = []
+  ) {
+    const transcript = {
+      ...(this.state.transcripts[clientId] ?? EMPTY_TRANSCRIPT),
+      ...patch,
+    };
+    const known = { ...this.state.messages[clientId] };
+    incoming.forEach((message) => {
+      known[messageKey(message)] = message;
+    });
+    const messages: Record<string, Message> = {};
+    transcript.messageKeys.forEach((key) => {
+      if (known[key]) messages[key] = known[key];
+    });
+    this.set({
+      ...this.state,
+      transcripts: { ...this.state.transcripts, [clientId]: transcript },
+      messages: { ...this.state.messages, [clientId]: messages },
+    });
+  }
+
+  private setList(patch: Partial<ChatListState>) {
+    this.set({ ...this.state, list: { ...this.state.list, ...patch } });
+  }
+
+  private readVisible() {
+    this.visibleIds.forEach((clientId) => {
+      if (!this.isViewing(clientId)) return;
+      this.markRead(clientId);
+      this.clearMention(clientId);
+    });
+  }
+
+  // Reload the unread total after something may have changed it
+  private refreshUnread() {
+    clearTimeout(this.unreadTimer);
+    this.unreadTimer = setTimeout(
+      () => this.loadUnread(),
+      REFRESH_DEBOUNCE_MS
+    );
+  }
+
+  private saveReadCursor(clientId: string, readCount: number) {
+    markChatRead({ clientId, readCount })
+      .then(() => this.refreshUnread())
+      .catch((error) => console.error("Error marking chat read:", error));
+  }
+
+  private resync() {
+    this.refreshList();
+    this.reloadHandoffQueue();
+    this.loadUnread();
+    this.openIds.forEach((clientId) => this.fetchChat(clientId));
+    // Each open pane catches up without dropping the pages it has
+    this.transcriptRequests.forEach((controller, clientId) =>
+      this.loadLatest(clientId, controller.signal).catch((error) => {
+        if (!isAbortError(error)) {
+          console.error("Error re-syncing messages:", error);
+        }
+      })
+    );
+  }
+
+  private reset() {
+    this.listRequest?.abort();
+    this.queueRequest?.abort();
+    this.unreadRequest?.abort();
+    this.transcriptRequests.forEach((controller) => controller.abort());
+    this.transcriptRequests.clear();
+    this.countedMessages.clear();
+    clearTimeout(this.refreshTimer);
+    clearTimeout(this.unreadTimer);
+    this.visibleIds = [];
+    this.openIds = [];
+    this.set(INITIAL_STATE);
+  }
+
+  private set(state: ChatStoreState) {
+    this.state = state;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const chatStore = new ChatStore();
@@ -0,0 +1,27 @@
+import type { ShortcutAction } from "./shortcuts";
+
+// Actions offered in the command palette. Pages register a source while they
+// are mounted; the palette asks every source for its commands when it opens,
+// so they always reflect the current selection.
+
+export interface Command {
+  id: string;
+  label: string;
+  group: string;
+  // Shown next to the label when the action also has a key binding
+  shortcut?: ShortcutAction;
+  run: () => void;
+}
+
+type CommandSource = () => Command[];
+
+const sources = new Set<CommandSource>();
+
+export const registerCommandSource = (source: CommandSource) => {
+  sources.add(source);
+  return () => {
+    sources.delete(source);
+  };
+};
+
+export const getCommands = () => [...sources].flatMap((source) => source());
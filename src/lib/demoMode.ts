@@ -0,0 +1,120 @@
+import { getSession, subscribeToSession } from "./session";
+
+// Demo mode answers every API call from an in-browser fixture store (see
+// src/demo) and simulates socket traffic, so the panel runs without
+// production credentials or network access. It is switched on from the
+// login page or with `?demo=1`, and off again on logout. The URL flag is
+// ignored while a real agent is signed in, so a shared link never turns a
+// live session into the demo.
+
+export interface DemoSettings {
+  // Seed for the generated conversations and the scripted messages
+  seed: number;
+  chatCount: number;
+  // Average time between simulated customer messages; 0 turns them off
+  messageIntervalMs: number;
+}
+
+export const DEFAULT_DEMO_SETTINGS: DemoSettings = {
+  seed: 1,
+  chatCount: 40,
+  messageIntervalMs: 15000,
+};
+
+export const DEMO_MESSAGE_RATES: { value: number; label: string }[] = [
+  { value: 0, label: "Off" },
+  { value: 60000, label: "Every minute" },
+  { value: 15000, label: "Every 15 seconds" },
+  { value: 3000, label: "Every 3 seconds" },
+];
+
+// The demo backend's admin account (see src/mockApi/fixtures.ts)
+export const DEMO_CREDENTIALS = { email: "demo@sayy.ai", password: "demo" };
+
+const STORAGE_KEY = "sayy-admin-demo";
+const MAX_DEMO_CHATS = 5000;
+
+const listeners = new Set<() => void>();
+
+const readInteger = (value: unknown, fallback: number, max: number) => {
+  const number = Number(value);
+  return Number.isInteger(number) && number >= 0 && number <= max
+    ? number
+    : fallback;
+};
+
+const normalize = (
+  raw: Partial<Record<keyof DemoSettings, unknown>>
+): DemoSettings => ({
+  seed: readInteger(raw.seed, DEFAULT_DEMO_SETTINGS.seed, 2 ** 31),
+  chatCount: readInteger(
+    raw.chatCount,
+    DEFAULT_DEMO_SETTINGS.chatCount,
+    MAX_DEMO_CHATS
+  ),
+  messageIntervalMs: readInteger(
+    raw.messageIntervalMs,
+    DEFAULT_DEMO_SETTINGS.messageIntervalMs,
+    24 * 60 * 60 * 1000
+  ),
+});
+
+const readStoredSettings = (): DemoSettings | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? normalize(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+};
+
+// `?demo=1` turns demo mode on; `demoSeed`, `demoChats` and `demoRate`
+// (milliseconds, 0 for none) pick the data, e.g. for end-to-end tests
+const readUrlSettings = (): DemoSettings | null => {
+  const params = new URLSearchParams(window.location.search);
+  if (params.get("demo") !== "1") return null;
+  return normalize({
+    seed: params.get("demoSeed") ?? undefined,
+    chatCount: params.get("demoChats") ?? undefined,
+    messageIntervalMs: params.get("demoRate") ?? undefined,
+  });
+};
+
+const storedSettings = readStoredSettings();
+// A stored demo means the current session, if any, is a demo one
+const urlSettings =
+  storedSettings || !getSession() ? readUrlSettings() : null;
+
+let settings: DemoSettings | null = urlSettings ?? storedSettings;
+if (settings) localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export const isDemoMode = () => settings !== null;
+
+export const getDemoSettings = () => settings ?? DEFAULT_DEMO_SETTINGS;
+
+export const enableDemoMode = (patch: Partial<DemoSettings> = {}) => {
+  settings = normalize({ ...getDemoSettings(), ...patch });
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  notify();
+};
+
+export const disableDemoMode = () => {
+  if (!settings) return;
+  settings = null;
+  localStorage.removeItem(STORAGE_KEY);
+  notify();
+};
+
+export const subscribeToDemoMode = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Signing out leaves the demo; an expired demo session just signs in again
+subscribeToSession((session, reason) => {
+  if (!session && reason === "logout") disableDemoMode();
+});
@@ -0,0 +1,81 @@
+import { getSession } from "./session";
+
+// Unsent text per conversation, so switching chats never carries a reply
+// into the wrong one and a reload loses nothing. Stored per agent.
+// Attachments are not kept: their uploads belong to the page that made them.
+
+export interface Draft {
+  text: string;
+  // A half-written note must never come back as a reply to the customer
+  mode: "reply" | "note";
+  updatedAt: string;
+}
+
+export type Drafts = Record<string, Draft>;
+
+const STORAGE_PREFIX = "sayy-admin-drafts";
+// Abandoned drafts are dropped after this long
+const DRAFT_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+const storageKey = () =>
+  `${STORAGE_PREFIX}:${getSession()?.agent.id ?? "anonymous"}`;
+
+const listeners = new Set<() => void>();
+let cached: { key: string; drafts: Drafts } | null = null;
+
+const readDrafts = (key: string): Drafts => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? "{}") as Drafts;
+    const cutoff = Date.now() - DRAFT_TTL_MS;
+    return Object.fromEntries(
+      Object.entries(stored).filter(
+        ([, draft]) =>
+          typeof draft?.text === "string" &&
+          new Date(draft.updatedAt).getTime() > cutoff
+      )
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const getDrafts = () => {
+  const key = storageKey();
+  if (cached?.key !== key) {
+    cached = { key, drafts: readDrafts(key) };
+  }
+  return cached.drafts;
+};
+
+export const getDraft = (clientId: string): Draft | undefined =>
+  getDrafts()[clientId];
+
+export const subscribeToDrafts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// An empty reply needs no draft; an empty note keeps the composer in note mode
+export const saveDraft = (
+  clientId: string,
+  { text, mode }: Pick<Draft, "text" | "mode">
+) => {
+  const key = storageKey();
+  const drafts = { ...getDrafts() };
+  if (!text && mode === "reply") {
+    if (!drafts[clientId]) return;
+    delete drafts[clientId];
+  } else {
+    drafts[clientId] = { text, mode, updatedAt: new Date().toISOString() };
+  }
+  cached = { key, drafts };
+  try {
+    localStorage.setItem(key, JSON.stringify(drafts));
+  } catch (error) {
+    // Still kept in memory for this page
+    console.error("Error saving draft:", error);
+  }
+  listeners.forEach((listener) => listener());
+};
@@ -0,0 +1,139 @@
+// Canned responses ("macros") shared by a team as a JSON library. Stored in
+// localStorage and exchanged between agents through import/export.
+
+export interface Macro {
+  id: string;
+  title: string;
+  category: string;
+  // May contain {{placeholders}}, see utils/macroTemplate
+  content: string;
+  updatedAt: string;
+}
+
+export interface MacroLibraryFile {
+  version: 1;
+  macros: Macro[];
+}
+
+const STORAGE_KEY = "sayy-admin-macros";
+
+const DEFAULT_MACROS: Macro[] = [
+  {
+    id: "default-greeting",
+    title: "Greeting",
+    category: "General",
+    content: "Hi! This is {{agentName}} from Sayy support. How can I help?",
+    updatedAt: new Date(0).toISOString(),
+  },
+  {
+    id: "default-looking-into-it",
+    title: "Looking into it",
+    category: "General",
+    content:
+      "Thanks for the details. I'm looking into \"{{chatTitle}}\" now and will get back to you shortly.",
+    updatedAt: new Date(0).toISOString(),
+  },
+  {
+    id: "default-closing",
+    title: "Closing",
+    category: "General",
+    content:
+      "Glad we could help! If anything else comes up, just reply here.",
+    updatedAt: new Date(0).toISOString(),
+  },
+];
+
+const listeners = new Set<() => void>();
+
+const readStoredMacros = (): Macro[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Macro[]) : DEFAULT_MACROS;
+  } catch {
+    return DEFAULT_MACROS;
+  }
+};
+
+let macros = readStoredMacros();
+
+const commit = (next: Macro[]) => {
+  macros = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener());
+};
+
+export const getMacros = () => macros;
+
+export const subscribeToMacros = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getMacroCategories = (list: Macro[]) =>
+  [...new Set(list.map((macro) => macro.category))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+// Insert or update by id
+export const saveMacro = (
+  macro: Omit<Macro, "id" | "updatedAt"> & { id?: string }
+) => {
+  const saved: Macro = {
+    ...macro,
+    id: macro.id ?? crypto.randomUUID(),
+    title: macro.title.trim(),
+    category: macro.category.trim() || "General",
+    updatedAt: new Date().toISOString(),
+  };
+  const exists = macros.some((existing) => existing.id === saved.id);
+  commit(
+    exists
+      ? macros.map((existing) => (existing.id === saved.id ? saved : existing))
+      : [...macros, saved]
+  );
+  return saved;
+};
+
+export const deleteMacro = (id: string) =>
+  commit(macros.filter((macro) => macro.id !== id));
+
+export const exportMacros = () =>
+  JSON.stringify({ version: 1, macros } satisfies MacroLibraryFile, null, 2);
+
+const isMacro = (value: unknown): value is Macro => {
+  if (typeof value !== "object" || value === null) return false;
+  const candidate = value as Record<string, unknown>;
+  return (
+    typeof candidate.id === "string" &&
+    typeof candidate.title === "string" &&
+    typeof candidate.category === "string" &&
+    typeof candidate.content === "string"
+  );
+};
+
+// Merge an exported library; macros with the same id are replaced.
+// Throws when the file is not a macro library.
+export const importMacros = (json: string) => {
+  let parsed: Partial<MacroLibraryFile> | Macro[] | null;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    parsed = null;
+  }
+  const incoming = Array.isArray(parsed) ? parsed : parsed?.macros;
+  if (!Array.isArray(incoming) || !incoming.every(isMacro)) {
+    throw new Error("This file is not a macro library export.");
+  }
+
+  const byId = new Map(macros.map((macro) => [macro.id, macro]));
+  incoming.forEach((macro) =>
+    byId.set(macro.id, {
+      ...macro,
+      updatedAt: macro.updatedAt || new Date().toISOString(),
+    })
+  );
+  commit([...byId.values()]);
+  return incoming.length;
+};
@@ -0,0 +1,98 @@
+import { getSession } from "./session";
+
+// How an agent wants to be told about new customer messages. Stored per
+// agent so people sharing a browser keep their own preferences.
+
+export interface NotificationSettings {
+  desktop: boolean;
+  sound: boolean;
+  // Silences desktop notifications and sound; unread counts still update
+  muted: boolean;
+  quietHours: {
+    enabled: boolean;
+    // Local "HH:MM"; the window may wrap past midnight
+    start: string;
+    end: string;
+  };
+  // Only alert for conversations assigned to the current agent
+  assignedOnly: boolean;
+  // Alert when a waiting conversation misses its response target
+  slaBreaches: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  desktop: true,
+  sound: false,
+  muted: false,
+  quietHours: { enabled: false, start: "22:00", end: "07:00" },
+  assignedOnly: false,
+  slaBreaches: true,
+};
+
+const STORAGE_PREFIX = "sayy-admin-notifications";
+
+const storageKey = () =>
+  `${STORAGE_PREFIX}:${getSession()?.agent.id ?? "anonymous"}`;
+
+const listeners = new Set<() => void>();
+let cached: { key: string; settings: NotificationSettings } | null = null;
+
+const readSettings = (key: string): NotificationSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? "{}");
+    return {
+      ...DEFAULT_NOTIFICATION_SETTINGS,
+      ...stored,
+      quietHours: {
+        ...DEFAULT_NOTIFICATION_SETTINGS.quietHours,
+        ...stored.quietHours,
+      },
+    };
+  } catch {
+    return DEFAULT_NOTIFICATION_SETTINGS;
+  }
+};
+
+export const getNotificationSettings = () => {
+  const key = storageKey();
+  if (cached?.key !== key) {
+    cached = { key, settings: readSettings(key) };
+  }
+  return cached.settings;
+};
+
+export const subscribeToNotificationSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const saveNotificationSettings = (
+  patch: Partial<NotificationSettings>
+) => {
+  const key = storageKey();
+  const settings = { ...getNotificationSettings(), ...patch };
+  cached = { key, settings };
+  localStorage.setItem(key, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+export const isQuietTime = (
+  settings: NotificationSettings,
+  now = new Date()
+) => {
+  if (!settings.quietHours.enabled) return false;
+  const start = toMinutes(settings.quietHours.start);
+  const end = toMinutes(settings.quietHours.end);
+  const current = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+};
@@ -0,0 +1,218 @@
+import { ApiError } from "./apiClient";
+import { isDemoMode } from "./demoMode";
+import { getEnvironment } from "./runtimeConfig";
+import { realtimeClient } from "./realtime";
+import { updateAdminChatLog } from "./serverActions";
+import { getSession } from "./session";
+import type { Attachment, Message } from "./types";
+
+// Persistent queue of support replies. Messages survive reloads, are sent
+// one at a time in order, and are retried when connectivity comes back.
+
+export type OutboxStatus = "sending" | "failed";
+
+export interface OutboxEntry {
+  clientId: string;
+  message: Message & { id: string };
+  status: OutboxStatus;
+  // Connectivity failures are retried automatically, anything else waits
+  // for the agent to press retry
+  retryable: boolean;
+  error?: string;
+}
+
+export interface DeliveredMessage {
+  clientId: string;
+  message: Message;
+}
+
+const STORAGE_PREFIX = "sayy-admin-outbox";
+
+// Scoped to the backend as well as the agent, so replies queued against one
+// environment (or the demo) never drain to another after a switch
+const storageKey = () => {
+  const backend = isDemoMode() ? "demo" : getEnvironment().id;
+  const agentId = getSession()?.agent.id ?? "anonymous";
+  return `${STORAGE_PREFIX}:${backend}:${agentId}`;
+};
+
+// Replies queued behind a failed one in the same conversation wait until it
+// is retried or discarded, so the customer gets them in the order written
+export const findHeldEntries = (entries: OutboxEntry[]) => {
+  const blocked = new Set<string>();
+  const held = new Set<string>();
+  entries.forEach((entry) => {
+    if (entry.status === "failed") blocked.add(entry.clientId);
+    else if (blocked.has(entry.clientId)) held.add(entry.message.id);
+  });
+  return held;
+};
+
+const isConnectivityError = (error: unknown) =>
+  error instanceof ApiError &&
+  (error.code === "NETWORK" ||
+    error.code === "TIMEOUT" ||
+    (error.status !== null && error.status >= 500));
+
+class Outbox {
+  private entries: OutboxEntry[] = [];
+  private loadedKey: string | null = null;
+  private draining = false;
+  private readonly listeners = new Set<(entries: OutboxEntry[]) => void>();
+  private readonly deliveredListeners = new Set<
+    (delivered: DeliveredMessage) => void
+  >();
+
+  constructor() {
+    window.addEventListener("online", () => this.retryConnectivityFailures());
+    realtimeClient.onReconnect(() => this.retryConnectivityFailures());
+  }
+
+  getEntries() {
+    this.load();
+    return this.entries;
+  }
+
+  subscribe(listener: (entries: OutboxEntry[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  onDelivered(listener: (delivered: DeliveredMessage) => void) {
+    this.deliveredListeners.add(listener);
+    return () => {
+      this.deliveredListeners.delete(listener);
+    };
+  }
+
+  // Attachments must already be uploaded; only their references are queued
+  enqueue(clientId: string, content: string, attachments?: Attachment[]) {
+    this.load();
+    const agent = getSession()?.agent;
+    const entry: OutboxEntry = {
+      clientId,
+      message: {
+        id: crypto.randomUUID(),
+        sender: "support",
+        // Shown until the server echo arrives with the authoritative one
+        ...(agent ? { agent: { id: agent.id, name: agent.name } } : {}),
+        content,
+        timestamp: new Date().toISOString(),
+        ...(attachments?.length ? { attachments } : {}),
+      },
+      status: "sending",
+      retryable: true,
+    };
+    this.update([...this.entries, entry]);
+    this.drain();
+    return entry;
+  }
+
+  retry(id: string) {
+    this.setStatus(id, { status: "sending", error: undefined });
+    this.drain();
+  }
+
+  discard(id: string) {
+    this.update(this.entries.filter((entry) => entry.message.id !== id));
+    // Replies held behind a failed one can go now
+    this.drain();
+  }
+
+  // Called for server echoes so a message never shows twice
+  acknowledge(id: string | undefined) {
+    if (!id || !this.entries.some((entry) => entry.message.id === id)) return;
+    this.discard(id);
+  }
+
+  // Resume whatever was left from a previous page load
+  resume() {
+    this.load();
+    this.drain();
+  }
+
+  private retryConnectivityFailures() {
+    this.load();
+    let changed = false;
+    const next = this.entries.map((entry) => {
+      if (entry.status !== "failed" || !entry.retryable) return entry;
+      changed = true;
+      return { ...entry, status: "sending" as const, error: undefined };
+    });
+    if (changed) this.update(next);
+    this.drain();
+  }
+
+  private async drain() {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      let entry: OutboxEntry | undefined;
+      while ((entry = this.nextToSend())) {
+        await this.send(entry);
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  private nextToSend() {
+    const held = findHeldEntries(this.entries);
+    return this.entries.find(
+      (entry) => entry.status === "sending" && !held.has(entry.message.id)
+    );
+  }
+
+  private async send(entry: OutboxEntry) {
+    try {
+      await updateAdminChatLog({
+        newUserLog: [entry.message],
+        clientId: entry.clientId,
+      });
+      this.discard(entry.message.id);
+      this.deliveredListeners.forEach((listener) =>
+        listener({ clientId: entry.clientId, message: entry.message })
+      );
+    } catch (error) {
+      console.error("Error sending message:", error);
+      this.setStatus(entry.message.id, {
+        status: "failed",
+        retryable: isConnectivityError(error),
+        error: error instanceof Error ? error.message : "Failed to send",
+      });
+    }
+  }
+
+  private setStatus(id: string, patch: Partial<OutboxEntry>) {
+    this.update(
+      this.entries.map((entry) =>
+        entry.message.id === id ? { ...entry, ...patch } : entry
+      )
+    );
+  }
+
+  // The queue is per backend and agent, so reload it when either changes
+  private load() {
+    const key = storageKey();
+    if (key === this.loadedKey) return;
+    this.loadedKey = key;
+    try {
+      const raw = localStorage.getItem(key);
+      this.entries = raw ? (JSON.parse(raw) as OutboxEntry[]) : [];
+    } catch {
+      this.entries = [];
+    }
+  }
+
+  private update(entries: OutboxEntry[]) {
+    this.entries = entries;
+    if (this.loadedKey) {
+      localStorage.setItem(this.loadedKey, JSON.stringify(entries));
+    }
+    this.listeners.forEach((listener) => listener(entries));
+  }
+}
+
+export const outbox = new Outbox();
@@ -0,0 +1,656 @@
+import { isDemoMode } from "./demoMode";
+import { getSocketUrl } from "./runtimeConfig";
+import { getSession } from "./session";
+import type {
+  AgentRef,
+  Attachment,
+  ChatStatus,
+  CustomerAttributes,
+  HandoffRequest,
+  InternalNote,
+  Message,
+  SlaBreach,
+  SlaKind,
+  TagDefinition,
+} from "./types";
+import { DemoSocket } from "../demo/socket";
+import { isTagColor } from "../utils/tags";
+
+// Realtime connection to the support Socket.IO server. Speaks Engine.IO v4
+// framing over a plain WebSocket, answers heartbeats, reconnects with
+// exponential backoff and tells subscribers when to re-sync.
+
+const CONNECT_TIMEOUT_MS = 20000;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+// Used until the server handshake tells us the real values
+const DEFAULT_PING_INTERVAL_MS = 25000;
+const DEFAULT_PING_TIMEOUT_MS = 20000;
+
+export type RealtimeStatus =
+  | "connecting"
+  | "online"
+  | "reconnecting"
+  | "offline";
+
+export interface ChatUpdatedEvent {
+  clientId: string;
+  message: Message;
+}
+
+export interface ChatStatusChangedEvent {
+  clientId: string;
+  status: ChatStatus;
+  changedBy: AgentRef | null;
+}
+
+export interface ChatAssignedEvent {
+  clientId: string;
+  assignee: AgentRef | null;
+  assignedBy: AgentRef | null;
+}
+
+export interface ChatNoteAddedEvent {
+  clientId: string;
+  note: InternalNote;
+}
+
+export interface CustomerUpdatedEvent {
+  clientId: string;
+  attributes: CustomerAttributes;
+  updatedBy: AgentRef | null;
+}
+
+// Sent when an agent takes over or hands back, and when the bot asks for a
+// human (changedBy is then null)
+export interface ChatHandoffChangedEvent {
+  clientId: string;
+  aiPaused: boolean;
+  handoffRequest: HandoffRequest | null;
+  changedBy: AgentRef | null;
+}
+
+export interface SlaBreachedEvent {
+  breach: SlaBreach;
+}
+
+export interface ChatTagsChangedEvent {
+  clientId: string;
+  tags: string[];
+  changedBy: AgentRef | null;
+}
+
+// The whole tag catalog, after an admin adds, edits or deletes a tag
+export interface TagsChangedEvent {
+  tags: TagDefinition[];
+}
+
+// An agent read a conversation or marked it unread, on any device; only
+// the agent's own events matter to them
+export interface ChatReadChangedEvent {
+  clientId: string;
+  agentId: string;
+  unreadCount: number;
+}
+
+// Server -> client events; add new ones here together with a parser below
+export interface RealtimeEventMap {
+  chatUpdated: ChatUpdatedEvent;
+  chatStatusChanged: ChatStatusChangedEvent;
+  chatAssigned: ChatAssignedEvent;
+  chatNoteAdded: ChatNoteAddedEvent;
+  customerUpdated: CustomerUpdatedEvent;
+  slaBreached: SlaBreachedEvent;
+  chatHandoffChanged: ChatHandoffChangedEvent;
+  chatTagsChanged: ChatTagsChangedEvent;
+  tagsChanged: TagsChangedEvent;
+  chatReadChanged: ChatReadChangedEvent;
+}
+
+export type RealtimeEventName = keyof RealtimeEventMap;
+
+type EventHandler<K extends RealtimeEventName> = (
+  payload: RealtimeEventMap[K]
+) => void;
+
+type EventParsers = {
+  [K in RealtimeEventName]: (payload: unknown) => RealtimeEventMap[K] | null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const parseAttachment = (value: unknown): Attachment | null =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.url === "string"
+    ? {
+        id: value.id,
+        name: value.name,
+        mimeType: String(value.mimeType ?? "application/octet-stream"),
+        size: Number(value.size) || 0,
+        url: value.url,
+      }
+    : null;
+
+const parseMessage = (value: unknown): Message | null =>
+  isRecord(value) &&
+  typeof value.sender === "string" &&
+  typeof value.content === "string"
+    ? {
+        id: typeof value.id === "string" ? value.id : undefined,
+        sender: value.sender,
+        agent: parseAgentRef(value.agent) ?? undefined,
+        content: value.content,
+        timestamp: String(value.timestamp ?? new Date().toISOString()),
+        attachments: Array.isArray(value.attachments)
+          ? value.attachments
+              .map(parseAttachment)
+              .filter((item): item is Attachment => item !== null)
+          : undefined,
+      }
+    : null;
+
+const parseAgentRef = (value: unknown): AgentRef | null =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string"
+    ? { id: value.id, name: value.name }
+    : null;
+
+const parseNote = (value: unknown): InternalNote | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.content !== "string"
+  ) {
+    return null;
+  }
+  const author = parseAgentRef(value.author);
+  if (!author) return null;
+  return {
+    id: value.id,
+    author,
+    content: value.content,
+    timestamp: String(value.timestamp ?? new Date().toISOString()),
+    mentions: Array.isArray(value.mentions)
+      ? value.mentions.filter((id): id is string => typeof id === "string")
+      : [],
+  };
+};
+
+const parseAttributes = (value: unknown): CustomerAttributes | null => {
+  if (!isRecord(value)) return null;
+  const attributes: CustomerAttributes = {};
+  (["name", "email", "plan"] as const).forEach((key) => {
+    if (typeof value[key] === "string") attributes[key] = value[key];
+  });
+  return attributes;
+};
+
+const parseHandoffRequest = (value: unknown): HandoffRequest | null =>
+  isRecord(value) && typeof value.requestedAt === "string"
+    ? {
+        requestedAt: value.requestedAt,
+        reason: typeof value.reason === "string" ? value.reason : "",
+      }
+    : null;
+
+const parseTagNames = (value: unknown): string[] | null =>
+  Array.isArray(value)
+    ? value.filter((tag): tag is string => typeof tag === "string")
+    : null;
+
+const parseTagDefinition = (value: unknown): TagDefinition | null =>
+  isRecord(value) && typeof value.name === "string"
+    ? {
+        name: value.name,
+        color: isTagColor(value.color) ? value.color : "gray",
+        description:
+          typeof value.description === "string" ? value.description : "",
+      }
+    : null;
+
+const CHAT_STATUSES: ChatStatus[] = [
+  "open",
+  "pending_customer",
+  "resolved",
+  "closed",
+];
+
+const SLA_KINDS: SlaKind[] = ["first_response", "next_response"];
+
+const parseBreach = (value: unknown): SlaBreach | null => {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    typeof value.clientId !== "string" ||
+    !SLA_KINDS.includes(value.kind as SlaKind)
+  ) {
+    return null;
+  }
+  const breachedAt = String(value.breachedAt ?? new Date().toISOString());
+  return {
+    id: value.id,
+    clientId: value.clientId,
+    chatTitle: String(value.chatTitle ?? value.clientId),
+    kind: value.kind as SlaKind,
+    targetMinutes: Number(value.targetMinutes) || 0,
+    waitingSince: String(value.waitingSince ?? breachedAt),
+    dueAt: String(value.dueAt ?? breachedAt),
+    breachedAt,
+    assignee: parseAgentRef(value.assignee),
+  };
+};
+
+const eventParsers: EventParsers = {
+  chatUpdated: (payload) => {
+    if (!isRecord(payload) || typeof payload.clientId !== "string") return null;
+    const message = parseMessage(payload.message);
+    return message ? { clientId: payload.clientId, message } : null;
+  },
+  chatStatusChanged: (payload) => {
+    if (!isRecord(payload) || typeof payload.clientId !== "string") return null;
+    const status = payload.status as ChatStatus;
+    if (!CHAT_STATUSES.includes(status)) return null;
+    return {
+      clientId: payload.clientId,
+      status,
+      changedBy: parseAgentRef(payload.changedBy),
+    };
+  },
+  chatAssigned: (payload) => {
+    if (!isRecord(payload) || typeof payload.clientId !== "string") return null;
+    return {
+      clientId: payload.clientId,
+      assignee: parseAgentRef(payload.assignee),
+      assignedBy: parseAgentRef(payload.assignedBy),
+    };
+  },
+  chatNoteAdded: (payload) => {
+    if (!isRecord(payload) || typeof payload.clientId !== "string") return null;
+    const note = parseNote(payload.note);
+    return note ? { clientId: payload.clientId, note } : null;
+  },
+  customerUpdated: (payload) => {
+    if (!isRecord(payload) || typeof payload.clientId !== "string") return null;
+    const attributes = parseAttributes(payload.attributes);
+    return attributes
+      ? {
+          clientId: payload.clientId,
+          attributes,
+          updatedBy: parseAgentRef(payload.updatedBy),
+        }
+      : null;
+  },
+  slaBreached: (payload) => {
+    const breach = isRecord(payload) ? parseBreach(payload.breach) : null;
+    return breach ? { breach } : null;
+  },
+  chatHandoffChanged: (payload) => {
+    if (!isRecord(payload) || typeof payload.clientId !== "string") return null;
+    return {
+      clientId: payload.clientId,
+      aiPaused: payload.aiPaused === true,
+      handoffRequest: parseHandoffRequest(payload.handoffRequest),
+      changedBy: parseAgentRef(payload.changedBy),
+    };
+  },
+  chatTagsChanged: (payload) => {
+    if (!isRecord(payload) || typeof payload.clientId !== "string") return null;
+    const tags = parseTagNames(payload.tags);
+    return tags
+      ? {
+          clientId: payload.clientId,
+          tags,
+          changedBy: parseAgentRef(payload.changedBy),
+        }
+      : null;
+  },
+  chatReadChanged: (payload) => {
+    if (
+      !isRecord(payload) ||
+      typeof payload.clientId !== "string" ||
+      typeof payload.agentId !== "string"
+    ) {
+      return null;
+    }
+    const unreadCount = Number(payload.unreadCount);
+    return Number.isInteger(unreadCount) && unreadCount >= 0
+      ? { clientId: payload.clientId, agentId: payload.agentId, unreadCount }
+      : null;
+  },
+  tagsChanged: (payload) => {
+    if (!isRecord(payload) || !Array.isArray(payload.tags)) return null;
+    return {
+      tags: payload.tags
+        .map(parseTagDefinition)
+        .filter((tag): tag is TagDefinition => tag !== null),
+    };
+  },
+};
+
+// Engine.IO packet types
+const EIO_OPEN = "0";
+const EIO_CLOSE = "1";
+const EIO_PING = "2";
+const EIO_PONG = "3";
+const EIO_MESSAGE = "4";
+
+// Socket.IO packet types (carried inside EIO_MESSAGE)
+const SIO_CONNECT = "0";
+const SIO_DISCONNECT = "1";
+const SIO_EVENT = "2";
+const SIO_CONNECT_ERROR = "4";
+
+// The part of WebSocket the client uses; demo mode's DemoSocket is the
+// other implementation
+export interface RealtimeSocket {
+  onmessage: ((event: MessageEvent) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface RealtimeClientOptions {
+  // Read on every connect, since the runtime config loads after startup
+  getUrl: () => string;
+  query?: Record<string, string>;
+  // Sent with the Socket.IO CONNECT packet
+  getAuth?: () => Record<string, unknown> | undefined;
+  createSocket?: (url: string) => RealtimeSocket;
+}
+
+export class RealtimeClient {
+  private readonly options: RealtimeClientOptions;
+  private socket: RealtimeSocket | null = null;
+  private status: RealtimeStatus = "offline";
+  private users = 0;
+  private attempt = 0;
+  private hasConnected = false;
+  private heartbeatDeadlineMs =
+    DEFAULT_PING_INTERVAL_MS + DEFAULT_PING_TIMEOUT_MS;
+  private connectTimer?: ReturnType<typeof setTimeout>;
+  private heartbeatTimer?: ReturnType<typeof setTimeout>;
+  private reconnectTimer?: ReturnType<typeof setTimeout>;
+  private readonly handlers = new Map<
+    RealtimeEventName,
+    Set<EventHandler<RealtimeEventName>>
+  >();
+  private readonly statusListeners = new Set<
+    (status: RealtimeStatus) => void
+  >();
+  private readonly reconnectListeners = new Set<() => void>();
+
+  constructor(options: RealtimeClientOptions) {
+    this.options = options;
+  }
+
+  getStatus() {
+    return this.status;
+  }
+
+  // Reference-counted: the connection stays open while anyone holds it
+  retain() {
+    this.users++;
+    if (this.users === 1) {
+      window.addEventListener("online", this.handleBrowserOnline);
+      this.connect();
+    }
+    return () => this.release();
+  }
+
+  private release() {
+    this.users = Math.max(0, this.users - 1);
+    if (this.users > 0) return;
+    window.removeEventListener("online", this.handleBrowserOnline);
+    this.clearTimers();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket) {
+      this.detach(socket);
+      socket.close(1000, "No subscribers");
+    }
+    this.attempt = 0;
+    this.hasConnected = false;
+    this.setStatus("offline");
+  }
+
+  on<K extends RealtimeEventName>(event: K, handler: EventHandler<K>) {
+    let set = this.handlers.get(event);
+    if (!set) {
+      set = new Set();
+      this.handlers.set(event, set);
+    }
+    const entry = handler as EventHandler<RealtimeEventName>;
+    set.add(entry);
+    return () => {
+      set.delete(entry);
+    };
+  }
+
+  onStatusChange(listener: (status: RealtimeStatus) => void) {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  // Fires after a dropped connection is re-established, so subscribers can
+  // fetch whatever they missed while offline
+  onReconnect(listener: () => void) {
+    this.reconnectListeners.add(listener);
+    return () => {
+      this.reconnectListeners.delete(listener);
+    };
+  }
+
+  private setStatus(status: RealtimeStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.statusListeners.forEach((listener) => listener(status));
+  }
+
+  private buildUrl() {
+    const params = new URLSearchParams({
+      ...this.options.query,
+      EIO: "4",
+      transport: "websocket",
+    });
+    return `${this.options.getUrl()}/socket.io/?${params}`;
+  }
+
+  private connect() {
+    this.setStatus(
+      this.hasConnected || this.attempt > 0 ? "reconnecting" : "connecting"
+    );
+
+    let socket: RealtimeSocket;
+    try {
+      const url = this.buildUrl();
+      socket = this.options.createSocket?.(url) ?? new WebSocket(url);
+    } catch (error) {
+      console.error("Error creating WebSocket connection:", error);
+      this.scheduleReconnect();
+      return;
+    }
+
+    this.socket = socket;
+    this.connectTimer = setTimeout(
+      () => this.drop(socket),
+      CONNECT_TIMEOUT_MS
+    );
+    socket.onmessage = (event) =>
+      this.handlePacket(socket, String(event.data));
+    socket.onclose = () => this.handleClose(socket);
+    socket.onerror = () => {
+      // A close event always follows; reconnection is handled there
+    };
+  }
+
+  private handlePacket(socket: RealtimeSocket, packet: string) {
+    const type = packet.charAt(0);
+    const data = packet.slice(1);
+
+    switch (type) {
+      case EIO_OPEN: {
+        let handshake: unknown;
+        try {
+          handshake = JSON.parse(data);
+        } catch (error) {
+          handshake = null;
+          console.error("Error parsing realtime handshake:", error);
+        }
+        if (!isRecord(handshake)) {
+          // Nothing to go on; start over with a fresh connection
+          this.drop(socket);
+          break;
+        }
+        const { pingInterval, pingTimeout } = handshake;
+        this.heartbeatDeadlineMs =
+          (typeof pingInterval === "number"
+            ? pingInterval
+            : DEFAULT_PING_INTERVAL_MS) +
+          (typeof pingTimeout === "number"
+            ? pingTimeout
+            : DEFAULT_PING_TIMEOUT_MS);
+        this.armHeartbeat(socket);
+        const auth = this.options.getAuth?.();
+        socket.send(
+          EIO_MESSAGE + SIO_CONNECT + (auth ? JSON.stringify(auth) : "")
+        );
+        break;
+      }
+      case EIO_PING:
+        socket.send(EIO_PONG);
+        this.armHeartbeat(socket);
+        break;
+      case EIO_CLOSE:
+        this.drop(socket);
+        break;
+      case EIO_MESSAGE:
+        this.handleSocketIoPacket(socket, data);
+        break;
+    }
+  }
+
+  private handleSocketIoPacket(socket: RealtimeSocket, packet: string) {
+    const type = packet.charAt(0);
+    let body = packet.slice(1);
+    // Strip a namespace prefix such as "/admin,"
+    if (body.startsWith("/")) {
+      const comma = body.indexOf(",");
+      body = comma === -1 ? "" : body.slice(comma + 1);
+    }
+
+    switch (type) {
+      case SIO_CONNECT: {
+        clearTimeout(this.connectTimer);
+        const isReconnect = this.hasConnected;
+        this.hasConnected = true;
+        this.attempt = 0;
+        this.setStatus("online");
+        if (isReconnect) {
+          this.reconnectListeners.forEach((listener) => listener());
+        }
+        break;
+      }
+      case SIO_EVENT: {
+        try {
+          // Drop an optional ack id before the JSON array
+          const [event, payload] = JSON.parse(body.replace(/^\d+/, ""));
+          this.dispatch(event, payload);
+        } catch (error) {
+          console.error("Error parsing realtime event:", error);
+        }
+        break;
+      }
+      case SIO_CONNECT_ERROR:
+        console.error("Realtime connection refused:", body);
+        this.drop(socket);
+        break;
+      case SIO_DISCONNECT:
+        this.drop(socket);
+        break;
+    }
+  }
+
+  private dispatch(event: string, payload: unknown) {
+    if (!(event in eventParsers)) return;
+    const name = event as RealtimeEventName;
+    const parsed = eventParsers[name](payload);
+    if (!parsed) {
+      console.error(`Ignoring malformed "${event}" event:`, payload);
+      return;
+    }
+    this.handlers.get(name)?.forEach((handler) => handler(parsed));
+  }
+
+  // A missed ping means the connection is dead even if the socket looks open
+  private armHeartbeat(socket: RealtimeSocket) {
+    clearTimeout(this.heartbeatTimer);
+    this.heartbeatTimer = setTimeout(
+      () => this.drop(socket),
+      this.heartbeatDeadlineMs
+    );
+  }
+
+  private detach(socket: RealtimeSocket) {
+    socket.onmessage = null;
+    socket.onclose = null;
+    socket.onerror = null;
+  }
+
+  // Close without waiting for the browser's close event, which can take
+  // minutes on a half-open connection
+  private drop(socket: RealtimeSocket) {
+    if (socket !== this.socket) return;
+    this.detach(socket);
+    socket.close();
+    this.handleClose(socket);
+  }
+
+  private handleClose(socket: RealtimeSocket) {
+    if (socket !== this.socket) return;
+    this.socket = null;
+    this.clearTimers();
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.users === 0) return;
+    this.setStatus(navigator.onLine ? "reconnecting" : "offline");
+    // Exponential backoff with "equal jitter" so clients don't stampede
+    const cap = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** this.attempt);
+    const delay = cap / 2 + Math.random() * (cap / 2);
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private readonly handleBrowserOnline = () => {
+    if (this.socket || this.users === 0) return;
+    // Skip the remaining backoff once the network is back
+    clearTimeout(this.reconnectTimer);
+    this.connect();
+  };
+
+  private clearTimers() {
+    clearTimeout(this.connectTimer);
+    clearTimeout(this.heartbeatTimer);
+    clearTimeout(this.reconnectTimer);
+  }
+}
+
+export const realtimeClient = new RealtimeClient({
+  getUrl: getSocketUrl,
+  query: { "client-id": "support" },
+  getAuth: () => {
+    const session = getSession();
+    return session ? { token: session.token } : undefined;
+  },
+  // Demo mode never touches the network; see src/demo
+  createSocket: (url) =>
+    isDemoMode() ? new DemoSocket() : new WebSocket(url),
+});
@@ -0,0 +1,168 @@
+// Which backend this build talks to. Read once at startup from the
+// config.json served next to index.html, so the same build can point at
+// production, staging or a regional cluster. Admins can switch between
+// the environments it lists; the choice is kept per browser.
+
+export interface RuntimeEnvironment {
+  id: string;
+  label: string;
+  // Absolute http(s) URL, or a path on this origin such as "/api"
+  apiUrl: string;
+  // Absolute ws(s) URL; a path is resolved against this origin
+  socketUrl: string;
+  // Real customers are on the other end
+  production: boolean;
+}
+
+export interface RuntimeConfig {
+  defaultEnvironment: string;
+  environments: RuntimeEnvironment[];
+}
+
+export class RuntimeConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuntimeConfigError";
+  }
+}
+
+const CONFIG_URL = "/config.json";
+const STORAGE_KEY = "sayy-admin-environment";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readUrl = (
+  value: unknown,
+  schemes: string[],
+  field: string
+): string => {
+  if (typeof value === "string" && value.startsWith("/")) {
+    return value.replace(/\/+$/, "");
+  }
+  try {
+    const url = new URL(String(value));
+    if (schemes.includes(url.protocol.slice(0, -1))) {
+      return url.href.replace(/\/+$/, "");
+    }
+  } catch {
+    // Reported below
+  }
+  throw new RuntimeConfigError(
+    `${field} must be a ${schemes.join("/")} URL or a path starting with /`
+  );
+};
+
+const parseEnvironment = (
+  value: unknown,
+  index: number
+): RuntimeEnvironment => {
+  const where = `environments[${index}]`;
+  if (!isRecord(value)) {
+    throw new RuntimeConfigError(`${where} must be an object`);
+  }
+  const { id, label, apiUrl, socketUrl, production } = value;
+  if (typeof id !== "string" || !/^[a-z0-9-]+$/.test(id)) {
+    throw new RuntimeConfigError(
+      `${where}.id must be lowercase letters, digits and dashes`
+    );
+  }
+  if (typeof label !== "string" || !label.trim()) {
+    throw new RuntimeConfigError(`${where}.label must be a non-empty string`);
+  }
+  if (typeof production !== "boolean") {
+    throw new RuntimeConfigError(`${where}.production must be true or false`);
+  }
+  return {
+    id,
+    label: label.trim(),
+    apiUrl: readUrl(apiUrl, ["https", "http"], `${where}.apiUrl`),
+    socketUrl: readUrl(socketUrl, ["wss", "ws"], `${where}.socketUrl`),
+    production,
+  };
+};
+
+// Throws a RuntimeConfigError naming the first field that is wrong
+export const parseRuntimeConfig = (value: unknown): RuntimeConfig => {
+  if (!isRecord(value)) {
+    throw new RuntimeConfigError("The config must be a JSON object");
+  }
+  const { defaultEnvironment, environments } = value;
+  if (!Array.isArray(environments) || environments.length === 0) {
+    throw new RuntimeConfigError("environments must be a non-empty array");
+  }
+  const parsed = environments.map(parseEnvironment);
+  parsed.forEach((environment, index) => {
+    if (parsed.findIndex((other) => other.id === environment.id) !== index) {
+      throw new RuntimeConfigError(
+        `The environment id "${environment.id}" is used twice`
+      );
+    }
+  });
+  if (!parsed.some((environment) => environment.id === defaultEnvironment)) {
+    throw new RuntimeConfigError(
+      "defaultEnvironment must be the id of one of the environments"
+    );
+  }
+  return {
+    defaultEnvironment: String(defaultEnvironment),
+    environments: parsed,
+  };
+};
+
+let config: RuntimeConfig | null = null;
+let environment: RuntimeEnvironment | null = null;
+
+// Must finish before the app renders; nothing has a backend URL until then
+export const loadRuntimeConfig = async () => {
+  let raw: unknown;
+  try {
+    const response = await fetch(CONFIG_URL, { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    raw = await response.json();
+  } catch (error) {
+    throw new RuntimeConfigError(
+      `${CONFIG_URL} could not be loaded: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+  config = parseRuntimeConfig(raw);
+  const stored = localStorage.getItem(STORAGE_KEY);
+  environment =
+    config.environments.find((candidate) => candidate.id === stored) ??
+    config.environments.find(
+      (candidate) => candidate.id === config?.defaultEnvironment
+    )!;
+};
+
+const requireConfig = () => {
+  if (!config || !environment) {
+    throw new RuntimeConfigError("The runtime config has not been loaded");
+  }
+  return { config, environment };
+};
+
+export const getEnvironments = () => requireConfig().config.environments;
+
+export const getEnvironment = () => requireConfig().environment;
+
+// Socket paths are relative to this page, with the matching ws scheme
+export const getSocketUrl = () => {
+  const { socketUrl } = getEnvironment();
+  if (/^wss?:/.test(socketUrl)) return socketUrl;
+  const scheme = window.location.protocol === "https:" ? "wss" : "ws";
+  return `${scheme}://${window.location.host}${socketUrl}`;
+};
+
+// Takes effect on the next page load; the caller signs out first, since a
+// session only works against the backend that issued it
+export const selectEnvironment = (id: string) => {
+  const { config } = requireConfig();
+  if (!config.environments.some((candidate) => candidate.id === id)) {
+    throw new RuntimeConfigError(`Unknown environment "${id}"`);
+  }
+  localStorage.setItem(STORAGE_KEY, id);
+};
@@ -1,131 +1,586 @@
-import axios from "axios";
+import { apiRequest } from "./apiClient";
+import type { Session } from "./session";
+import type {
+  AgentRef,
+  Attachment,
+  AuditLogPage,
+  ChatLog,
+  ChatLogPage,
+  ChatMessagePage,
+  ChatReadState,
+  ChatStatus,
+  ChatSummary,
+  ChatSummaryPage,
+  CustomerAttributes,
+  CustomerProfile,
+  InternalNote,
+  Message,
+  SlaBreach,
+  SlaPolicy,
+  TagDefinition,
+} from "./types";
+import { toSearchParams, type ChatFilters } from "../utils/chatFilters";
+import type { AuditFilters } from "../utils/audit";
+import {
+  parseDayKey,
+  toDayKey,
+  toTimeBounds,
+  type DateRange,
+  type SupportMetrics,
+} from "../utils/supportMetrics";
+import type { ExportFormat } from "../utils/transcriptExport";
+import { getMimeType, readFileAsBase64 } from "../utils/attachments";
 
-const apiUrl = import.meta.env.DEV
-  ? "/api" // Use proxy in development
-  : "https://api.sayy.ai"; // Use direct URL in production
+interface RequestContext {
+  signal?: AbortSignal;
+}
+
+export interface LoginParams {
+  email: string;
+  password: string;
+}
+
+export async function adminLogin(params: LoginParams) {
+  return apiRequest<Session, LoginParams>({
+    method: "POST",
+    path: "/admin/auth/login",
+    body: params,
+    authenticated: false,
+  });
+}
 
-import CryptoJS from "crypto-js";
+export async function adminLogout() {
+  await apiRequest<unknown>({
+    method: "POST",
+    path: "/admin/auth/logout",
+  });
+}
 
-// Encryption function
-export const getCipherText = (inputBodyData: any) => {
-  let secretKey = import.meta.env.VITE_ENCRYPTION_KEY;
+export interface ChatSummaryQuery {
+  filters: ChatFilters;
+  cursor?: string | null;
+  limit?: number;
+}
 
-  const key = CryptoJS.enc.Utf8.parse(secretKey);
+// One page of conversation summaries, filtered and ordered by the server
+export async function getChatSummaries(
+  { filters, cursor, limit = 50 }: ChatSummaryQuery,
+  { signal }: RequestContext = {}
+) {
+  const query = toSearchParams(filters);
+  query.set("limit", String(limit));
+  if (cursor) query.set("cursor", cursor);
+  return apiRequest<ChatSummaryPage>({
+    method: "GET",
+    path: "/admin/getSupportChatSummaries",
+    query,
+    signal,
+  });
+}
 
-  const encrypted = CryptoJS.AES.encrypt(JSON.stringify(inputBodyData), key, {
-    mode: CryptoJS.mode.ECB,
+// The list entry for one conversation, e.g. for a deep link
+export async function getChatSummary(
+  clientId: string,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatSummary>({
+    method: "GET",
+    path: "/admin/getChatSummary",
+    query: new URLSearchParams({ clientId }),
+    signal,
   });
+}
 
-  const encryptedText = encrypted.toString();
+export interface ChatMessagesQuery {
+  clientId: string;
+  // prevCursor of the page already loaded; omit for the newest messages
+  before?: string | null;
+  limit?: number;
+}
 
-  return { data: encryptedText };
-};
+export async function getChatMessages(
+  { clientId, before, limit = 100 }: ChatMessagesQuery,
+  { signal }: RequestContext = {}
+) {
+  const query = new URLSearchParams({ clientId, limit: String(limit) });
+  if (before) query.set("before", before);
+  return apiRequest<ChatMessagePage>({
+    method: "GET",
+    path: "/admin/getChatMessages",
+    query,
+    signal,
+  });
+}
 
-// Get HMAC message
-const getHmacMessageFromBody = (inputBodyData: string) => {
-  const apiSecret = import.meta.env.VITE_HMAC_KEY;
+// The complete conversation, for exports
+export async function getChatLog(
+  clientId: string,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatLog>({
+    method: "GET",
+    path: "/admin/getChatLog",
+    query: new URLSearchParams({ clientId }),
+    signal,
+  });
+}
 
-  if (apiSecret) {
-    const currentTimestamp = (Date.now() / 1000).toString();
+export interface UpdateChatLogParams {
+  newUserLog: Message[];
+  clientId: string;
+}
 
-    const hmacHash = CryptoJS.HmacSHA256(
-      inputBodyData + currentTimestamp,
-      apiSecret
-    ).toString();
+export async function updateAdminChatLog(
+  params: UpdateChatLogParams,
+  { signal }: RequestContext = {}
+) {
+  await apiRequest<unknown, UpdateChatLogParams>({
+    method: "POST",
+    path: "/admin/updateChatLog",
+    body: params,
+    signal,
+    withCredentials: true,
+  });
+}
 
-    return {
-      hmacHash: hmacHash,
-      currentTimestamp: currentTimestamp,
-    };
-  } else {
-    return null;
-  }
-};
-
-export async function getAdminSupportLogs() {
-  try {
-    let url = `${apiUrl}/admin/getSupportChatLogs`;
-    console.log("Making API request to:", url);
-
-    // HMAC Response
-    let hmacResponse = getHmacMessageFromBody("");
-    if (!hmacResponse) {
-      console.error("HMAC authentication failed: VITE_HMAC_KEY is not set");
-      return null;
-    }
-    console.log("HMAC authentication successful");
-
-    let axiosHeaders = {
-      HMAC: hmacResponse.hmacHash,
-      Timestamp: hmacResponse.currentTimestamp,
-    };
-    console.log("Request headers:", axiosHeaders);
-
-    let response = await axios
-      .get(url, { headers: axiosHeaders })
-      .then((res) => res.data);
-
-    console.log("API Response:", response);
-
-    if (response.error) {
-      throw new Error(response.error);
-    }
-    return response.result;
-  } catch (error) {
-    console.error("Error fetching admin chat logs:", error);
-    if (axios.isAxiosError(error)) {
-      console.error("Axios error details:", {
-        status: error.response?.status,
-        statusText: error.response?.statusText,
-        data: error.response?.data,
-        headers: error.response?.headers,
-      });
-    }
-    throw error;
-  }
+export interface UpdateChatStatusParams {
+  clientId: string;
+  status: ChatStatus;
 }
 
-interface Message {
-  sender: string;
-  content: string;
-  timestamp: string;
+export async function updateChatStatus(
+  params: UpdateChatStatusParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatLog, UpdateChatStatusParams>({
+    method: "POST",
+    path: "/admin/updateChatStatus",
+    body: params,
+    signal,
+    // Setting the same status twice is harmless
+    idempotent: true,
+  });
 }
 
-interface UpdateChatLogParams {
-  newUserLog: Message[];
+export interface AssignChatParams {
   clientId: string;
+  // null unassigns the conversation
+  assigneeId: string | null;
 }
 
-export async function updateAdminChatLog(params: UpdateChatLogParams) {
-  try {
-    const url = `${apiUrl}/admin/updateChatLog`;
+export async function assignChat(
+  params: AssignChatParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatLog, AssignChatParams>({
+    method: "POST",
+    path: "/admin/assignChat",
+    body: params,
+    signal,
+    idempotent: true,
+  });
+}
 
-    // Get encrypted data
-    const encryptedData = getCipherText(params);
+export interface HandoffParams {
+  clientId: string;
+}
 
-    // Get HMAC authentication
-    let hmacResponse = getHmacMessageFromBody(JSON.stringify(encryptedData));
-    if (!hmacResponse) {
-      throw new Error("HMAC authentication failed: VITE_HMAC_KEY is not set");
-    }
+// Pauses the AI bot so only agents answer; clears any handoff request
+export async function takeOverChat(
+  params: HandoffParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatLog, HandoffParams>({
+    method: "POST",
+    path: "/admin/takeOverChat",
+    body: params,
+    signal,
+    idempotent: true,
+  });
+}
+
+// Lets the AI bot answer the customer again
+export async function handBackChat(
+  params: HandoffParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatLog, HandoffParams>({
+    method: "POST",
+    path: "/admin/handBackChat",
+    body: params,
+    signal,
+    idempotent: true,
+  });
+}
 
-    const axiosHeaders = {
-      HMAC: hmacResponse.hmacHash,
-      Timestamp: hmacResponse.currentTimestamp,
-    };
+// Conversations the bot wants a human for, oldest request first
+export async function getHandoffQueue(
+  filters: ChatFilters,
+  { signal }: RequestContext = {}
+) {
+  const queue = await apiRequest<ChatSummary[] | null>({
+    method: "GET",
+    path: "/admin/getHandoffQueue",
+    query: toSearchParams(filters),
+    signal,
+  });
+  return queue ?? [];
+}
 
-    const response = await axios.post(url, encryptedData, {
-      headers: axiosHeaders,
-      withCredentials: true,
-    });
+export async function getAgents({ signal }: RequestContext = {}) {
+  const agents = await apiRequest<AgentRef[] | null>({
+    method: "GET",
+    path: "/admin/getAgents",
+    signal,
+  });
+  return agents ?? [];
+}
+
+export interface AddChatNoteParams {
+  clientId: string;
+  note: Pick<InternalNote, "id" | "content" | "mentions">;
+}
 
-    if (response.data.error) {
-      throw new Error(response.data.error);
-    }
+// Notes go to their own endpoint so they can never reach the customer log
+export async function addChatNote(
+  params: AddChatNoteParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<InternalNote, AddChatNoteParams>({
+    method: "POST",
+    path: "/admin/addChatNote",
+    body: params,
+    signal,
+    // The server ignores a note id it has already stored
+    idempotent: true,
+  });
+}
 
-    return response.data;
-  } catch (error) {
-    console.error("Error updating admin chat log:", error);
-    throw error;
+export async function clearChatMention(
+  clientId: string,
+  { signal }: RequestContext = {}
+) {
+  await apiRequest<unknown, { clientId: string }>({
+    method: "POST",
+    path: "/admin/clearChatMention",
+    body: { clientId },
+    signal,
+    idempotent: true,
+  });
+}
+
+export interface MarkChatReadParams {
+  clientId: string;
+  // Messages the agent has seen, counted from the start of the transcript.
+  // The server never moves the cursor back.
+  readCount: number;
+}
+
+export async function markChatRead(
+  params: MarkChatReadParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatReadState, MarkChatReadParams>({
+    method: "POST",
+    path: "/admin/markChatRead",
+    body: params,
+    signal,
+    idempotent: true,
+  });
+}
+
+// Keeps the conversation unread for this agent until they read it again
+export async function markChatUnread(
+  clientId: string,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatReadState, { clientId: string }>({
+    method: "POST",
+    path: "/admin/markChatUnread",
+    body: { clientId },
+    signal,
+    idempotent: true,
+  });
+}
+
+export async function getCustomerProfile(
+  clientId: string,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<CustomerProfile>({
+    method: "GET",
+    path: "/admin/getCustomerProfile",
+    query: new URLSearchParams({ clientId }),
+    signal,
+  });
+}
+
+export interface UpdateCustomerParams {
+  clientId: string;
+  // Blank values clear the attribute
+  attributes: CustomerAttributes;
+}
+
+export async function updateCustomerAttributes(
+  params: UpdateCustomerParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<CustomerAttributes, UpdateCustomerParams>({
+    method: "POST",
+    path: "/admin/updateCustomerAttributes",
+    body: params,
+    signal,
+    idempotent: true,
+  });
+}
+
+export interface UploadAttachmentParams {
+  clientId: string;
+  // Client-generated, so a retried upload is stored once
+  id: string;
+  file: File;
+}
+
+interface UploadAttachmentBody {
+  clientId: string;
+  id: string;
+  name: string;
+  mimeType: string;
+  data: string;
+}
+
+const UPLOAD_TIMEOUT_MS = 120000;
+
+// Files travel base64-encoded inside the usual encrypted, signed body
+export async function uploadAttachment(
+  { clientId, id, file }: UploadAttachmentParams,
+  {
+    signal,
+    onProgress,
+  }: RequestContext & { onProgress?: (progress: number) => void } = {}
+) {
+  const data = await readFileAsBase64(file);
+  return apiRequest<Attachment, UploadAttachmentBody>({
+    method: "POST",
+    path: "/admin/uploadAttachment",
+    body: { clientId, id, name: file.name, mimeType: getMimeType(file), data },
+    signal,
+    timeoutMs: UPLOAD_TIMEOUT_MS,
+    idempotent: true,
+    onUploadProgress: onProgress,
+  });
+}
+
+export async function getSlaPolicy({ signal }: RequestContext = {}) {
+  return apiRequest<SlaPolicy>({
+    method: "GET",
+    path: "/admin/getSlaPolicy",
+    signal,
+  });
+}
+
+// Replaces the whole policy, so repeating it is harmless
+export async function updateSlaPolicy(
+  policy: SlaPolicy,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<SlaPolicy, SlaPolicy>({
+    method: "POST",
+    path: "/admin/updateSlaPolicy",
+    body: policy,
+    signal,
+    idempotent: true,
+  });
+}
+
+export interface SlaBreachQuery {
+  // ISO timestamps bounding breachedAt
+  from: string;
+  to: string;
+}
+
+export async function getSlaBreaches(
+  { from, to }: SlaBreachQuery,
+  { signal }: RequestContext = {}
+) {
+  const breaches = await apiRequest<SlaBreach[] | null>({
+    method: "GET",
+    path: "/admin/getSlaBreaches",
+    query: new URLSearchParams({ from, to }),
+    signal,
+  });
+  return breaches ?? [];
+}
+
+// Worked out by the backend, so the dashboard never downloads transcripts.
+// Days and hours are the agent's local ones.
+export async function getSupportMetrics(
+  range: DateRange,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<SupportMetrics>({
+    method: "GET",
+    path: "/admin/getSupportMetrics",
+    query: new URLSearchParams({
+      from: toDayKey(range.from),
+      to: toDayKey(range.to),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }),
+    signal,
+  });
+}
+
+export async function getTags({ signal }: RequestContext = {}) {
+  const tags = await apiRequest<TagDefinition[] | null>({
+    method: "GET",
+    path: "/admin/getTags",
+    signal,
+  });
+  return tags ?? [];
+}
+
+// Creates the tag or updates the one with the same name; returns the list
+export async function saveTag(
+  tag: TagDefinition,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<TagDefinition[], TagDefinition>({
+    method: "POST",
+    path: "/admin/saveTag",
+    body: tag,
+    signal,
+    idempotent: true,
+  });
+}
+
+export async function deleteTag(name: string, { signal }: RequestContext = {}) {
+  return apiRequest<TagDefinition[], { name: string }>({
+    method: "POST",
+    path: "/admin/deleteTag",
+    body: { name },
+    signal,
+    idempotent: true,
+  });
+}
+
+export interface UpdateChatTagsParams {
+  clientId: string;
+  // The full set; the backend drops names that are not defined
+  tags: string[];
+}
+
+export async function updateChatTags(
+  params: UpdateChatTagsParams,
+  { signal }: RequestContext = {}
+) {
+  return apiRequest<ChatLog, UpdateChatTagsParams>({
+    method: "POST",
+    path: "/admin/updateChatTags",
+    body: params,
+    signal,
+    idempotent: true,
+  });
+}
+
+export interface BulkTagChatsParams {
+  // Applied to every conversation these filters match, like bulk export
+  filters: ChatFilters;
+  add: string[];
+  remove: string[];
+}
+
+export async function bulkTagChats(
+  { filters, add, remove }: BulkTagChatsParams,
+  { signal }: RequestContext = {}
+) {
+  const result = await apiRequest<
+    { updated: number },
+    { filters: string; add: string[]; remove: string[] }
+  >({
+    method: "POST",
+    path: "/admin/bulkTagChats",
+    body: { filters: toSearchParams(filters).toString(), add, remove },
+    signal,
+    idempotent: true,
+  });
+  return result?.updated ?? 0;
+}
+
+export interface AuditLogQuery {
+  filters: AuditFilters;
+  cursor?: string | null;
+  limit?: number;
+}
+
+export async function getAuditLog(
+  { filters, cursor, limit = 100 }: AuditLogQuery,
+  { signal }: RequestContext = {}
+) {
+  const { agentId, action, from, to } = filters;
+  const query = new URLSearchParams({ limit: String(limit) });
+  if (agentId) query.set("agent", agentId);
+  if (action) query.set("action", action);
+  // Day filters are local, so send the backend the instants they cover
+  if (from || to) {
+    const bounds = toTimeBounds({
+      from: parseDayKey(from ?? to!),
+      to: parseDayKey(to ?? from!),
+    });
+    if (from) query.set("from", bounds.from);
+    if (to) query.set("to", bounds.to);
   }
+  if (cursor) query.set("cursor", cursor);
+  return apiRequest<AuditLogPage>({
+    method: "GET",
+    path: "/admin/getAuditLog",
+    query,
+    signal,
+  });
+}
+
+const EXPORT_PAGE_SIZE = 100;
+
+// Every conversation the filters match, with full transcripts, for a bulk
+// export. The server filters, so it matches the list exactly; pages are
+// fetched one after another to keep each response small.
+export async function getChatLogsForExport(
+  filters: ChatFilters,
+  { signal }: RequestContext = {}
+) {
+  const logs: ChatLog[] = [];
+  let cursor: string | null = null;
+  do {
+    const query = toSearchParams(filters);
+    query.set("limit", String(EXPORT_PAGE_SIZE));
+    if (cursor) query.set("cursor", cursor);
+    const page = await apiRequest<ChatLogPage>({
+      method: "GET",
+      path: "/admin/getChatLogsForExport",
+      query,
+      signal,
+    });
+    logs.push(...page.items);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return logs;
+}
+
+export interface RecordTranscriptExportParams {
+  clientIds: string[];
+  format: ExportFormat;
+  includeNotes: boolean;
+}
+
+// Exports are built in the browser, so the backend only hears about them
+// from here; everything else is audited server-side
+export async function recordTranscriptExport(
+  params: RecordTranscriptExportParams,
+  { signal }: RequestContext = {}
+) {
+  await apiRequest<unknown, RecordTranscriptExportParams>({
+    method: "POST",
+    path: "/admin/recordTranscriptExport",
+    body: params,
+    signal,
+  });
 }
@@ -0,0 +1,79 @@
+// Admin session issued by the backend at login. The signing and encryption
+// keys are per-session, so nothing secret ships in the bundle.
+
+export interface Agent {
+  id: string;
+  name: string;
+  email: string;
+  role: "agent" | "admin";
+}
+
+export interface Session {
+  token: string;
+  signingKey: string;
+  encryptionKey: string;
+  // Epoch milliseconds
+  expiresAt: number;
+  agent: Agent;
+}
+
+export type SessionEndReason = "logout" | "expired";
+
+type SessionListener = (
+  session: Session | null,
+  reason?: SessionEndReason
+) => void;
+
+const STORAGE_KEY = "sayy-admin-session";
+
+const listeners = new Set<SessionListener>();
+
+const readStoredSession = (): Session | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as Session) : null;
+  } catch {
+    return null;
+  }
+};
+
+let currentSession: Session | null = readStoredSession();
+
+export const isSessionExpired = (session: Session) =>
+  Date.now() >= session.expiresAt;
+
+export const getSession = (): Session | null => {
+  if (currentSession && isSessionExpired(currentSession)) {
+    clearSession("expired");
+  }
+  return currentSession;
+};
+
+export const saveSession = (session: Session) => {
+  currentSession = session;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  listeners.forEach((listener) => listener(session));
+};
+
+export const clearSession = (reason: SessionEndReason) => {
+  if (!currentSession) return;
+  currentSession = null;
+  localStorage.removeItem(STORAGE_KEY);
+  listeners.forEach((listener) => listener(null, reason));
+};
+
+// Keep tabs in sync when another tab logs in or out
+window.addEventListener("storage", (event) => {
+  if (event.key !== STORAGE_KEY) return;
+  currentSession = readStoredSession();
+  listeners.forEach((listener) =>
+    listener(currentSession, currentSession ? undefined : "logout")
+  );
+});
+
+export const subscribeToSession = (listener: SessionListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,148 @@
+import { getSession } from "./session";
+
+// Keyboard bindings for triage. Agents can remap them in Settings; only the
+// changed ones are stored, per agent, so new defaults still reach everyone.
+
+export type ShortcutAction =
+  | "nextChat"
+  | "previousChat"
+  | "openChat"
+  | "nextUnread"
+  | "focusSearch"
+  | "reply"
+  | "commandPalette"
+  | "showShortcuts";
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  group: "Conversations" | "General";
+  defaultKey: string;
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  {
+    action: "nextChat",
+    label: "Next conversation in the list",
+    group: "Conversations",
+    defaultKey: "j",
+  },
+  {
+    action: "previousChat",
+    label: "Previous conversation in the list",
+    group: "Conversations",
+    defaultKey: "k",
+  },
+  {
+    action: "openChat",
+    label: "Open the highlighted conversation",
+    group: "Conversations",
+    defaultKey: "Enter",
+  },
+  {
+    action: "nextUnread",
+    label: "Jump to the next unread conversation",
+    group: "Conversations",
+    defaultKey: "u",
+  },
+  {
+    action: "focusSearch",
+    label: "Search conversations",
+    group: "Conversations",
+    defaultKey: "/",
+  },
+  {
+    action: "reply",
+    label: "Reply to the open conversation",
+    group: "Conversations",
+    defaultKey: "r",
+  },
+  {
+    action: "commandPalette",
+    label: "Open the command palette",
+    group: "General",
+    defaultKey: "Mod+k",
+  },
+  {
+    action: "showShortcuts",
+    label: "Show keyboard shortcuts",
+    group: "General",
+    defaultKey: "?",
+  },
+];
+
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUTS.map((shortcut) => [shortcut.action, shortcut.defaultKey])
+) as ShortcutBindings;
+
+const STORAGE_PREFIX = "sayy-admin-shortcuts";
+
+const storageKey = () =>
+  `${STORAGE_PREFIX}:${getSession()?.agent.id ?? "anonymous"}`;
+
+const listeners = new Set<() => void>();
+let cached: { key: string; bindings: ShortcutBindings } | null = null;
+
+const readOverrides = (key: string): Partial<ShortcutBindings> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? "{}");
+    return Object.fromEntries(
+      Object.entries(stored).filter(
+        ([action, binding]) =>
+          action in DEFAULT_SHORTCUT_BINDINGS && typeof binding === "string"
+      )
+    );
+  } catch {
+    return {};
+  }
+};
+
+export const getShortcutBindings = () => {
+  const key = storageKey();
+  if (cached?.key !== key) {
+    cached = {
+      key,
+      bindings: { ...DEFAULT_SHORTCUT_BINDINGS, ...readOverrides(key) },
+    };
+  }
+  return cached.bindings;
+};
+
+export const subscribeToShortcutBindings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// The action already using `binding`, if any
+export const findShortcutConflict = (
+  action: ShortcutAction,
+  binding: string
+) =>
+  SHORTCUTS.find(
+    (shortcut) =>
+      shortcut.action !== action &&
+      getShortcutBindings()[shortcut.action] === binding
+  );
+
+const saveBindings = (bindings: ShortcutBindings) => {
+  const key = storageKey();
+  const overrides = Object.fromEntries(
+    Object.entries(bindings).filter(
+      ([action, binding]) =>
+        DEFAULT_SHORTCUT_BINDINGS[action as ShortcutAction] !== binding
+    )
+  );
+  cached = { key, bindings };
+  localStorage.setItem(key, JSON.stringify(overrides));
+  listeners.forEach((listener) => listener());
+};
+
+export const saveShortcutBinding = (action: ShortcutAction, binding: string) =>
+  saveBindings({ ...getShortcutBindings(), [action]: binding });
+
+export const resetShortcutBindings = () =>
+  saveBindings(DEFAULT_SHORTCUT_BINDINGS);
@@ -0,0 +1,57 @@
+import { getSlaPolicy, updateSlaPolicy } from "./serverActions";
+import { subscribeToSession } from "./session";
+import type { SlaPolicy } from "./types";
+import { DEFAULT_SLA_POLICY } from "../utils/sla";
+
+// The team's response-time policy, loaded once per session and shared by
+// the countdowns, the list order and the settings form.
+
+class SlaPolicyStore {
+  private policy: SlaPolicy = DEFAULT_SLA_POLICY;
+  private loading: Promise<void> | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  constructor() {
+    subscribeToSession((session) => {
+      if (!session) {
+        this.loading = null;
+        this.set(DEFAULT_SLA_POLICY);
+      }
+    });
+  }
+
+  get() {
+    return this.policy;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Until it arrives the defaults apply; a failed load is retried next time
+  load() {
+    if (!this.loading) {
+      this.loading = getSlaPolicy()
+        .then((policy) => this.set(policy))
+        .catch((error) => {
+          console.error("Error fetching SLA policy:", error);
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  async save(policy: SlaPolicy) {
+    this.set(await updateSlaPolicy(policy));
+  }
+
+  private set(policy: SlaPolicy) {
+    this.policy = policy;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const slaPolicy = new SlaPolicyStore();
@@ -0,0 +1,62 @@
+import { realtimeClient } from "./realtime";
+import { deleteTag, getTags, saveTag } from "./serverActions";
+import { subscribeToSession } from "./session";
+import type { TagDefinition } from "./types";
+
+// Admin-managed tags with their colors, loaded once per session and kept
+// current by the `tagsChanged` event so every agent sees the same labels.
+
+class TagCatalogStore {
+  private tags: TagDefinition[] = [];
+  private loading: Promise<void> | null = null;
+  private readonly listeners = new Set<() => void>();
+
+  constructor() {
+    subscribeToSession((session) => {
+      if (!session) {
+        this.loading = null;
+        this.set([]);
+      }
+    });
+    realtimeClient.on("tagsChanged", ({ tags }) => this.set(tags));
+  }
+
+  get() {
+    return this.tags;
+  }
+
+  subscribe(listener: () => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // A failed load is retried next time
+  load() {
+    if (!this.loading) {
+      this.loading = getTags()
+        .then((tags) => this.set(tags))
+        .catch((error) => {
+          console.error("Error fetching tags:", error);
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  async save(tag: TagDefinition) {
+    this.set(await saveTag(tag));
+  }
+
+  async remove(name: string) {
+    this.set(await deleteTag(name));
+  }
+
+  private set(tags: TagDefinition[]) {
+    this.tags = tags;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const tagCatalog = new TagCatalogStore();
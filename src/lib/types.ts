@@ -0,0 +1,247 @@
+// Shared domain types for the admin support API
+
+// A file already uploaded through the admin API
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Bytes
+  size: number;
+  url: string;
+}
+
+export interface Message {
+  // Client-generated id, echoed back by the server for de-duplication
+  id?: string;
+  sender: string;
+  // The agent who sent a support reply; stamped by the backend
+  agent?: AgentRef;
+  // May be empty when the message only carries attachments
+  content: string;
+  timestamp: string;
+  attachments?: Attachment[];
+}
+
+export type ChatStatus = "open" | "pending_customer" | "resolved" | "closed";
+
+export type ChatPriority = "low" | "normal" | "high" | "urgent";
+
+export interface AgentRef {
+  id: string;
+  name: string;
+}
+
+// Agent-to-agent context. Stored through its own admin endpoint and never
+// part of the customer-facing userLogs.
+export interface InternalNote {
+  id: string;
+  author: AgentRef;
+  content: string;
+  timestamp: string;
+  // Ids of agents @mentioned in the note
+  mentions: string[];
+}
+
+// Raised by the AI bot when it wants a human to take the conversation
+export interface HandoffRequest {
+  requestedAt: string;
+  reason: string;
+}
+
+export interface ChatLog {
+  _id: string;
+  clientId: string;
+  chatTitle: string;
+  userLogs: Message[];
+  // Older conversations have no status yet and count as open
+  status?: ChatStatus;
+  assignee?: AgentRef | null;
+  hasUnread?: boolean;
+  notes?: InternalNote[];
+  // Agents mentioned in a note who have not opened the conversation since
+  mentionedAgentIds?: string[];
+  priority?: ChatPriority;
+  tags?: string[];
+  // True while an agent has taken over and the AI bot stays quiet
+  aiPaused?: boolean;
+  handoffRequest?: HandoffRequest | null;
+}
+
+// Conversation list entry; the transcript itself is loaded when opened
+export interface ChatSummary {
+  _id: string;
+  clientId: string;
+  chatTitle: string;
+  status?: ChatStatus;
+  assignee?: AgentRef | null;
+  lastMessage: Message | null;
+  messageCount: number;
+  // Customer messages the signed-in agent has not read, from their read
+  // cursor on the server, so it is the same on every device
+  unreadCount: number;
+  mentionedAgentIds?: string[];
+  priority?: ChatPriority;
+  tags?: string[];
+  // Time of the first support reply; null while the customer still waits
+  // for one
+  firstResponseAt?: string | null;
+  // First customer message since the last agent reply; null when no one is
+  // waiting. Bot answers do not count as replies.
+  awaitingReplySince?: string | null;
+  aiPaused?: boolean;
+  handoffRequest?: HandoffRequest | null;
+}
+
+// The signed-in agent's unread count after their read state changed
+export interface ChatReadState {
+  clientId: string;
+  unreadCount: number;
+}
+
+export interface ChatSummaryPage {
+  items: ChatSummary[];
+  // Pass back to fetch the next page; null on the last one
+  nextCursor: string | null;
+  // Conversations matching the query across all pages
+  total: number;
+}
+
+// A window of a transcript, newest last
+// Full transcripts matching the list filters, for a bulk export
+export interface ChatLogPage {
+  items: ChatLog[];
+  nextCursor: string | null;
+}
+
+export interface ChatMessagePage {
+  messages: Message[];
+  // Only sent with the newest page
+  notes?: InternalNote[];
+  // Pass back as `before` for older messages; null at the start
+  prevCursor: string | null;
+}
+
+// Customer details agents can edit; all optional until someone fills them in
+export interface CustomerAttributes {
+  name?: string;
+  email?: string;
+  plan?: string;
+}
+
+// Network and page details the chat widget reported with the latest message
+export interface CustomerSession {
+  ip?: string;
+  // Approximate, resolved from the IP by the backend
+  location?: string;
+  userAgent?: string;
+  pageUrl?: string;
+}
+
+export interface CustomerConversation {
+  _id: string;
+  chatTitle: string;
+  status?: ChatStatus;
+  messageCount: number;
+  startedAt: string | null;
+  lastActivityAt: string | null;
+}
+
+// Everything the backend knows about the customer behind a clientId
+export interface CustomerProfile {
+  clientId: string;
+  attributes: CustomerAttributes;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  // Across all of the customer's conversations
+  messageCount: number;
+  // Newest first, including the open one
+  conversations: CustomerConversation[];
+  session: CustomerSession | null;
+}
+
+// Response targets in minutes, counted from the customer's latest message
+export interface SlaTargets {
+  firstResponseMinutes: number;
+  nextResponseMinutes: number;
+}
+
+// Targets for conversations with a tag or priority; the first match wins
+export interface SlaRule extends SlaTargets {
+  id: string;
+  tag?: string;
+  priority?: ChatPriority;
+}
+
+export interface SlaPolicy {
+  defaults: SlaTargets;
+  // Countdowns turn amber once this share of the target has passed
+  warnAtPercent: number;
+  rules: SlaRule[];
+}
+
+export type SlaKind = "first_response" | "next_response";
+
+// Recorded by the backend when a waiting conversation passes its target
+export interface SlaBreach {
+  id: string;
+  clientId: string;
+  chatTitle: string;
+  kind: SlaKind;
+  targetMinutes: number;
+  waitingSince: string;
+  dueAt: string;
+  breachedAt: string;
+  assignee: AgentRef | null;
+}
+
+export type TagColor =
+  | "gray"
+  | "red"
+  | "orange"
+  | "yellow"
+  | "green"
+  | "teal"
+  | "blue"
+  | "purple"
+  | "pink";
+
+// Admin-managed label. Conversations store tag names, so a name never
+// changes once created; deleting a tag removes it from every conversation.
+export interface TagDefinition {
+  name: string;
+  color: TagColor;
+  description: string;
+}
+
+export type AuditAction =
+  | "message.sent"
+  | "note.added"
+  | "chat.status_changed"
+  | "chat.assigned"
+  | "chat.taken_over"
+  | "chat.handed_back"
+  | "customer.updated"
+  | "transcript.exported"
+  | "sla_policy.updated"
+  | "chat.tags_changed"
+  | "tag.saved"
+  | "tag.deleted";
+
+// One recorded agent action. before and after hold the changed fields, or
+// null when something was created rather than changed.
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  agent: AgentRef;
+  timestamp: string;
+  // null for actions that are not about one conversation, e.g. policy edits
+  clientId: string | null;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLogPage {
+  // Newest first
+  items: AuditEntry[];
+  nextCursor: string | null;
+}
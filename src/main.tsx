@@ -1,9 +1,29 @@
 import { createRoot } from "react-dom/client";
 import "./index.css";
 import App from "./App.tsx";
+import { loadRuntimeConfig } from "./lib/runtimeConfig";
 
-createRoot(document.getElementById("root")!).render(
-  <>
-    <App />
-  </>
-);
+const root = createRoot(document.getElementById("root")!);
+
+// Nothing can reach a backend until the runtime config names one
+loadRuntimeConfig()
+  .then(() =>
+    root.render(
+      <>
+        <App />
+      </>
+    )
+  )
+  .catch((error) => {
+    console.error("Error loading runtime config:", error);
+    root.render(
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="w-full max-w-md rounded-lg border border-red-200 bg-white p-6 text-sm text-gray-700 space-y-2">
+          <div className="font-semibold text-red-700">
+            The admin panel is not configured correctly.
+          </div>
+          <div>{error instanceof Error ? error.message : String(error)}</div>
+        </div>
+      </div>
+    );
+  });
@@ -0,0 +1,1081 @@
+import type {
+  AgentRef,
+  Attachment,
+  AuditAction,
+  AuditEntry,
+  CustomerAttributes,
+  InternalNote,
+  Message,
+  SlaBreach,
+  SlaPolicy,
+  SlaTargets,
+  TagDefinition,
+} from "../lib/types";
+// Filtering uses the panel's own rules so both always agree
+import { filterChatLogs, parseChatFilters } from "../utils/chatFilters";
+import { CHAT_STATUS_OPTIONS } from "../utils/chatStatus";
+import {
+  getAwaitingReplySince,
+  isCustomerMessage,
+  isSupportMessage,
+} from "../utils/messages";
+import { CHAT_PRIORITIES, getSlaState } from "../utils/sla";
+import { computeSupportMetrics, parseDayKey } from "../utils/supportMetrics";
+import { isTagColor, normalizeTagName } from "../utils/tags";
+import {
+  toAgentRef,
+  type MockApiData,
+  type StoredAgent,
+  type StoredAttachmentFile,
+  type StoredChatLog,
+  type StoredCustomer,
+} from "./fixtures";
+
+// The fake admin API behind `npm run dev:mock` (mock/devServer.ts) and
+// demo mode (src/demo/backend.ts). Those two handle sign-in, transport and
+// delivering realtime events; the routes, validation and state live here
+// once, so the mock and the demo always answer the same way.
+
+export class MockHttpError extends Error {
+  readonly status: number;
+  readonly code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface MockApiRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  // Parsed JSON; each route checks the fields it reads
+  body: unknown;
+  // Whoever is signed in; the transport has checked the session
+  agent: AgentRef;
+  role: StoredAgent["role"];
+}
+
+export interface MockApiOptions {
+  // Sends a realtime event to every connected panel
+  broadcast: (event: string, payload: unknown) => void;
+  // Where the panel loads a stored attachment from
+  attachmentUrl: (id: string, file: StoredAttachmentFile) => string;
+}
+
+type RouteHandler = (request: MockApiRequest) => unknown;
+
+type Body = Record<string, unknown>;
+
+const fail = (status: number, message: string): never => {
+  throw new MockHttpError(status, message);
+};
+
+// Team-wide settings are for admins only
+const requireAdmin = (role: StoredAgent["role"]) => {
+  if (role !== "admin") fail(403, "Only admins can change this");
+};
+
+const isRecord = (value: unknown): value is Body =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const readBody = (body: unknown): Body =>
+  isRecord(body) ? body : fail(400, "Invalid request body");
+
+const readString = (body: Body, key: string) => {
+  const value = body[key];
+  return typeof value === "string" ? value : fail(400, `Invalid ${key}`);
+};
+
+const readOptionalString = (body: Body, key: string) => {
+  const value = body[key];
+  return typeof value === "string" ? value : "";
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const readStringArray = (body: Body, key: string) => {
+  const value = body[key];
+  return isStringArray(value) ? value : fail(400, `Invalid ${key}`);
+};
+
+const isAttachment = (value: unknown): value is Attachment =>
+  isRecord(value) &&
+  typeof value.id === "string" &&
+  typeof value.name === "string" &&
+  typeof value.mimeType === "string" &&
+  typeof value.size === "number" &&
+  typeof value.url === "string";
+
+const readMessage = (value: unknown): Message => {
+  if (
+    !isRecord(value) ||
+    typeof value.sender !== "string" ||
+    typeof value.content !== "string" ||
+    typeof value.timestamp !== "string"
+  ) {
+    throw new MockHttpError(400, "Invalid message");
+  }
+  const message: Message = {
+    sender: value.sender,
+    content: value.content,
+    timestamp: value.timestamp,
+  };
+  if (typeof value.id === "string") message.id = value.id;
+  if (Array.isArray(value.attachments)) {
+    message.attachments = value.attachments.filter(isAttachment);
+  }
+  return message;
+};
+
+const MAX_PAGE_SIZE = 200;
+
+const readLimit = (query: URLSearchParams, fallback: number) =>
+  Math.min(MAX_PAGE_SIZE, Math.max(1, Number(query.get("limit")) || fallback));
+
+const lastActivity = (log: StoredChatLog) =>
+  log.userLogs[log.userLogs.length - 1]?.timestamp ?? "";
+
+const compareByActivity = (a: StoredChatLog, b: StoredChatLog) =>
+  lastActivity(b).localeCompare(lastActivity(a)) ||
+  a.clientId.localeCompare(b.clientId);
+
+// Keyset cursor over (last activity desc, clientId asc), stable when new
+// messages reorder the list between pages
+interface SummaryCursor {
+  t: string;
+  id: string;
+}
+
+const encodeCursor = (log: StoredChatLog) =>
+  btoa(JSON.stringify({ t: lastActivity(log), id: log.clientId }));
+
+const decodeCursor = (value: string | null): SummaryCursor | null => {
+  if (!value) return null;
+  try {
+    const cursor: unknown = JSON.parse(atob(value));
+    if (
+      isRecord(cursor) &&
+      typeof cursor.t === "string" &&
+      typeof cursor.id === "string"
+    ) {
+      return { t: cursor.t, id: cursor.id };
+    }
+  } catch {
+    // Reported below
+  }
+  return fail(400, "Invalid cursor");
+};
+
+const isAfterCursor = (log: StoredChatLog, cursor: SummaryCursor) => {
+  const time = lastActivity(log);
+  return time < cursor.t || (time === cursor.t && log.clientId > cursor.id);
+};
+
+// How far an agent has read a conversation. Kept apart from the logs
+// because it is per agent.
+interface ReadCursor {
+  // Messages read, counted from the start of the transcript
+  readCount: number;
+  markedUnread: boolean;
+}
+
+const readKey = (agentId: string, clientId: string) =>
+  `${agentId}:${clientId}`;
+
+const CHAT_STATUSES = CHAT_STATUS_OPTIONS.map((option) => option.value);
+
+const MAX_SLA_MINUTES = 7 * 24 * 60;
+const SLA_PRIORITIES = CHAT_PRIORITIES.map((option) => option.value);
+
+const isValidMinutes = (minutes: unknown): minutes is number =>
+  typeof minutes === "number" &&
+  Number.isInteger(minutes) &&
+  minutes > 0 &&
+  minutes <= MAX_SLA_MINUTES;
+
+const readTargets = (value: unknown): SlaTargets | null =>
+  isRecord(value) &&
+  isValidMinutes(value.firstResponseMinutes) &&
+  isValidMinutes(value.nextResponseMinutes)
+    ? {
+        firstResponseMinutes: value.firstResponseMinutes,
+        nextResponseMinutes: value.nextResponseMinutes,
+      }
+    : null;
+
+const parseSlaPolicy = (body: unknown): SlaPolicy => {
+  const policy = readBody(body);
+  const defaults = readTargets(policy.defaults);
+  if (!defaults || !Array.isArray(policy.rules)) {
+    throw new MockHttpError(400, "Invalid response targets");
+  }
+  const warnAtPercent = policy.warnAtPercent;
+  if (
+    typeof warnAtPercent !== "number" ||
+    !(warnAtPercent >= 1 && warnAtPercent <= 99)
+  ) {
+    throw new MockHttpError(400, "Invalid warning threshold");
+  }
+  return {
+    defaults,
+    warnAtPercent,
+    rules: policy.rules.map((rule: unknown) => {
+      const targets = readTargets(rule);
+      if (!isRecord(rule) || !targets) {
+        throw new MockHttpError(400, "Invalid response target rule");
+      }
+      const tag =
+        (typeof rule.tag === "string" && rule.tag.trim()) || undefined;
+      const priority =
+        rule.priority == null
+          ? undefined
+          : SLA_PRIORITIES.find((value) => value === rule.priority) ??
+            fail(400, "Invalid priority");
+      if (!tag && !priority) {
+        throw new MockHttpError(400, "Invalid response target rule");
+      }
+      return {
+        id:
+          typeof rule.id === "string" && rule.id
+            ? rule.id
+            : crypto.randomUUID(),
+        tag,
+        priority,
+        ...targets,
+      };
+    }),
+  };
+};
+
+const MAX_TAG_DESCRIPTION_LENGTH = 200;
+
+const parseTag = (body: unknown): TagDefinition => {
+  const tag = readBody(body);
+  const name = normalizeTagName(readOptionalString(tag, "name"));
+  if (!name) throw new MockHttpError(400, "Invalid tag name");
+  if (!isTagColor(tag.color)) throw new MockHttpError(400, "Invalid color");
+  const description = readOptionalString(tag, "description").trim();
+  if (description.length > MAX_TAG_DESCRIPTION_LENGTH) {
+    throw new MockHttpError(400, "Description is too long");
+  }
+  return { name, color: tag.color, description };
+};
+
+const DAY_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDay = (query: URLSearchParams, key: string) => {
+  const value = query.get(key) ?? "";
+  return DAY_KEY.test(value) ? parseDayKey(value) : fail(400, `Invalid ${key}`);
+};
+
+const CUSTOMER_ATTRIBUTES = ["name", "email", "plan"] as const;
+const MAX_ATTRIBUTE_LENGTH = 200;
+
+// Same limits as src/utils/attachments.ts
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const ATTACHMENT_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/json",
+  "application/zip",
+  "text/plain",
+  "text/csv",
+];
+
+const decodeBase64 = (value: string) => {
+  try {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  } catch {
+    return fail(400, "Invalid file data");
+  }
+};
+
+// A file as the upload route and the mock helpers receive it
+export interface AttachmentUpload {
+  id: string;
+  name: string;
+  mimeType: string;
+  // Base64
+  data: string;
+}
+
+export class MockApi {
+  private readonly data: MockApiData;
+  private readonly options: MockApiOptions;
+  private readonly readCursors = new Map<string, ReadCursor>();
+  // Newest entries are at the end; `seq` is the paging cursor
+  private readonly auditLog: { seq: number; entry: AuditEntry }[] = [];
+  // Each wait is recorded once, however often breaches are checked
+  private readonly slaBreaches: SlaBreach[] = [];
+  private readonly routes: Record<string, RouteHandler>;
+
+  constructor(data: MockApiData, options: MockApiOptions) {
+    this.data = data;
+    this.options = options;
+    this.routes = this.createRoutes();
+  }
+
+  hasRoute(method: string, path: string) {
+    return this.routes[`${method} ${path}`] !== undefined;
+  }
+
+  handle(request: MockApiRequest) {
+    const handler = this.routes[`${request.method} ${request.path}`];
+    if (!handler) return fail(404, `No route for ${request.path}`);
+    return handler(request);
+  }
+
+  findAgent(email: string, password: string): StoredAgent | undefined {
+    return this.data.agents.find(
+      (candidate) =>
+        candidate.email === email.toLowerCase() &&
+        candidate.password === password
+    );
+  }
+
+  getAttachment(id: string) {
+    return this.data.attachments.get(id);
+  }
+
+  // A customer writing in, from the mock helpers or the demo simulator
+  addCustomerMessage(
+    clientId: string,
+    content: string,
+    file?: Omit<AttachmentUpload, "id">
+  ) {
+    const log = this.findChatLog(clientId);
+    const message: Message = {
+      id: crypto.randomUUID(),
+      sender: "user",
+      content,
+      timestamp: new Date().toISOString(),
+    };
+    if (file) {
+      message.attachments = [
+        this.storeAttachment({ ...file, id: crypto.randomUUID() }),
+      ];
+    }
+    this.addMessage(log, message);
+    return message;
+  }
+
+  // The AI bot asking for a human; ignored while an agent has taken over
+  requestHandoff(clientId: string, reason: string) {
+    const log = this.findChatLog(clientId);
+    if (log.aiPaused) return log;
+    log.handoffRequest = { requestedAt: new Date().toISOString(), reason };
+    this.broadcastHandoff(log, null);
+    return log;
+  }
+
+  // Records and announces response targets missed since the last check
+  recordSlaBreaches() {
+    const now = Date.now();
+    this.data.chatLogs.forEach((log) => {
+      const state = getSlaState(this.toSummary(log), this.data.slaPolicy, now);
+      if (state?.level !== "breached") return;
+      const id = `${log.clientId}:${state.kind}:${state.waitingSince}`;
+      if (this.slaBreaches.some((breach) => breach.id === id)) return;
+      const dueAt = new Date(state.dueAt).toISOString();
+      const breach: SlaBreach = {
+        id,
+        clientId: log.clientId,
+        chatTitle: log.chatTitle,
+        kind: state.kind,
+        targetMinutes: state.targetMinutes,
+        waitingSince: state.waitingSince,
+        dueAt,
+        breachedAt: dueAt,
+        assignee: log.assignee,
+      };
+      this.slaBreaches.push(breach);
+      this.options.broadcast("slaBreached", { breach });
+    });
+  }
+
+  private findChatLog(clientId: string) {
+    const log = this.data.chatLogs.find(
+      (candidate) => candidate.clientId === clientId
+    );
+    return log ?? fail(404, "Chat log not found");
+  }
+
+  // Customers the widget has not described yet still get a profile
+  private findCustomer(clientId: string) {
+    let customer = this.data.customers.find(
+      (candidate) => candidate.clientId === clientId
+    );
+    if (!customer) {
+      customer = { clientId, attributes: {}, session: null, archived: [] };
+      this.data.customers.push(customer);
+    }
+    return customer;
+  }
+
+  private addMessage(log: StoredChatLog, message: Message) {
+    log.userLogs.push(message);
+    this.options.broadcast("chatUpdated", {
+      clientId: log.clientId,
+      message,
+    });
+  }
+
+  // Customer messages after both the agent's read cursor and the last
+  // agent or bot reply. Without an agent (e.g. for SLA checks) only the
+  // reply counts. A conversation marked unread stays at one or more until
+  // it is read.
+  private countUnread(log: StoredChatLog, agentId?: string) {
+    const cursor = agentId
+      ? this.readCursors.get(readKey(agentId, log.clientId))
+      : undefined;
+    let count = 0;
+    for (let i = log.userLogs.length - 1; i >= (cursor?.readCount ?? 0); i--) {
+      if (!isCustomerMessage(log.userLogs[i].sender)) break;
+      count++;
+    }
+    return cursor?.markedUnread ? Math.max(1, count) : count;
+  }
+
+  private withUnread(log: StoredChatLog, agentId: string) {
+    return { ...log, hasUnread: this.countUnread(log, agentId) > 0 };
+  }
+
+  // The conversations the list filters in `query` match, newest first,
+  // one page after the query's cursor
+  private pageMatching(
+    query: URLSearchParams,
+    agentId: string,
+    defaultLimit: number
+  ) {
+    const limit = readLimit(query, defaultLimit);
+    const cursor = decodeCursor(query.get("cursor"));
+    const matching = filterChatLogs(
+      this.data.chatLogs.map((log) => this.withUnread(log, agentId)),
+      parseChatFilters(query),
+      agentId
+    ).sort(compareByActivity);
+    const remaining = cursor
+      ? matching.filter((log) => isAfterCursor(log, cursor))
+      : matching;
+    const page = remaining.slice(0, limit);
+    const last = page[page.length - 1];
+    return {
+      page,
+      nextCursor: last && remaining.length > limit ? encodeCursor(last) : null,
+      total: matching.length,
+    };
+  }
+
+  private toSummary(log: StoredChatLog, agentId?: string) {
+    return {
+      _id: log._id,
+      clientId: log.clientId,
+      chatTitle: log.chatTitle,
+      status: log.status,
+      priority: log.priority,
+      tags: log.tags,
+      assignee: log.assignee,
+      lastMessage: log.userLogs[log.userLogs.length - 1] ?? null,
+      messageCount: log.userLogs.length,
+      unreadCount: this.countUnread(log, agentId),
+      mentionedAgentIds: log.mentionedAgentIds,
+      aiPaused: log.aiPaused,
+      handoffRequest: log.handoffRequest,
+      firstResponseAt:
+        log.userLogs.find((message) => isSupportMessage(message.sender))
+          ?.timestamp ?? null,
+      awaitingReplySince: getAwaitingReplySince(log.userLogs),
+    };
+  }
+
+  private toCustomerProfile(customer: StoredCustomer) {
+    const live = this.data.chatLogs
+      .filter((log) => log.clientId === customer.clientId)
+      .map((log) => ({
+        _id: log._id,
+        chatTitle: log.chatTitle,
+        status: log.status,
+        messageCount: log.userLogs.length,
+        startedAt: log.userLogs[0]?.timestamp ?? null,
+        lastActivityAt: lastActivity(log) || null,
+      }));
+    const conversations = [...live, ...customer.archived].sort((a, b) =>
+      (b.lastActivityAt ?? "").localeCompare(a.lastActivityAt ?? "")
+    );
+    const times = conversations
+      .flatMap((conversation) => [
+        conversation.startedAt,
+        conversation.lastActivityAt,
+      ])
+      .filter((time): time is string => !!time)
+      .sort();
+    return {
+      clientId: customer.clientId,
+      attributes: customer.attributes,
+      firstSeen: times[0] ?? null,
+      lastSeen: times[times.length - 1] ?? null,
+      messageCount: conversations.reduce(
+        (sum, conversation) => sum + conversation.messageCount,
+        0
+      ),
+      conversations,
+      session: customer.session,
+    };
+  }
+
+  private storeAttachment({
+    id,
+    name,
+    mimeType,
+    data,
+  }: AttachmentUpload): Attachment {
+    if (!ATTACHMENT_TYPES.includes(mimeType)) {
+      throw new MockHttpError(415, "This file type is not supported");
+    }
+    const bytes = decodeBase64(data);
+    if (bytes.length === 0) throw new MockHttpError(400, "The file is empty");
+    if (bytes.length > MAX_ATTACHMENT_BYTES) {
+      throw new MockHttpError(413, "The file is too large");
+    }
+    const file = { name, mimeType, data: bytes };
+    this.data.attachments.set(id, file);
+    return {
+      id,
+      name,
+      mimeType,
+      size: bytes.length,
+      url: this.options.attachmentUrl(id, file),
+    };
+  }
+
+  private recordAudit(
+    agent: AgentRef,
+    action: AuditAction,
+    clientId: string | null,
+    before: unknown,
+    after: unknown
+  ) {
+    this.auditLog.push({
+      seq: this.auditLog.length + 1,
+      entry: {
+        id: crypto.randomUUID(),
+        action,
+        agent: toAgentRef(agent),
+        timestamp: new Date().toISOString(),
+        clientId,
+        before: before ?? null,
+        after: after ?? null,
+      },
+    });
+  }
+
+  // Every socket hears it; clients ignore other agents' read state
+  private setReadCursor(
+    log: StoredChatLog,
+    agentId: string,
+    cursor: ReadCursor
+  ) {
+    this.readCursors.set(readKey(agentId, log.clientId), cursor);
+    const state = {
+      clientId: log.clientId,
+      unreadCount: this.countUnread(log, agentId),
+    };
+    this.options.broadcast("chatReadChanged", { ...state, agentId });
+    return state;
+  }
+
+  private broadcastHandoff(log: StoredChatLog, changedBy: AgentRef | null) {
+    this.options.broadcast("chatHandoffChanged", {
+      clientId: log.clientId,
+      aiPaused: log.aiPaused,
+      handoffRequest: log.handoffRequest,
+      changedBy,
+    });
+  }
+
+  // Unknown names are dropped rather than rejected, so a tag deleted while
+  // an agent was editing does not fail the whole change
+  private setChatTags(log: StoredChatLog, next: string[], agent: AgentRef) {
+    const known = [...new Set(next)].filter((name) =>
+      this.data.tags.some((tag) => tag.name === name)
+    );
+    if (known.join() === log.tags.join()) return false;
+    this.recordAudit(agent, "chat.tags_changed", log.clientId, log.tags, known);
+    log.tags = known;
+    this.options.broadcast("chatTagsChanged", {
+      clientId: log.clientId,
+      tags: log.tags,
+      changedBy: toAgentRef(agent),
+    });
+    return true;
+  }
+
+  private createRoutes(): Record<string, RouteHandler> {
+    const { data, readCursors } = this;
+
+    return {
+      "GET /admin/getSupportChatSummaries": ({ query, agent }) => {
+        const { page, nextCursor, total } = this.pageMatching(
+          query,
+          agent.id,
+          50
+        );
+        return {
+          items: page.map((log) => this.toSummary(log, agent.id)),
+          nextCursor,
+          total,
+        };
+      },
+
+      // Full transcripts, matched and paged like the list, so an export
+      // holds exactly what the agent sees without loading everything
+      "GET /admin/getChatLogsForExport": ({ query, agent }) => {
+        const { page, nextCursor } = this.pageMatching(query, agent.id, 100);
+        return { items: page, nextCursor };
+      },
+
+      "GET /admin/getChatSummary": ({ query, agent }) =>
+        this.toSummary(
+          this.findChatLog(query.get("clientId") ?? ""),
+          agent.id
+        ),
+
+      // Oldest request first; the bot has been waiting on a human the
+      // longest
+      "GET /admin/getHandoffQueue": ({ query, agent }) =>
+        filterChatLogs(
+          data.chatLogs
+            .filter((log) => log.handoffRequest)
+            .map((log) => this.withUnread(log, agent.id)),
+          parseChatFilters(query),
+          agent.id
+        )
+          .sort((a, b) =>
+            (a.handoffRequest?.requestedAt ?? "").localeCompare(
+              b.handoffRequest?.requestedAt ?? ""
+            )
+          )
+          .map((log) => this.toSummary(log, agent.id)),
+
+      // Messages are append-only, so an index is a stable cursor
+      "GET /admin/getChatMessages": ({ query }) => {
+        const log = this.findChatLog(query.get("clientId") ?? "");
+        const limit = readLimit(query, 100);
+        const before = query.get("before");
+        const end = before === null ? log.userLogs.length : Number(before);
+        if (!Number.isInteger(end) || end < 0 || end > log.userLogs.length) {
+          throw new MockHttpError(400, "Invalid cursor");
+        }
+        const start = Math.max(0, end - limit);
+        return {
+          messages: log.userLogs.slice(start, end),
+          notes: before === null ? log.notes : undefined,
+          prevCursor: start > 0 ? String(start) : null,
+        };
+      },
+
+      "GET /admin/getChatLog": ({ query, agent }) =>
+        this.withUnread(
+          this.findChatLog(query.get("clientId") ?? ""),
+          agent.id
+        ),
+
+      "POST /admin/updateChatLog": ({ body, agent }) => {
+        const params = readBody(body);
+        const log = this.findChatLog(readString(params, "clientId"));
+        if (!Array.isArray(params.newUserLog)) {
+          throw new MockHttpError(400, "Invalid newUserLog");
+        }
+        // Replies are retried by the client outbox, so ignore repeated
+        // ids. Agents only post support replies: the sender is whoever is
+        // signed in, whatever the client claimed.
+        params.newUserLog
+          .map(readMessage)
+          .filter(
+            (message) =>
+              !message.id || !log.userLogs.some((msg) => msg.id === message.id)
+          )
+          .map(
+            (message): Message => ({
+              ...message,
+              sender: "support",
+              agent: toAgentRef(agent),
+            })
+          )
+          .forEach((message) => {
+            this.addMessage(log, message);
+            this.recordAudit(agent, "message.sent", log.clientId, null, {
+              id: message.id,
+              content: message.content,
+            });
+          });
+        return log;
+      },
+
+      "POST /admin/updateChatStatus": ({ body, agent }) => {
+        const params = readBody(body);
+        const log = this.findChatLog(readString(params, "clientId"));
+        const status =
+          CHAT_STATUSES.find((value) => value === params.status) ??
+          fail(400, "Invalid status");
+        this.recordAudit(
+          agent,
+          "chat.status_changed",
+          log.clientId,
+          log.status,
+          status
+        );
+        log.status = status;
+        this.options.broadcast("chatStatusChanged", {
+          clientId: log.clientId,
+          status,
+          changedBy: toAgentRef(agent),
+        });
+        return log;
+      },
+
+      "POST /admin/assignChat": ({ body, agent }) => {
+        const params = readBody(body);
+        const log = this.findChatLog(readString(params, "clientId"));
+        const assigneeId = params.assigneeId ?? null;
+        const assignee = data.agents.find((item) => item.id === assigneeId);
+        if (assigneeId !== null && !assignee) {
+          throw new MockHttpError(404, "No such agent");
+        }
+        const previous = log.assignee;
+        log.assignee = assignee ? toAgentRef(assignee) : null;
+        this.recordAudit(
+          agent,
+          "chat.assigned",
+          log.clientId,
+          previous,
+          log.assignee
+        );
+        this.options.broadcast("chatAssigned", {
+          clientId: log.clientId,
+          assignee: log.assignee,
+          assignedBy: toAgentRef(agent),
+        });
+        return log;
+      },
+
+      // Pauses the bot and answers its handoff request
+      "POST /admin/takeOverChat": ({ body, agent }) => {
+        const log = this.findChatLog(readString(readBody(body), "clientId"));
+        this.recordAudit(
+          agent,
+          "chat.taken_over",
+          log.clientId,
+          log.aiPaused,
+          true
+        );
+        log.aiPaused = true;
+        log.handoffRequest = null;
+        this.broadcastHandoff(log, toAgentRef(agent));
+        return log;
+      },
+
+      "POST /admin/handBackChat": ({ body, agent }) => {
+        const log = this.findChatLog(readString(readBody(body), "clientId"));
+        this.recordAudit(
+          agent,
+          "chat.handed_back",
+          log.clientId,
+          log.aiPaused,
+          false
+        );
+        log.aiPaused = false;
+        this.broadcastHandoff(log, toAgentRef(agent));
+        return log;
+      },
+
+      "GET /admin/getAgents": () => data.agents.map(toAgentRef),
+
+      "POST /admin/addChatNote": ({ body, agent }) => {
+        const params = readBody(body);
+        const log = this.findChatLog(readString(params, "clientId"));
+        const note = readBody(params.note);
+        const id = readString(note, "id");
+        const existing = log.notes.find((candidate) => candidate.id === id);
+        if (existing) return existing;
+        const mentions = isStringArray(note.mentions) ? note.mentions : [];
+        const saved: InternalNote = {
+          id,
+          author: toAgentRef(agent),
+          content: readString(note, "content"),
+          timestamp: new Date().toISOString(),
+          mentions: mentions.filter((mentioned) =>
+            data.agents.some((item) => item.id === mentioned)
+          ),
+        };
+        log.notes.push(saved);
+        this.recordAudit(agent, "note.added", log.clientId, null, {
+          id: saved.id,
+          content: saved.content,
+        });
+        // Mark the conversation for everyone mentioned, except the author
+        log.mentionedAgentIds = [
+          ...new Set([...log.mentionedAgentIds, ...saved.mentions]),
+        ].filter((mentioned) => mentioned !== agent.id);
+        this.options.broadcast("chatNoteAdded", {
+          clientId: log.clientId,
+          note: saved,
+        });
+        return saved;
+      },
+
+      "POST /admin/clearChatMention": ({ body, agent }) => {
+        const log = this.findChatLog(readString(readBody(body), "clientId"));
+        log.mentionedAgentIds = log.mentionedAgentIds.filter(
+          (id) => id !== agent.id
+        );
+        return true;
+      },
+
+      // Cursors only move forward, so a late request from another device
+      // never marks newer messages unread again
+      "POST /admin/markChatRead": ({ body, agent }) => {
+        const params = readBody(body);
+        const log = this.findChatLog(readString(params, "clientId"));
+        const readCount = params.readCount;
+        if (
+          typeof readCount !== "number" ||
+          !Number.isInteger(readCount) ||
+          readCount < 0
+        ) {
+          throw new MockHttpError(400, "Invalid read count");
+        }
+        const previous =
+          readCursors.get(readKey(agent.id, log.clientId))?.readCount ?? 0;
+        return this.setReadCursor(log, agent.id, {
+          readCount: Math.min(
+            log.userLogs.length,
+            Math.max(previous, readCount)
+          ),
+          markedUnread: false,
+        });
+      },
+
+      "POST /admin/markChatUnread": ({ body, agent }) => {
+        const log = this.findChatLog(readString(readBody(body), "clientId"));
+        return this.setReadCursor(log, agent.id, {
+          readCount:
+            readCursors.get(readKey(agent.id, log.clientId))?.readCount ?? 0,
+          markedUnread: true,
+        });
+      },
+
+      "GET /admin/getCustomerProfile": ({ query }) => {
+        const log = this.findChatLog(query.get("clientId") ?? "");
+        return this.toCustomerProfile(this.findCustomer(log.clientId));
+      },
+
+      "POST /admin/updateCustomerAttributes": ({ body, agent }) => {
+        const params = readBody(body);
+        const log = this.findChatLog(readString(params, "clientId"));
+        const attributes = isRecord(params.attributes) ? params.attributes : {};
+        const customer = this.findCustomer(log.clientId);
+        const next: CustomerAttributes = {};
+        CUSTOMER_ATTRIBUTES.forEach((key) => {
+          const value = readOptionalString(attributes, key).trim();
+          if (value.length > MAX_ATTRIBUTE_LENGTH) {
+            throw new MockHttpError(400, `${key} is too long`);
+          }
+          if (value) next[key] = value;
+        });
+        if (next.email && !/^[^\s@]+@[^\s@]+$/.test(next.email)) {
+          throw new MockHttpError(400, "Invalid email address");
+        }
+        this.recordAudit(
+          agent,
+          "customer.updated",
+          log.clientId,
+          customer.attributes,
+          next
+        );
+        customer.attributes = next;
+        this.options.broadcast("customerUpdated", {
+          clientId: log.clientId,
+          attributes: next,
+          updatedBy: toAgentRef(agent),
+        });
+        return next;
+      },
+
+      // Uploads are retried with the same id
+      "POST /admin/uploadAttachment": ({ body }) => {
+        const params = readBody(body);
+        const id = readString(params, "id");
+        const existing = data.attachments.get(id);
+        if (existing) {
+          return {
+            id,
+            name: existing.name,
+            mimeType: existing.mimeType,
+            size: existing.data.length,
+            url: this.options.attachmentUrl(id, existing),
+          };
+        }
+        return this.storeAttachment({
+          id,
+          name: readString(params, "name"),
+          mimeType: readString(params, "mimeType"),
+          data: readString(params, "data"),
+        });
+      },
+
+      "GET /admin/getSlaPolicy": () => data.slaPolicy,
+
+      "POST /admin/updateSlaPolicy": ({ body, agent, role }) => {
+        requireAdmin(role);
+        const next = parseSlaPolicy(body);
+        this.recordAudit(
+          agent,
+          "sla_policy.updated",
+          null,
+          data.slaPolicy,
+          next
+        );
+        data.slaPolicy = next;
+        return data.slaPolicy;
+      },
+
+      "GET /admin/getSlaBreaches": ({ query }) => {
+        this.recordSlaBreaches();
+        const from = query.get("from") ?? "";
+        const to = query.get("to") ?? "";
+        return this.slaBreaches.filter(
+          ({ breachedAt }) =>
+            (!from || breachedAt >= from) && (!to || breachedAt <= to)
+        );
+      },
+
+      // Days and hours are counted in the agent's `timeZone`. The mock runs
+      // on the agent's own machine, so its local time already is that.
+      // Unread is the signed-in agent's, from their read cursors.
+      "GET /admin/getSupportMetrics": ({ query, agent }) =>
+        computeSupportMetrics(
+          data.chatLogs.map((log) => this.withUnread(log, agent.id)),
+          { from: readDay(query, "from"), to: readDay(query, "to") }
+        ),
+
+      "GET /admin/getTags": () => data.tags,
+
+      "POST /admin/saveTag": ({ body, agent, role }) => {
+        requireAdmin(role);
+        const tag = parseTag(body);
+        const index = data.tags.findIndex((item) => item.name === tag.name);
+        this.recordAudit(
+          agent,
+          "tag.saved",
+          null,
+          data.tags[index] ?? null,
+          tag
+        );
+        if (index >= 0) data.tags[index] = tag;
+        else data.tags.push(tag);
+        this.options.broadcast("tagsChanged", { tags: data.tags });
+        return data.tags;
+      },
+
+      "POST /admin/deleteTag": ({ body, agent, role }) => {
+        requireAdmin(role);
+        const name = readString(readBody(body), "name");
+        const index = data.tags.findIndex((tag) => tag.name === name);
+        if (index < 0) return data.tags;
+        this.recordAudit(agent, "tag.deleted", null, data.tags[index], null);
+        data.tags.splice(index, 1);
+        data.chatLogs
+          .filter((log) => log.tags.includes(name))
+          .forEach((log) =>
+            this.setChatTags(
+              log,
+              log.tags.filter((tag) => tag !== name),
+              agent
+            )
+          );
+        this.options.broadcast("tagsChanged", { tags: data.tags });
+        return data.tags;
+      },
+
+      "POST /admin/updateChatTags": ({ body, agent }) => {
+        const params = readBody(body);
+        const log = this.findChatLog(readString(params, "clientId"));
+        this.setChatTags(log, readStringArray(params, "tags"), agent);
+        return log;
+      },
+
+      // Same matching as the list, so it tags exactly what the agent sees
+      "POST /admin/bulkTagChats": ({ body, agent }) => {
+        const params = readBody(body);
+        const add = readStringArray(params, "add");
+        const remove = readStringArray(params, "remove");
+        const matching = filterChatLogs(
+          data.chatLogs.map((log) => this.withUnread(log, agent.id)),
+          parseChatFilters(
+            new URLSearchParams(readOptionalString(params, "filters"))
+          ),
+          agent.id
+        );
+        let updated = 0;
+        matching.forEach(({ clientId }) => {
+          const log = this.findChatLog(clientId);
+          const next = [
+            ...log.tags.filter((tag) => !remove.includes(tag)),
+            ...add.filter((tag) => !log.tags.includes(tag)),
+          ];
+          if (this.setChatTags(log, next, agent)) updated++;
+        });
+        return { updated };
+      },
+
+      "GET /admin/getAuditLog": ({ query }) => {
+        const limit = readLimit(query, 100);
+        const agentId = query.get("agent");
+        const action = query.get("action");
+        const from = query.get("from") ?? "";
+        const to = query.get("to") ?? "";
+        const cursor = query.get("cursor");
+        const before = cursor === null ? Infinity : Number(cursor);
+        if (Number.isNaN(before)) {
+          throw new MockHttpError(400, "Invalid cursor");
+        }
+        const matching = this.auditLog
+          .filter(
+            ({ seq, entry }) =>
+              seq < before &&
+              (!agentId || entry.agent.id === agentId) &&
+              (!action || entry.action === action) &&
+              (!from || entry.timestamp >= from) &&
+              (!to || entry.timestamp < to)
+          )
+          .reverse();
+        const page = matching.slice(0, limit);
+        return {
+          items: page.map(({ entry }) => entry),
+          nextCursor:
+            matching.length > limit ? String(page[page.length - 1].seq) : null,
+        };
+      },
+
+      // One entry per conversation, so filtering by conversation finds it
+      "POST /admin/recordTranscriptExport": ({ body, agent }) => {
+        const params = readBody(body);
+        readStringArray(params, "clientIds").forEach((clientId) =>
+          this.recordAudit(agent, "transcript.exported", clientId, null, {
+            format: params.format,
+            includeNotes: params.includeNotes,
+          })
+        );
+        return true;
+      },
+    };
+  }
+}
@@ -0,0 +1,657 @@
+import type {
+  AgentRef,
+  ChatLog,
+  ChatPriority,
+  ChatStatus,
+  CustomerAttributes,
+  CustomerConversation,
+  CustomerSession,
+  InternalNote,
+  Message,
+  SlaPolicy,
+  TagDefinition,
+} from "../lib/types";
+import { DEFAULT_SLA_POLICY } from "../utils/sla";
+
+// Data behind the fake admin API in ./backend.ts. The mock dev server
+// serves the hand-written `createMockData`; demo mode serves the seeded
+// `createDemoData`. Both share the shapes, tags and response targets, so
+// the two backends only differ in which conversations they start with.
+
+export interface StoredAgent extends AgentRef {
+  email: string;
+  role: "agent" | "admin";
+  password: string;
+}
+
+export type StoredChatLog = Required<
+  Pick<
+    ChatLog,
+    | "status"
+    | "assignee"
+    | "notes"
+    | "mentionedAgentIds"
+    | "priority"
+    | "tags"
+    | "aiPaused"
+    | "handoffRequest"
+  >
+> &
+  ChatLog;
+
+export interface StoredCustomer {
+  clientId: string;
+  attributes: CustomerAttributes;
+  session: CustomerSession | null;
+  // Conversations archived out of the support log
+  archived: CustomerConversation[];
+}
+
+// Stored bytes behind an attachment url
+export interface StoredAttachmentFile {
+  name: string;
+  mimeType: string;
+  data: Uint8Array;
+}
+
+export interface MockApiData {
+  agents: StoredAgent[];
+  chatLogs: StoredChatLog[];
+  customers: StoredCustomer[];
+  tags: TagDefinition[];
+  slaPolicy: SlaPolicy;
+  attachments: Map<string, StoredAttachmentFile>;
+}
+
+export const toAgentRef = ({ id, name }: AgentRef): AgentRef => ({ id, name });
+
+const createTags = (): TagDefinition[] => [
+  { name: "billing", color: "green", description: "Payments and refunds" },
+  { name: "bug", color: "red", description: "Something is broken" },
+  {
+    name: "feature-request",
+    color: "purple",
+    description: "Asks for something we do not do yet",
+  },
+  { name: "vip", color: "yellow", description: "Key account" },
+];
+
+const createSlaPolicy = (): SlaPolicy => ({
+  ...DEFAULT_SLA_POLICY,
+  rules: [
+    {
+      id: "rule-urgent",
+      priority: "urgent",
+      firstResponseMinutes: 5,
+      nextResponseMinutes: 15,
+    },
+    {
+      id: "rule-billing",
+      tag: "billing",
+      firstResponseMinutes: 10,
+      nextResponseMinutes: 20,
+    },
+  ],
+});
+
+// Mock dev server
+
+export const MOCK_AGENTS: StoredAgent[] = [
+  {
+    id: "agent-1",
+    name: "Alex Admin",
+    email: "admin@sayy.ai",
+    role: "admin",
+    password: "support",
+  },
+  {
+    id: "agent-2",
+    name: "Sam Support",
+    email: "sam@sayy.ai",
+    role: "agent",
+    password: "support",
+  },
+];
+
+export interface MockDataOptions {
+  // Where the panel loads a stored attachment from
+  attachmentUrl: (id: string) => string;
+  // Extra generated conversations for load testing; the first one gets a
+  // `longTranscriptLength`-message transcript
+  extraChatCount: number;
+  longTranscriptLength: number;
+}
+
+const RECEIPT_TEXT = [
+  "Card statement excerpt",
+  "12 Mar  SAYY SHOP ORDER 4521   49.00",
+  "12 Mar  SAYY SHOP ORDER 4521   49.00",
+].join("\n");
+
+const minutesAgo = (minutes: number) =>
+  new Date(Date.now() - minutes * 60000).toISOString();
+
+const seedChatLogs = (
+  attachmentUrl: MockDataOptions["attachmentUrl"]
+): StoredChatLog[] => [
+  {
+    _id: "log-1",
+    clientId: "client-1001",
+    chatTitle: "Refund for order #4521",
+    status: "open",
+    priority: "high",
+    tags: ["billing"],
+    assignee: { id: "agent-2", name: "Sam Support" },
+    aiPaused: true,
+    handoffRequest: null,
+    notes: [
+      {
+        id: "note-1",
+        author: { id: "agent-1", name: "Alex Admin" },
+        content:
+          "Duplicate charge confirmed in Stripe. @Sam Support can refund.",
+        timestamp: minutesAgo(80),
+        mentions: ["agent-2"],
+      },
+    ],
+    mentionedAgentIds: ["agent-2"],
+    userLogs: [
+      {
+        sender: "user",
+        content: "Hi, I was charged twice.",
+        timestamp: minutesAgo(90),
+        attachments: [
+          {
+            id: "att-1",
+            name: "statement.txt",
+            mimeType: "text/plain",
+            size: new TextEncoder().encode(RECEIPT_TEXT).length,
+            url: attachmentUrl("att-1"),
+          },
+        ],
+      },
+      {
+        sender: "support",
+        content: "Sorry about that, checking now.",
+        timestamp: minutesAgo(85),
+      },
+      {
+        sender: "user",
+        content: "Thanks, any update?",
+        timestamp: minutesAgo(5),
+      },
+    ],
+  },
+  {
+    _id: "log-2",
+    clientId: "client-1002",
+    chatTitle: "Cannot log in",
+    status: "open",
+    priority: "urgent",
+    tags: ["bug"],
+    assignee: null,
+    aiPaused: false,
+    handoffRequest: {
+      requestedAt: minutesAgo(29),
+      reason: "Reset emails are not arriving after two attempts",
+    },
+    notes: [],
+    mentionedAgentIds: [],
+    userLogs: [
+      {
+        sender: "user",
+        content: "Password reset email never arrives.",
+        timestamp: minutesAgo(240),
+      },
+      {
+        sender: "bot",
+        content: "I have sent a new reset link. Please check your spam folder.",
+        timestamp: minutesAgo(239),
+      },
+      {
+        sender: "user",
+        content: "Still nothing, I checked spam too.",
+        timestamp: minutesAgo(30),
+      },
+      {
+        sender: "bot",
+        content: "Sorry about that. I am bringing in someone from our team.",
+        timestamp: minutesAgo(29),
+      },
+      {
+        sender: "user",
+        content: "OK, thanks.",
+        timestamp: minutesAgo(28),
+      },
+    ],
+  },
+  {
+    _id: "log-3",
+    clientId: "client-1003",
+    chatTitle: "Pricing question",
+    status: "resolved",
+    priority: "normal",
+    tags: [],
+    assignee: { id: "agent-1", name: "Alex Admin" },
+    aiPaused: false,
+    handoffRequest: null,
+    notes: [],
+    mentionedAgentIds: [],
+    userLogs: [
+      {
+        sender: "user",
+        content: "Do you offer annual plans?",
+        timestamp: minutesAgo(1500),
+      },
+      {
+        sender: "bot",
+        content: "Yes, with two months free.",
+        timestamp: minutesAgo(1490),
+      },
+    ],
+  },
+];
+
+const seedCustomers = (): StoredCustomer[] => [
+  {
+    clientId: "client-1001",
+    attributes: {
+      name: "Dana Whitfield",
+      email: "dana@example.com",
+      plan: "Pro",
+    },
+    session: {
+      ip: "203.0.113.24",
+      location: "Lisbon, Portugal",
+      userAgent:
+        "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_4) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.4 Safari/605.1.15",
+      pageUrl: "https://shop.example.com/orders/4521",
+    },
+    archived: [
+      {
+        _id: "log-archived-1",
+        chatTitle: "Change delivery address",
+        status: "resolved",
+        messageCount: 6,
+        startedAt: minutesAgo(60 * 24 * 21),
+        lastActivityAt: minutesAgo(60 * 24 * 21 - 25),
+      },
+      {
+        _id: "log-archived-2",
+        chatTitle: "Discount code not applied",
+        status: "closed",
+        messageCount: 4,
+        startedAt: minutesAgo(60 * 24 * 64),
+        lastActivityAt: minutesAgo(60 * 24 * 64 - 12),
+      },
+    ],
+  },
+  {
+    clientId: "client-1002",
+    attributes: { email: "m.osei@example.org" },
+    session: {
+      ip: "198.51.100.7",
+      location: "Accra, Ghana",
+      userAgent:
+        "Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Mobile Safari/537.36",
+      pageUrl: "https://app.example.com/login",
+    },
+    archived: [],
+  },
+];
+
+const LOAD_TEST_TOPICS = [
+  { title: "Billing question", tags: ["billing"] },
+  { title: "Shipping delay", tags: [] },
+  { title: "Account locked", tags: ["vip"] },
+  { title: "Feature request", tags: ["feature-request"] },
+  { title: "Integration help", tags: [] },
+  { title: "Bug report", tags: ["bug"] },
+];
+
+const LOAD_TEST_STATUSES: ChatStatus[] = [
+  "open",
+  "open",
+  "pending_customer",
+  "resolved",
+  "closed",
+];
+
+const generateLoadTestChat = (
+  index: number,
+  longTranscriptLength: number
+): StoredChatLog => {
+  const length = index === 0 ? longTranscriptLength : 2 + (index % 7);
+  // Spread activity over the last 30 days, newest first
+  const lastActivity = minutesAgo(10 + ((index * 37) % (30 * 24 * 60)));
+  const end = new Date(lastActivity).getTime();
+  const userLogs = Array.from({ length }, (_, msgIndex) => {
+    const fromCustomer = msgIndex % 2 === 0;
+    return {
+      id: `gen-${index}-${msgIndex}`,
+      sender: fromCustomer ? "user" : "support",
+      content: fromCustomer
+        ? `Customer message ${msgIndex + 1} about ticket ${index}`
+        : `Support reply ${msgIndex + 1} for ticket ${index}`,
+      timestamp: new Date(end - (length - msgIndex) * 60000).toISOString(),
+    };
+  });
+  const assigned = MOCK_AGENTS[index % (MOCK_AGENTS.length + 1)];
+  const topic = LOAD_TEST_TOPICS[index % LOAD_TEST_TOPICS.length];
+  return {
+    _id: `gen-log-${index}`,
+    clientId: `client-${20000 + index}`,
+    chatTitle: `${topic.title} #${index}`,
+    status: LOAD_TEST_STATUSES[index % LOAD_TEST_STATUSES.length],
+    priority: "normal",
+    tags: [...topic.tags],
+    assignee: assigned ? toAgentRef(assigned) : null,
+    notes: [],
+    mentionedAgentIds: [],
+    aiPaused: false,
+    handoffRequest: null,
+    userLogs,
+  };
+};
+
+export const createMockData = ({
+  attachmentUrl,
+  extraChatCount,
+  longTranscriptLength,
+}: MockDataOptions): MockApiData => ({
+  agents: MOCK_AGENTS.map((agent) => ({ ...agent })),
+  chatLogs: [
+    ...seedChatLogs(attachmentUrl),
+    ...Array.from({ length: extraChatCount }, (_, index) =>
+      generateLoadTestChat(index, longTranscriptLength)
+    ),
+  ],
+  customers: seedCustomers(),
+  tags: createTags(),
+  slaPolicy: createSlaPolicy(),
+  attachments: new Map([
+    [
+      "att-1",
+      {
+        name: "statement.txt",
+        mimeType: "text/plain",
+        data: new TextEncoder().encode(RECEIPT_TEXT),
+      },
+    ],
+  ]),
+});
+
+// Demo mode. Everything comes from a seeded generator and times are
+// relative to `now`, so the same seed always produces the same
+// conversations; end-to-end tests can rely on titles, ids and order.
+
+export interface DemoDataOptions {
+  seed: number;
+  chatCount: number;
+  // Epoch milliseconds the generated times count back from
+  now?: number;
+}
+
+// The first one signs in with DEMO_CREDENTIALS from src/lib/demoMode.ts
+export const DEMO_AGENTS: StoredAgent[] = [
+  {
+    id: "demo-agent-1",
+    name: "Dana Demo",
+    email: "demo@sayy.ai",
+    role: "admin",
+    password: "demo",
+  },
+  {
+    id: "demo-agent-2",
+    name: "Riley Support",
+    email: "riley@sayy.ai",
+    role: "agent",
+    password: "demo",
+  },
+  {
+    id: "demo-agent-3",
+    name: "Jordan Support",
+    email: "jordan@sayy.ai",
+    role: "agent",
+    password: "demo",
+  },
+];
+
+interface Topic {
+  title: string;
+  tags: string[];
+  priority: ChatPriority;
+  opener: string;
+  botReply: string;
+  agentReply: string;
+}
+
+const TOPICS: Topic[] = [
+  {
+    title: "Refund for order",
+    tags: ["billing"],
+    priority: "high",
+    opener: "I was charged twice for my last order. Can I get a refund?",
+    botReply: "I can help with that. Could you share the order number?",
+    agentReply:
+      "I have refunded the duplicate charge, it should show in 3-5 days.",
+  },
+  {
+    title: "Cannot log in",
+    tags: ["bug"],
+    priority: "urgent",
+    opener: "The password reset email never arrives.",
+    botReply: "Sorry about that. Please check your spam folder.",
+    agentReply:
+      "I have resent the reset link from our side, please try again.",
+  },
+  {
+    title: "Pricing question",
+    tags: [],
+    priority: "normal",
+    opener: "Is there a discount for annual plans?",
+    botReply: "Yes, annual plans are 20% cheaper than paying monthly.",
+    agentReply: "I can also apply a one-off discount if you switch this week.",
+  },
+  {
+    title: "Export to CSV",
+    tags: ["feature-request"],
+    priority: "low",
+    opener: "Could you add a CSV export for the reports page?",
+    botReply: "Thanks for the suggestion, I have passed it on.",
+    agentReply: "Good news, this is on our roadmap for next quarter.",
+  },
+  {
+    title: "Account upgrade",
+    tags: ["vip", "billing"],
+    priority: "high",
+    opener: "We want to move our whole team to the enterprise plan.",
+    botReply: "Great! Someone from our team will be in touch shortly.",
+    agentReply: "I have prepared a quote for 40 seats, sending it over now.",
+  },
+  {
+    title: "App crashes on upload",
+    tags: ["bug"],
+    priority: "normal",
+    opener: "The app closes whenever I upload a photo.",
+    botReply: "Which device and app version are you using?",
+    agentReply: "Thanks, we found the cause and a fix ships tomorrow.",
+  },
+];
+
+const FIRST_NAMES = [
+  "Ava",
+  "Ben",
+  "Chloe",
+  "Diego",
+  "Emma",
+  "Farah",
+  "Gus",
+  "Hana",
+  "Ivan",
+  "Jade",
+];
+const LAST_NAMES = ["Ng", "Okafor", "Silva", "Kowalski", "Berg", "Haddad"];
+const PLANS = ["Free", "Pro", "Team", "Enterprise"];
+const LOCATIONS = ["Berlin, DE", "Austin, US", "Lagos, NG", "Osaka, JP"];
+
+// Statuses repeat in this pattern so every view has something in it
+const STATUS_PATTERN: ChatStatus[] = [
+  "open",
+  "open",
+  "pending_customer",
+  "open",
+  "resolved",
+  "closed",
+];
+
+// Mulberry32: small, fast and good enough for fixture data
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export type Random = ReturnType<typeof createRandom>;
+
+export const pick = <T>(random: Random, items: T[]) =>
+  items[Math.floor(random() * items.length)];
+
+const generateChat = (
+  index: number,
+  random: Random,
+  now: number
+): { log: StoredChatLog; customer: StoredCustomer } => {
+  const topic = TOPICS[index % TOPICS.length];
+  const clientId = `demo-client-${1001 + index}`;
+  const status = STATUS_PATTERN[index % STATUS_PATTERN.length];
+  // Newest conversations first, spread over roughly two weeks
+  const lastActivity = now - (index * 17 + Math.floor(random() * 15)) * 60000;
+  const at = (minutesBefore: number) =>
+    new Date(lastActivity - minutesBefore * 60000).toISOString();
+
+  const answered = status !== "open" || random() < 0.4;
+  const takenOver = answered && random() < 0.6;
+  const agent = pick(random, DEMO_AGENTS);
+  const messages: Message[] = [
+    {
+      id: `${clientId}-1`,
+      sender: "user",
+      content: topic.opener,
+      timestamp: at(12),
+    },
+    {
+      id: `${clientId}-2`,
+      sender: "bot",
+      content: topic.botReply,
+      timestamp: at(11),
+    },
+  ];
+  if (answered) {
+    messages.push({
+      id: `${clientId}-3`,
+      sender: "support",
+      content: topic.agentReply,
+      timestamp: at(5),
+      agent: toAgentRef(agent),
+    });
+  }
+  if (status === "open") {
+    messages.push({
+      id: `${clientId}-4`,
+      sender: "user",
+      content: answered ? "Thanks, one more thing though." : "Hello? Anyone?",
+      timestamp: at(0),
+    });
+  }
+
+  const notes: InternalNote[] =
+    index % 5 === 1
+      ? [
+          {
+            id: `${clientId}-note-1`,
+            author: toAgentRef(DEMO_AGENTS[1]),
+            content: `@${DEMO_AGENTS[0].name} can you take a look at this one?`,
+            timestamp: at(4),
+            mentions: [DEMO_AGENTS[0].id],
+          },
+        ]
+      : [];
+
+  const first = pick(random, FIRST_NAMES);
+  const last = pick(random, LAST_NAMES);
+  const assignee =
+    status === "open" && index % 3 === 0 ? null : toAgentRef(agent);
+
+  return {
+    log: {
+      _id: `demo-log-${index + 1}`,
+      clientId,
+      chatTitle: `${topic.title} #${4500 + index}`,
+      userLogs: messages,
+      status,
+      assignee,
+      notes,
+      mentionedAgentIds: notes.flatMap((note) => note.mentions),
+      priority: topic.priority,
+      tags: [...topic.tags],
+      aiPaused: takenOver,
+      // A few unanswered conversations are waiting for a human
+      handoffRequest:
+        !answered && index % 2 === 0
+          ? { requestedAt: at(1), reason: "Customer asked for a person" }
+          : null,
+    },
+    customer: {
+      clientId,
+      attributes: {
+        name: `${first} ${last}`,
+        email: `${first}.${last}@example.com`.toLowerCase(),
+        plan: pick(random, PLANS),
+      },
+      session: {
+        ip: `203.0.113.${1 + (index % 250)}`,
+        location: pick(random, LOCATIONS),
+        userAgent: "Mozilla/5.0 (Macintosh; Intel Mac OS X 14_5) Safari/605.1",
+        pageUrl: "https://example.com/account",
+      },
+      archived: [],
+    },
+  };
+};
+
+export const createDemoData = ({
+  seed,
+  chatCount,
+  now = Date.now(),
+}: DemoDataOptions): MockApiData => {
+  const random = createRandom(seed);
+  const chats = Array.from({ length: chatCount }, (_, index) =>
+    generateChat(index, random, now)
+  );
+  return {
+    agents: DEMO_AGENTS.map((agent) => ({ ...agent })),
+    chatLogs: chats.map((chat) => chat.log),
+    customers: chats.map((chat) => chat.customer),
+    tags: createTags(),
+    slaPolicy: createSlaPolicy(),
+    attachments: new Map(),
+  };
+};
+
+// Customer lines the demo socket sends, in order of a seeded shuffle
+export const SCRIPTED_CUSTOMER_MESSAGES = [
+  "Any update on this?",
+  "I just tried again and it still does not work.",
+  "Thanks, that fixed it!",
+  "Can you also check my other account?",
+  "Is there a phone number I can call?",
+  "Here is the screenshot you asked for.",
+  "Great, I will wait for the email.",
+  "Sorry, one more question about my invoice.",
+];
@@ -0,0 +1,254 @@
+import React, { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { getAgents, getAuditLog } from "../lib/serverActions";
+import { isAbortError } from "../lib/apiClient";
+import type { AgentRef, AuditEntry } from "../lib/types";
+import {
+  AUDIT_ACTIONS,
+  auditEntriesToCsv,
+  formatAuditValue,
+  getAuditActionLabel,
+  parseAuditFilters,
+  toAuditSearchParams,
+  type AuditFilters,
+} from "../utils/audit";
+import { downloadFile } from "../utils/download";
+import { supportPath } from "../utils/workspace";
+
+const inputClassName =
+  "p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const PAGE_SIZE = 100;
+const EXPORT_PAGE_SIZE = 200;
+
+const Audit: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = parseAuditFilters(searchParams);
+  const filterKey = JSON.stringify(filters);
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [agents, setAgents] = useState<AgentRef[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getAgents({ signal: controller.signal })
+      .then(setAgents)
+      .catch((fetchError) => {
+        if (!isAbortError(fetchError)) {
+          console.error("Error fetching agents:", fetchError);
+        }
+      });
+    return () => controller.abort();
+  }, []);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    setError(null);
+    getAuditLog(
+      { filters: JSON.parse(filterKey), limit: PAGE_SIZE },
+      { signal: controller.signal }
+    )
+      .then((page) => {
+        setEntries(page.items);
+        setNextCursor(page.nextCursor);
+      })
+      .catch((fetchError) => {
+        if (isAbortError(fetchError)) return;
+        console.error("Error fetching audit log:", fetchError);
+        setError("The audit log could not be loaded.");
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setLoading(false);
+      });
+    return () => controller.abort();
+  }, [filterKey]);
+
+  const update = (patch: Partial<AuditFilters>) =>
+    setSearchParams(toAuditSearchParams({ ...filters, ...patch }), {
+      replace: true,
+    });
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    setLoading(true);
+    try {
+      const page = await getAuditLog({
+        filters,
+        cursor: nextCursor,
+        limit: PAGE_SIZE,
+      });
+      setEntries((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+    } catch (fetchError) {
+      console.error("Error fetching audit log:", fetchError);
+      setError("More entries could not be loaded.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Exports every matching entry, not just the pages loaded so far
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const all: AuditEntry[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await getAuditLog({
+          filters,
+          cursor,
+          limit: EXPORT_PAGE_SIZE,
+        });
+        all.push(...page.items);
+        cursor = page.nextCursor;
+      } while (cursor);
+      downloadFile(
+        `sayy-audit-${new Date().toISOString().slice(0, 10)}.csv`,
+        auditEntriesToCsv(all),
+        "text/csv"
+      );
+    } catch (exportError) {
+      console.error("Error exporting audit log:", exportError);
+      setError("The audit log could not be exported.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6 text-gray-800">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-semibold">Audit log</h1>
+        <button
+          onClick={handleExport}
+          disabled={exporting}
+          className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors disabled:opacity-50"
+        >
+          {exporting ? "Exporting..." : "Export CSV"}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <select
+          aria-label="Agent"
+          value={filters.agentId ?? ""}
+          onChange={(e) => update({ agentId: e.target.value || null })}
+          className={inputClassName}
+        >
+          <option value="">All agents</option>
+          {agents.map((agent) => (
+            <option key={agent.id} value={agent.id}>
+              {agent.name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label="Action"
+          value={filters.action ?? ""}
+          onChange={(e) =>
+            update({
+              action: (e.target.value || null) as AuditFilters["action"],
+            })
+          }
+          className={inputClassName}
+        >
+          <option value="">All actions</option>
+          {AUDIT_ACTIONS.map((action) => (
+            <option key={action.value} value={action.value}>
+              {action.label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          aria-label="From"
+          value={filters.from ?? ""}
+          max={filters.to ?? undefined}
+          onChange={(e) => update({ from: e.target.value || null })}
+          className={inputClassName}
+        />
+        <span className="text-gray-500">to</span>
+        <input
+          type="date"
+          aria-label="To"
+          value={filters.to ?? ""}
+          min={filters.from ?? undefined}
+          onChange={(e) => update({ to: e.target.value || null })}
+          className={inputClassName}
+        />
+      </div>
+
+      {error && (
+        <div className="text-sm rounded bg-red-50 text-red-700 px-3 py-2">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="text-left text-gray-500 border-b border-gray-200">
+            <tr>
+              <th className="px-4 py-2 font-medium">Time</th>
+              <th className="px-4 py-2 font-medium">Agent</th>
+              <th className="px-4 py-2 font-medium">Action</th>
+              <th className="px-4 py-2 font-medium">Conversation</th>
+              <th className="px-4 py-2 font-medium">Change</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {entries.map((entry) => (
+              <tr key={entry.id} className="align-top">
+                <td className="px-4 py-2 whitespace-nowrap text-gray-500">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </td>
+                <td className="px-4 py-2">{entry.agent.name}</td>
+                <td className="px-4 py-2">
+                  {getAuditActionLabel(entry.action)}
+                </td>
+                <td className="px-4 py-2">
+                  {entry.clientId ? (
+                    <Link
+                      to={supportPath(entry.clientId)}
+                      className="text-indigo-600 hover:underline"
+                    >
+                      {entry.clientId}
+                    </Link>
+                  ) : (
+                    <span className="text-gray-400">—</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 font-mono text-xs text-gray-600 break-all">
+                  {formatAuditValue(entry.before)}
+                  {entry.before !== null && entry.after !== null && " → "}
+                  {formatAuditValue(entry.after)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {!loading && entries.length === 0 && (
+          <div className="p-4 text-gray-500">No matching entries.</div>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-gray-500">Loading...</div>
+      ) : (
+        nextCursor && (
+          <button
+            onClick={loadMore}
+            className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+          >
+            Load more
+          </button>
+        )
+      )}
+    </div>
+  );
+};
+
+export default Audit;
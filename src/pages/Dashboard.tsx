@@ -0,0 +1,328 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { getSlaBreaches, getSupportMetrics } from "../lib/serverActions";
+import { isAbortError } from "../lib/apiClient";
+import type { SlaBreach } from "../lib/types";
+import { useAuth } from "../context/auth";
+import type { SlaBreachedEvent } from "../lib/realtime";
+import {
+  useRealtimeEvent,
+  useRealtimeReconnect,
+  useRealtimeStatus,
+} from "../hooks/useRealtime";
+import ConnectionStatus from "../components/ConnectionStatus";
+import {
+  formatDuration,
+  lastNDays,
+  parseDayKey,
+  toDayKey,
+  toTimeBounds,
+  type DateRange,
+  type SupportMetrics,
+} from "../utils/supportMetrics";
+import { SLA_KIND_LABELS } from "../utils/sla";
+import { supportPath } from "../utils/workspace";
+import { getTagClassName } from "../utils/tags";
+import { useTagCatalog } from "../hooks/useTagCatalog";
+
+const RANGE_PRESETS = [
+  { label: "Today", days: 1 },
+  { label: "7 days", days: 7 },
+  { label: "30 days", days: 30 },
+];
+
+const RECENT_BREACH_COUNT = 10;
+const METRICS_REFRESH_DEBOUNCE_MS = 1000;
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+const StatCard: React.FC<{ label: string; value: React.ReactNode }> = ({
+  label,
+  value,
+}) => (
+  <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+    <div className="text-sm text-gray-500">{label}</div>
+    <div className="mt-1 text-2xl font-semibold text-gray-800">{value}</div>
+  </div>
+);
+
+const Dashboard: React.FC = () => {
+  const { agent } = useAuth();
+  const [metrics, setMetrics] = useState<SupportMetrics | null>(null);
+  const [range, setRange] = useState<DateRange>(() => lastNDays(7));
+  // Bumped by live events to fetch the metrics again
+  const [revision, setRevision] = useState(0);
+  const [breaches, setBreaches] = useState<SlaBreach[]>([]);
+  const tagCatalog = useTagCatalog();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getSupportMetrics(range, { signal: controller.signal })
+      .then(setMetrics)
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.error("Error fetching support metrics:", error);
+        }
+      });
+    return () => controller.abort();
+  }, [range, revision]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    getSlaBreaches(toTimeBounds(range), { signal: controller.signal })
+      .then(setBreaches)
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.error("Error fetching SLA breaches:", error);
+        }
+      });
+    return () => controller.abort();
+  }, [range]);
+
+  // Keep the numbers live with the same events the Support page uses. A
+  // burst of messages causes one fetch.
+  const refreshTimer = useRef<ReturnType<typeof setTimeout>>();
+  const scheduleRefresh = () => {
+    clearTimeout(refreshTimer.current);
+    refreshTimer.current = setTimeout(
+      () => setRevision((prev) => prev + 1),
+      METRICS_REFRESH_DEBOUNCE_MS
+    );
+  };
+  useEffect(() => () => clearTimeout(refreshTimer.current), []);
+  useRealtimeEvent("chatUpdated", scheduleRefresh);
+  useRealtimeEvent("chatStatusChanged", scheduleRefresh);
+  useRealtimeEvent("chatTagsChanged", scheduleRefresh);
+  useRealtimeEvent("chatReadChanged", ({ agentId }) => {
+    if (agentId === agent?.id) scheduleRefresh();
+  });
+  useRealtimeReconnect(scheduleRefresh);
+  const handleSlaBreached = ({ breach }: SlaBreachedEvent) => {
+    const { from, to } = toTimeBounds(range);
+    if (breach.breachedAt < from || breach.breachedAt >= to) return;
+    setBreaches((prev) =>
+      prev.some((item) => item.id === breach.id) ? prev : [...prev, breach]
+    );
+  };
+  useRealtimeEvent("slaBreached", handleSlaBreached);
+  const connectionStatus = useRealtimeStatus();
+
+  const recentBreaches = useMemo(
+    () =>
+      [...breaches]
+        .sort((a, b) => b.breachedAt.localeCompare(a.breachedAt))
+        .slice(0, RECENT_BREACH_COUNT),
+    [breaches]
+  );
+  const maxDaily = Math.max(
+    1,
+    ...(metrics?.volumeByDay ?? []).map((d) => d.count)
+  );
+  const maxHourly = Math.max(
+    1,
+    ...(metrics?.hourlyVolume ?? []).map((h) => h.count)
+  );
+
+  return (
+    <div className="space-y-6 text-gray-800">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="flex items-center space-x-3">
+          <h1 className="text-2xl font-semibold">Dashboard</h1>
+          <ConnectionStatus status={connectionStatus} />
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {RANGE_PRESETS.map((preset) => (
+            <button
+              key={preset.days}
+              onClick={() => setRange(lastNDays(preset.days))}
+              className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+            >
+              {preset.label}
+            </button>
+          ))}
+          <input
+            type="date"
+            value={toDayKey(range.from)}
+            max={toDayKey(range.to)}
+            onChange={(e) =>
+              e.target.value &&
+              setRange((prev) => ({
+                ...prev,
+                from: parseDayKey(e.target.value),
+              }))
+            }
+            className="p-1.5 text-sm border border-gray-200 rounded text-black bg-white"
+          />
+          <span className="text-sm text-gray-500">to</span>
+          <input
+            type="date"
+            value={toDayKey(range.to)}
+            min={toDayKey(range.from)}
+            onChange={(e) =>
+              e.target.value &&
+              setRange((prev) => ({
+                ...prev,
+                to: parseDayKey(e.target.value),
+              }))
+            }
+            className="p-1.5 text-sm border border-gray-200 rounded text-black bg-white"
+          />
+        </div>
+      </div>
+
+      {!metrics ? (
+        <div className="text-gray-500">Loading...</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+            <StatCard
+              label="Open conversations"
+              value={metrics.openConversations}
+            />
+            <StatCard
+              label="Unread"
+              value={metrics.unreadConversations}
+            />
+            <StatCard label="Messages" value={metrics.totalMessages} />
+            <StatCard
+              label="Median first response"
+              value={formatDuration(metrics.medianFirstResponseMs)}
+            />
+            <StatCard
+              label="Median reply time"
+              value={formatDuration(metrics.medianReplyMs)}
+            />
+            <StatCard label="Missed targets" value={breaches.length} />
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h2 className="text-lg font-semibold mb-4">Messages per day</h2>
+            <div className="flex items-end h-40 gap-1">
+              {metrics.volumeByDay.map((day) => (
+                <div
+                  key={day.date}
+                  className="flex-1 flex flex-col items-center justify-end h-full"
+                  title={`${day.date}: ${day.count} messages`}
+                >
+                  <div
+                    className="w-full bg-indigo-500 rounded-t"
+                    style={{ height: `${(day.count / maxDaily) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>{toDayKey(range.from)}</span>
+              <span>{toDayKey(range.to)}</span>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+              <h2 className="text-lg font-semibold">Busiest hours</h2>
+              <span className="text-sm text-gray-500">
+                {metrics.busiestHours.length
+                  ? metrics.busiestHours
+                      .map((h) => `${formatHour(h.hour)} (${h.count})`)
+                      .join(", ")
+                  : "No messages in this range"}
+              </span>
+            </div>
+            <div className="flex items-end h-32 gap-1">
+              {metrics.hourlyVolume.map((hour) => (
+                <div
+                  key={hour.hour}
+                  className="flex-1 flex flex-col items-center justify-end h-full"
+                  title={`${formatHour(hour.hour)}: ${hour.count} messages`}
+                >
+                  <div
+                    className="w-full bg-blue-400 rounded-t"
+                    style={{ height: `${(hour.count / maxHourly) * 100}%` }}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-gray-500 mt-2">
+              <span>00:00</span>
+              <span>12:00</span>
+              <span>23:00</span>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h2 className="text-lg font-semibold mb-4">Conversations by tag</h2>
+            {metrics.tagCounts.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                No tagged conversations in this range.
+              </div>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {metrics.tagCounts.map((tag) => (
+                  <li key={tag.name} className="flex items-center gap-3">
+                    <Link
+                      to={{ pathname: "/support", search: `?tag=${tag.name}` }}
+                      className={`w-36 truncate px-2 py-0.5 rounded text-xs font-medium hover:underline ${getTagClassName(
+                        tag.name,
+                        tagCatalog
+                      )}`}
+                    >
+                      {tag.name}
+                    </Link>
+                    <div className="flex-1 h-2 bg-gray-100 rounded">
+                      <div
+                        className="h-2 bg-indigo-400 rounded"
+                        style={{
+                          width: `${
+                            (tag.count / metrics.tagCounts[0].count) * 100
+                          }%`,
+                        }}
+                      />
+                    </div>
+                    <span className="w-8 text-right text-gray-600">
+                      {tag.count}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+            <h2 className="text-lg font-semibold mb-4">
+              Missed response targets
+            </h2>
+            {recentBreaches.length === 0 ? (
+              <div className="text-sm text-gray-500">
+                Every customer was answered in time.
+              </div>
+            ) : (
+              <ul className="divide-y divide-gray-100 text-sm">
+                {recentBreaches.map((breach) => (
+                  <li
+                    key={breach.id}
+                    className="flex flex-wrap items-baseline justify-between gap-2 py-2"
+                  >
+                    <Link
+                      to={supportPath(breach.clientId)}
+                      className="font-medium text-indigo-600 hover:underline truncate"
+                    >
+                      {breach.chatTitle}
+                    </Link>
+                    <span className="text-gray-500">
+                      {SLA_KIND_LABELS[breach.kind]} over{" "}
+                      {breach.targetMinutes} min ·{" "}
+                      {breach.assignee?.name ?? "Unassigned"} ·{" "}
+                      {new Date(breach.breachedAt).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,141 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+  Navigate,
+  useLocation,
+  useNavigate,
+  type Location,
+} from "react-router-dom";
+import { useAuth } from "../context/auth";
+import EnvironmentBanner from "../components/EnvironmentBanner";
+import { ApiError } from "../lib/apiClient";
+import { DEMO_CREDENTIALS, enableDemoMode, isDemoMode } from "../lib/demoMode";
+
+const Login: React.FC = () => {
+  const { isAuthenticated, endReason, login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The whole deep link, so list filters and open chats survive sign-in
+  const fromLocation = (location.state as { from?: Location } | null)?.from;
+  const from = fromLocation?.pathname
+    ? `${fromLocation.pathname}${fromLocation.search}${fromLocation.hash}`
+    : "/";
+
+  const handleDemo = useCallback(async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      enableDemoMode();
+      await login(DEMO_CREDENTIALS);
+      navigate(from, { replace: true });
+    } catch (err) {
+      console.error("Error starting demo:", err);
+      setError("Could not start the demo. Please try again.");
+    } finally {
+      setSubmitting(false);
+    }
+  }, [login, navigate, from]);
+
+  // `?demo=1` links, and demo sessions that expired, go straight back in.
+  // Only once: a failed attempt leaves the button to try again.
+  const autoStartedRef = useRef(false);
+  useEffect(() => {
+    if (autoStartedRef.current || isAuthenticated || !isDemoMode()) return;
+    autoStartedRef.current = true;
+    handleDemo();
+  }, [isAuthenticated, handleDemo]);
+
+  if (isAuthenticated) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+    try {
+      await login({ email: email.trim(), password });
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(
+        err instanceof ApiError && err.status === 401
+          ? "Invalid email or password."
+          : "Could not sign in. Please try again."
+      );
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="w-full max-w-sm bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4"
+      >
+        <div className="text-center">
+          <span className="text-2xl font-bold tracking-wide text-gray-800">
+            sayy <span className="text-blue-400">AI</span>
+          </span>
+          <p className="text-sm text-gray-500 mt-1">
+            Sign in to the admin panel
+          </p>
+        </div>
+        <EnvironmentBanner />
+        {endReason === "expired" && !error && (
+          <div className="text-sm rounded bg-yellow-50 text-yellow-800 px-3 py-2">
+            Your session has expired. Please sign in again.
+          </div>
+        )}
+        {error && (
+          <div className="text-sm rounded bg-red-50 text-red-700 px-3 py-2">
+            {error}
+          </div>
+        )}
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Email</span>
+          <input
+            type="email"
+            autoComplete="username"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 w-full p-3 border border-gray-200 rounded-lg text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+        <label className="block">
+          <span className="text-sm font-medium text-gray-700">Password</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="mt-1 w-full p-3 border border-gray-200 rounded-lg text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? "Signing in..." : "Sign in"}
+        </button>
+        <button
+          type="button"
+          onClick={handleDemo}
+          disabled={submitting}
+          className="w-full px-4 py-2 text-sm text-indigo-600 bg-transparent hover:text-indigo-800 disabled:opacity-50"
+        >
+          Explore the demo
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
@@ -0,0 +1,227 @@
+import React, { useRef, useState } from "react";
+import {
+  deleteMacro,
+  exportMacros,
+  getMacroCategories,
+  importMacros,
+  saveMacro,
+  type Macro,
+} from "../lib/macros";
+import { useMacros } from "../hooks/useMacros";
+import { downloadFile } from "../utils/download";
+import { MACRO_PLACEHOLDERS } from "../utils/macroTemplate";
+
+interface MacroDraft {
+  id?: string;
+  title: string;
+  category: string;
+  content: string;
+}
+
+const EMPTY_DRAFT: MacroDraft = { title: "", category: "", content: "" };
+
+const inputClassName =
+  "w-full p-2 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const Macros: React.FC = () => {
+  const macros = useMacros();
+  const [draft, setDraft] = useState<MacroDraft | null>(null);
+  const [categoryFilter, setCategoryFilter] = useState("");
+  const [notice, setNotice] = useState<{ ok: boolean; text: string } | null>(
+    null
+  );
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const categories = getMacroCategories(macros);
+  const visibleMacros = categoryFilter
+    ? macros.filter((macro) => macro.category === categoryFilter)
+    : macros;
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft || !draft.title.trim() || !draft.content.trim()) return;
+    saveMacro(draft);
+    setDraft(null);
+  };
+
+  const handleDelete = (macro: Macro) => {
+    if (window.confirm(`Delete the macro "${macro.title}"?`)) {
+      deleteMacro(macro.id);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      const count = importMacros(await file.text());
+      setNotice({ ok: true, text: `Imported ${count} macros.` });
+    } catch (error) {
+      setNotice({
+        ok: false,
+        text: error instanceof Error ? error.message : "Import failed.",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6 text-gray-800">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-semibold">Macros</h1>
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setDraft(EMPTY_DRAFT)}
+            className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+          >
+            New macro
+          </button>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+          >
+            Import JSON
+          </button>
+          <button
+            onClick={() =>
+              downloadFile("sayy-macros.json", exportMacros(), "application/json")
+            }
+            className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+          >
+            Export JSON
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleImport}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {notice && (
+        <div
+          className={`text-sm rounded px-3 py-2 ${
+            notice.ok ? "bg-green-50 text-green-800" : "bg-red-50 text-red-700"
+          }`}
+        >
+          {notice.text}
+        </div>
+      )}
+
+      {draft && (
+        <form
+          onSubmit={handleSave}
+          className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 space-y-3"
+        >
+          <h2 className="text-lg font-semibold">
+            {draft.id ? "Edit macro" : "New macro"}
+          </h2>
+          <div className="grid md:grid-cols-2 gap-3">
+            <input
+              required
+              placeholder="Title"
+              value={draft.title}
+              onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+              className={inputClassName}
+            />
+            <input
+              list="macro-categories"
+              placeholder="Category"
+              value={draft.category}
+              onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+              className={inputClassName}
+            />
+            <datalist id="macro-categories">
+              {categories.map((category) => (
+                <option key={category} value={category} />
+              ))}
+            </datalist>
+          </div>
+          <textarea
+            required
+            rows={4}
+            placeholder="Response text"
+            value={draft.content}
+            onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+            className={inputClassName}
+          />
+          <div className="text-xs text-gray-500">
+            Placeholders:{" "}
+            {MACRO_PLACEHOLDERS.map((name) => `{{${name}}}`).join(", ")}
+          </div>
+          <div className="flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setDraft(null)}
+              className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-3 py-1.5 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {["", ...categories].map((category) => (
+          <button
+            key={category || "all"}
+            onClick={() => setCategoryFilter(category)}
+            className={`px-3 py-1 text-sm rounded-full transition-colors ${
+              categoryFilter === category
+                ? "bg-indigo-600 text-white"
+                : "bg-white border border-gray-200 text-gray-600 hover:text-indigo-600"
+            }`}
+          >
+            {category || "All"}
+          </button>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 divide-y divide-gray-100">
+        {visibleMacros.length === 0 ? (
+          <div className="p-4 text-gray-500">No macros yet.</div>
+        ) : (
+          visibleMacros.map((macro) => (
+            <div key={macro.id} className="p-4 flex gap-4 items-start">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{macro.title}</span>
+                  <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600">
+                    {macro.category}
+                  </span>
+                </div>
+                <p className="mt-1 text-sm text-gray-600 whitespace-pre-wrap">
+                  {macro.content}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm">
+                <button
+                  onClick={() => setDraft(macro)}
+                  className="p-0 bg-transparent text-indigo-600 hover:underline"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(macro)}
+                  className="p-0 bg-transparent text-red-600 hover:underline"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Macros;
@@ -0,0 +1,283 @@
+import React, { useState } from "react";
+import {
+  saveNotificationSettings,
+  type NotificationSettings,
+} from "../lib/notificationSettings";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  SHORTCUTS,
+  findShortcutConflict,
+  resetShortcutBindings,
+  saveShortcutBinding,
+  type ShortcutDefinition,
+} from "../lib/shortcuts";
+import EnvironmentSwitcher from "../components/EnvironmentSwitcher";
+import SlaPolicyForm from "../components/SlaPolicyForm";
+import TagCatalogForm from "../components/TagCatalogForm";
+import { useAuth } from "../context/auth";
+import { getEnvironments } from "../lib/runtimeConfig";
+import { useNotificationSettings } from "../hooks/useNotifications";
+import { useShortcutBindings } from "../hooks/useShortcuts";
+import { canNotify, playChime } from "../utils/alerts";
+import { formatShortcut, keyFromEvent } from "../utils/shortcuts";
+
+const inputClassName =
+  "p-1.5 text-sm border border-gray-200 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent";
+
+const Toggle: React.FC<{
+  label: string;
+  description: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}> = ({ label, description, checked, onChange }) => (
+  <label className="flex items-start gap-3 py-3">
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(e) => onChange(e.target.checked)}
+      className="mt-1"
+    />
+    <span>
+      <span className="block font-medium">{label}</span>
+      <span className="block text-sm text-gray-500">{description}</span>
+    </span>
+  </label>
+);
+
+// Click, then press the new key combination; Escape cancels
+const ShortcutRow: React.FC<{
+  shortcut: ShortcutDefinition;
+  binding: string;
+}> = ({ shortcut, binding }) => {
+  const [recording, setRecording] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLButtonElement>) => {
+    if (!recording || e.key === "Tab") return;
+    // Keep the key from triggering the shortcut it is replacing
+    e.preventDefault();
+    if (e.key === "Escape") {
+      setRecording(false);
+      return;
+    }
+    const key = keyFromEvent(e.nativeEvent);
+    if (!key) return;
+    const conflict = findShortcutConflict(shortcut.action, key);
+    if (conflict) {
+      setError(
+        `${formatShortcut(key)} is already used for "${conflict.label}".`
+      );
+      return;
+    }
+    saveShortcutBinding(shortcut.action, key);
+    setRecording(false);
+    setError(null);
+  };
+
+  return (
+    <div className="py-2">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-sm">{shortcut.label}</span>
+        <button
+          onClick={() => {
+            setRecording(true);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setRecording(false)}
+          className={`min-w-[6rem] px-2 py-1 rounded border text-xs font-mono transition-colors ${
+            recording
+              ? "border-indigo-400 bg-indigo-50 text-indigo-700"
+              : "border-gray-200 bg-gray-50 text-gray-600 hover:text-indigo-600"
+          }`}
+        >
+          {recording ? "Press keys..." : formatShortcut(binding)}
+        </button>
+      </div>
+      {error && <div className="mt-1 text-xs text-red-700">{error}</div>}
+    </div>
+  );
+};
+
+const Settings: React.FC = () => {
+  const { agent } = useAuth();
+  const settings = useNotificationSettings();
+  const bindings = useShortcutBindings();
+  const [permission, setPermission] = useState(() =>
+    canNotify() ? Notification.permission : "denied"
+  );
+
+  const update = (patch: Partial<NotificationSettings>) =>
+    saveNotificationSettings(patch);
+
+  const updateQuietHours = (
+    patch: Partial<NotificationSettings["quietHours"]>
+  ) => update({ quietHours: { ...settings.quietHours, ...patch } });
+
+  const requestPermission = async () => {
+    setPermission(await Notification.requestPermission());
+  };
+
+  return (
+    <div className="space-y-6 text-gray-800 max-w-2xl">
+      <h1 className="text-2xl font-semibold">Settings</h1>
+
+      <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <h2 className="text-lg font-semibold">Notifications</h2>
+        <p className="text-sm text-gray-500">
+          Alerts for new customer messages. These settings only apply to your
+          account in this browser.
+        </p>
+
+        <div className="divide-y divide-gray-100">
+          <Toggle
+            label="Desktop notifications"
+            description="Show a system notification when a customer writes in."
+            checked={settings.desktop}
+            onChange={(desktop) => update({ desktop })}
+          />
+          {settings.desktop && permission !== "granted" && (
+            <div className="py-3 text-sm">
+              {permission === "denied" ? (
+                <span className="text-red-700">
+                  Notifications are blocked for this site. Allow them in your
+                  browser settings.
+                </span>
+              ) : (
+                <button
+                  onClick={requestPermission}
+                  className="px-3 py-1.5 bg-indigo-600 text-white rounded hover:bg-indigo-700 transition-colors"
+                >
+                  Allow notifications
+                </button>
+              )}
+            </div>
+          )}
+          <div className="flex items-center justify-between">
+            <Toggle
+              label="Sound"
+              description="Play a short chime with each alert."
+              checked={settings.sound}
+              onChange={(sound) => update({ sound })}
+            />
+            <button
+              onClick={playChime}
+              className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors"
+            >
+              Test
+            </button>
+          </div>
+          <Toggle
+            label="Only conversations assigned to me"
+            description="Unread counts still include every conversation."
+            checked={settings.assignedOnly}
+            onChange={(assignedOnly) => update({ assignedOnly })}
+          />
+          <Toggle
+            label="Missed response targets"
+            description="Alert when a waiting customer passes the SLA target."
+            checked={settings.slaBreaches}
+            onChange={(slaBreaches) => update({ slaBreaches })}
+          />
+          <Toggle
+            label="Mute"
+            description="Silence all alerts until you turn this off."
+            checked={settings.muted}
+            onChange={(muted) => update({ muted })}
+          />
+          <div>
+            <Toggle
+              label="Quiet hours"
+              description="No alerts between these times, every day."
+              checked={settings.quietHours.enabled}
+              onChange={(enabled) => updateQuietHours({ enabled })}
+            />
+            {settings.quietHours.enabled && (
+              <div className="flex items-center gap-2 pb-3 pl-7 text-sm">
+                <input
+                  type="time"
+                  value={settings.quietHours.start}
+                  onChange={(e) => updateQuietHours({ start: e.target.value })}
+                  className={inputClassName}
+                />
+                <span>to</span>
+                <input
+                  type="time"
+                  value={settings.quietHours.end}
+                  onChange={(e) => updateQuietHours({ end: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+      </section>
+
+      {agent?.role === "admin" && (
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h2 className="text-lg font-semibold">Response targets</h2>
+          <p className="text-sm text-gray-500">
+            How long a customer may wait for a reply. These apply to the whole
+            team.
+          </p>
+          <SlaPolicyForm />
+        </section>
+      )}
+
+      {agent?.role === "admin" && (
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h2 className="text-lg font-semibold">Tags</h2>
+          <p className="text-sm text-gray-500">
+            Labels agents put on conversations to filter, route and report by
+            topic. These apply to the whole team.
+          </p>
+          <TagCatalogForm />
+        </section>
+      )}
+
+      {agent?.role === "admin" && getEnvironments().length > 1 && (
+        <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <h2 className="text-lg font-semibold">Environment</h2>
+          <p className="text-sm text-gray-500">
+            Which backend this browser works against. Switching signs you out.
+          </p>
+          <EnvironmentSwitcher />
+        </section>
+      )}
+
+      <section className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <h2 className="text-lg font-semibold">Keyboard shortcuts</h2>
+            <p className="text-sm text-gray-500">
+              Click a shortcut and press the keys you want instead. Press{" "}
+              {formatShortcut(bindings.showShortcuts)} on any page to see them
+              all.
+            </p>
+          </div>
+          <button
+            onClick={resetShortcutBindings}
+            disabled={SHORTCUTS.every(
+              ({ action }) =>
+                bindings[action] === DEFAULT_SHORTCUT_BINDINGS[action]
+            )}
+            className="px-3 py-1.5 text-sm rounded border border-gray-200 bg-white text-gray-600 hover:text-indigo-600 transition-colors disabled:opacity-40 whitespace-nowrap"
+          >
+            Reset to defaults
+          </button>
+        </div>
+        <div className="divide-y divide-gray-100">
+          {SHORTCUTS.map((shortcut) => (
+            <ShortcutRow
+              key={shortcut.action}
+              shortcut={shortcut}
+              binding={bindings[shortcut.action]}
+            />
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+};
+
+export default Settings;
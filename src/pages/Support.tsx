@@ -1,315 +1,364 @@
-import React, { useState, useRef, useEffect } from "react";
-import { getAdminSupportLogs, updateAdminChatLog } from "../lib/serverActions";
-import { backendSocketUrl } from "../utils/constants";
-
-const CHATS_PER_PAGE = 5;
-const WS_RECONNECT_DELAY = 2000;
-
-interface Message {
-  sender: string;
-  content: string;
-
-  timestamp: Date;
-}
-
-interface ChatLog {
-  _id: string;
-  clientId: string;
-  chatTitle: string;
-  userLogs: Message[];
-  hasUnread?: boolean;
-}
+import React, {
+  useCallback,
+  useState,
+  useEffect,
+  useMemo,
+  useRef,
+} from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import {
+  bulkTagChats,
+  getAgents,
+  getChatLogsForExport,
+  recordTranscriptExport,
+} from "../lib/serverActions";
+import { outbox } from "../lib/outbox";
+import { chatStore } from "../lib/chatStore";
+import { isAbortError } from "../lib/apiClient";
+import type { AgentRef, ChatSummary } from "../lib/types";
+import { useAuth } from "../context/auth";
+import { useRealtimeStatus } from "../hooks/useRealtime";
+import { useChatStore } from "../hooks/useChatStore";
+import { useChatSummaries } from "../hooks/useChatSummaries";
+import { useHandoffQueue } from "../hooks/useHandoffQueue";
+import { useDrafts } from "../hooks/useDrafts";
+import { useNow, useSlaPolicy } from "../hooks/useSlaPolicy";
+import { useShortcut } from "../hooks/useShortcuts";
+import { useCommands } from "../hooks/useCommands";
+import ConnectionStatus from "../components/ConnectionStatus";
+import ChatList from "../components/ChatList";
+import ConversationPane from "../components/ConversationPane";
+import WorkspaceTabs from "../components/WorkspaceTabs";
+import ChatFilterBar from "../components/ChatFilterBar";
+import ExportMenu from "../components/ExportMenu";
+import BulkTagMenu, { type BulkTagAction } from "../components/BulkTagMenu";
+import CustomerPanel from "../components/CustomerPanel";
+import {
+  hasActiveFilters,
+  parseChatFilters,
+  toSearchParams,
+  type ChatFilters,
+  type ChatView,
+} from "../utils/chatFilters";
+import { downloadFile } from "../utils/download";
+import {
+  exportTranscripts,
+  loadExportOptions,
+  type TranscriptExportOptions,
+} from "../utils/transcriptExport";
+import { sortBySlaBreach } from "../utils/sla";
+import {
+  addOpenChat,
+  neighbourAfterClose,
+  parseOpenChats,
+  supportPath,
+  withOpenChats,
+  type WorkspaceLayout,
+} from "../utils/workspace";
+
+const VIEW_TABS: { value: ChatView; label: string }[] = [
+  { value: "mine", label: "Mine" },
+  { value: "unassigned", label: "Unassigned" },
+  { value: "all", label: "All" },
+  { value: "resolved", label: "Resolved" },
+];
+
+// Whether the customer panel is open is remembered across visits
+const CUSTOMER_PANEL_KEY = "sayy-admin-customer-panel";
+// So is showing open conversations one at a time or side by side
+const WORKSPACE_LAYOUT_KEY = "sayy-admin-workspace-layout";
 
 const Support: React.FC = () => {
-  const [page, setPage] = useState(1);
-  const [chatLogs, setChatLogs] = useState<ChatLog[]>([]);
-  const [selectedLog, setSelectedLog] = useState<ChatLog | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [messageInput, setMessageInput] = useState("");
-  const [isOnline, setIsOnline] = useState(false);
-  const chatEndRef = useRef<HTMLDivElement>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
-  const abortControllerRef = useRef<AbortController | null>(null);
-
-  const connectWebSocket = async () => {
-    // Prevent multiple connection attempts
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      console.log("WebSocket already connected, skipping new connection");
-      return;
-    }
+  const { chats, missing } = useChatStore();
+  const [agents, setAgents] = useState<AgentRef[]>([]);
+  const [customerPanelOpen, setCustomerPanelOpen] = useState(
+    () => localStorage.getItem(CUSTOMER_PANEL_KEY) === "1"
+  );
+  const [layout, setLayout] = useState<WorkspaceLayout>(() =>
+    localStorage.getItem(WORKSPACE_LAYOUT_KEY) === "split" ? "split" : "tabs"
+  );
+  const { agent } = useAuth();
+  const drafts = useDrafts();
+  const navigate = useNavigate();
+  const activeId = useParams<{ clientId: string }>().clientId ?? null;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const filters = useMemo(
+    () => parseChatFilters(searchParams),
+    [searchParams]
+  );
+  // A deep link to a conversation opens it next to whatever else is open
+  const openIds = useMemo(() => {
+    const ids = parseOpenChats(searchParams);
+    return activeId ? addOpenChat(ids, activeId) : ids;
+  }, [searchParams, activeId]);
+
+  const visibleIds = useMemo(
+    () => (layout === "split" ? openIds : activeId ? [activeId] : []),
+    [layout, openIds, activeId]
+  );
+  const visibleKey = visibleIds.join(",");
+
+  const chatList = useChatSummaries(filters);
+  const handoffQueue = useHandoffQueue(filters);
+  const slaPolicy = useSlaPolicy();
+  // Coarse clock for re-sorting; the countdowns tick by themselves
+  const now = useNow(15000);
+  // Handoff requests head the list, then overdue conversations
+  const queuedChats = useMemo(
+    () => handoffQueue.items.filter((chat) => chat.handoffRequest),
+    [handoffQueue.items]
+  );
+  const listedChats = useMemo(() => {
+    const queued = new Set(queuedChats.map((chat) => chat.clientId));
+    return [
+      ...queuedChats,
+      ...sortBySlaBreach(
+        chatList.items.filter((chat) => !queued.has(chat.clientId)),
+        slaPolicy,
+        now
+      ),
+    ];
+  }, [queuedChats, chatList.items, slaPolicy, now]);
+
+  const showChats = useCallback(
+    (clientId: string | null, ids: string[], replace = false) =>
+      navigate(
+        {
+          pathname: supportPath(clientId),
+          search: withOpenChats(searchParams, ids).toString(),
+        },
+        { replace }
+      ),
+    [navigate, searchParams]
+  );
 
-    // If we're already trying to connect, don't try again
-    if (wsRef.current?.readyState === WebSocket.CONNECTING) {
-      console.log("WebSocket connection in progress, skipping new connection");
-      return;
-    }
+  const connectionStatus = useRealtimeStatus();
 
-    // Close existing connection if any
-    if (wsRef.current) {
-      console.log("Closing existing WebSocket connection");
-      wsRef.current.close();
-      wsRef.current = null;
-    }
+  // Open tabs need a summary even when the list is filtered to other chats
+  useEffect(() => {
+    chatStore.setOpenChats(openIds);
+    return () => chatStore.setOpenChats([]);
+  }, [openIds]);
 
-    try {
-      // Create new WebSocket connection
-
-      const wsUrl = `${backendSocketUrl}/socket.io/?client-id=support`;
-      console.log("Attempting to connect to WebSocket:", wsUrl);
-      const ws = new WebSocket(wsUrl);
-      wsRef.current = ws;
-
-      let connectionTimeout: ReturnType<typeof setTimeout>;
-
-      ws.onopen = () => {
-        console.log("WebSocket connection established successfully");
-        setIsOnline(true);
-        // Clear any existing reconnect timeout
-        if (reconnectTimeoutRef.current) {
-          clearTimeout(reconnectTimeoutRef.current);
-          reconnectTimeoutRef.current = undefined;
-        }
-        // Clear connection timeout
-        if (connectionTimeout) {
-          clearTimeout(connectionTimeout);
-        }
-      };
-
-      ws.onclose = (event) => {
-        console.log("WebSocket connection closed:", {
-          code: event.code,
-          reason: event.reason,
-          wasClean: event.wasClean,
-        });
-        setIsOnline(false);
-        wsRef.current = null;
-
-        // Clear connection timeout
-        if (connectionTimeout) {
-          clearTimeout(connectionTimeout);
-        }
+  // Send replies left over from a previous page load
+  useEffect(() => outbox.resume(), []);
 
-        // Only attempt to reconnect if:
-        // 1. The connection was lost unexpectedly (not a clean close)
-        // 2. We're not already trying to reconnect
-        // 3. The component is still mounted
-        if (
-          !reconnectTimeoutRef.current &&
-          event.code !== 1000 &&
-          !event.wasClean
-        ) {
-          console.log("Scheduling reconnection attempt...");
-          reconnectTimeoutRef.current = setTimeout(() => {
-            console.log("Executing scheduled reconnection...");
-            reconnectTimeoutRef.current = undefined;
-            connectWebSocket();
-          }, WS_RECONNECT_DELAY);
-        }
-      };
-
-      ws.onerror = (error) => {
-        console.error("WebSocket error occurred:", error);
-        setIsOnline(false);
-      };
-
-      // Set a connection timeout
-      connectionTimeout = setTimeout(() => {
-        if (ws.readyState !== WebSocket.OPEN) {
-          console.log("WebSocket connection timeout");
-          ws.close();
-        }
-      }, 60000); // 10 second timeout
-
-      ws.onmessage = (event) => {
-        try {
-          const data = JSON.parse(event.data);
-          console.log("Received WebSocket message:", data);
-
-          if (data.clientId && data.message && data.type === "chatUpdated") {
-            // Update the selected log with the new message
-            const newMessage: Message = {
-              content: data.message.content,
-              sender: data.message.sender,
-              timestamp: new Date(data.message.timestamp),
-            };
-
-            // Update the selected log if it matches
-            setSelectedLog((prev) => {
-              if (!prev || prev.clientId !== data.clientId) return prev;
-              return {
-                ...prev,
-                userLogs: [...prev.userLogs, newMessage],
-                hasUnread: false,
-              };
-            });
-
-            // Update the chat logs list
-            setChatLogs((prev) =>
-              prev.map((log) =>
-                log.clientId === data.clientId
-                  ? {
-                      ...log,
-                      userLogs: [...log.userLogs, newMessage],
-                      hasUnread: log.clientId !== selectedLog?.clientId,
-                    }
-                  : log
-              )
-            );
-
-            // Scroll to bottom when new message arrives
-            setTimeout(() => {
-              chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
-            }, 100);
-          }
-        } catch (err) {
-          console.error("Error parsing WebSocket message:", err);
-        }
-      };
-    } catch (error) {
-      console.error("Error creating WebSocket connection:", error);
-      setIsOnline(false);
+  // Open the most recent conversation on first load, as before paging; only
+  // once, when the first page arrives
+  const autoSelectedRef = useRef(false);
+  useEffect(() => {
+    if (autoSelectedRef.current || chatList.loading) return;
+    autoSelectedRef.current = true;
+    const first = chatList.items[0];
+    if (openIds.length === 0 && first) {
+      showChats(first.clientId, [first.clientId], true);
     }
-  };
+  }, [chatList.loading, chatList.items, openIds, showChats]);
 
-  // WebSocket connection on component mount
-  useEffect(() => {
-    console.log("Initializing WebSocket connection");
-    connectWebSocket();
-
-    // Cleanup on unmount
-    return () => {
-      console.log("Cleaning up WebSocket connection");
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-        reconnectTimeoutRef.current = undefined;
-      }
-      if (wsRef.current) {
-        wsRef.current.close(1000, "Component unmounting");
-        wsRef.current = null;
-      }
-    };
-  }, []); // Empty dependency array - only run on mount/unmount
-
-  // Fetch chat logs on mount
   useEffect(() => {
-    // Create new AbortController for this effect
-    abortControllerRef.current = new AbortController();
-    const signal = abortControllerRef.current.signal;
-
-    const fetchLogs = async () => {
-      try {
-        setLoading(true);
-
-        const logs = await getAdminSupportLogs();
-        if (!signal.aborted) {
-          console.log("logs", logs);
-          setChatLogs(logs || []);
-          setSelectedLog((logs && logs[0]) || null);
-        }
-      } catch (error) {
-        if (!signal.aborted) {
-          console.error("Error fetching logs:", error);
+    const controller = new AbortController();
+    getAgents({ signal: controller.signal })
+      .then(setAgents)
+      .catch((error) => {
+        if (!isAbortError(error)) {
+          console.error("Error fetching agents:", error);
         }
-      } finally {
-        if (!signal.aborted) {
-          setLoading(false);
-        }
-      }
-    };
-
-    fetchLogs();
-
-    // Cleanup function
-    return () => {
-      if (abortControllerRef.current) {
-        abortControllerRef.current.abort();
-      }
-    };
+      });
+    return () => controller.abort();
   }, []);
 
-  // Pagination logic
-  const totalPages = Math.ceil(chatLogs.length / CHATS_PER_PAGE);
-  const paginatedLogs = chatLogs.slice(
-    (page - 1) * CHATS_PER_PAGE,
-    page * CHATS_PER_PAGE
-  );
-
-  // Scroll to bottom on chat change
+  // Conversations on screen are read, however they got there
   useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [selectedLog]);
-
-  const handleSendMessage = async () => {
-    if (!selectedLog || !messageInput.trim()) return;
-
-    const newMessage: Message = {
-      sender: "support",
-      content: messageInput.trim(),
-      timestamp: new Date(),
-    };
-
-    try {
-      // Update the UI immediately for better UX
-      setSelectedLog((prev) => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          userLogs: [...prev.userLogs, newMessage],
-        };
-      });
+    chatStore.setVisibleChats(visibleKey ? visibleKey.split(",") : []);
+    return () => chatStore.setVisibleChats([]);
+  }, [visibleKey]);
+
+  // Keyboard triage moves a cursor through the list; Enter opens it
+  const [cursorId, setCursorId] = useState<string | null>(null);
+  useEffect(() => setCursorId(activeId), [activeId]);
+
+  const moveCursor = (step: 1 | -1) => {
+    const items = listedChats;
+    if (items.length === 0) return;
+    const index = items.findIndex(
+      (chat) => chat.clientId === (cursorId ?? activeId)
+    );
+    const next =
+      index < 0
+        ? step > 0
+          ? 0
+          : items.length - 1
+        : Math.min(items.length - 1, Math.max(0, index + step));
+    setCursorId(items[next].clientId);
+  };
 
-      // Update the chat logs list immediately
-      setChatLogs((prev) =>
-        prev.map((log) =>
-          log.clientId === selectedLog.clientId
-            ? {
-                ...log,
-                userLogs: [...log.userLogs, newMessage],
-              }
-            : log
-        )
-      );
+  const openNextUnread = () => {
+    const items = listedChats;
+    const index = items.findIndex(
+      (chat) => chat.clientId === (cursorId ?? activeId)
+    );
+    // Search on from the cursor, wrapping around to the top
+    const next = [...items.slice(index + 1), ...items.slice(0, index + 1)].find(
+      (chat) => chat.unreadCount > 0 && chat.clientId !== activeId
+    );
+    if (next) handleSelectChat(next);
+  };
 
-      // Clear input after sending
-      setMessageInput("");
+  useShortcut("nextChat", () => moveCursor(1));
+  useShortcut("previousChat", () => moveCursor(-1));
+  useShortcut("openChat", () => {
+    const chat = listedChats.find((item) => item.clientId === cursorId);
+    if (chat && chat.clientId !== activeId) handleSelectChat(chat);
+  });
+  useShortcut("nextUnread", openNextUnread);
+
+  // Read state is kept per agent on the server; marking a conversation
+  // unread closes it so the marker sticks
+  const markUnread = (clientId: string) => {
+    chatStore.markUnread(clientId);
+    handleCloseChat(clientId);
+  };
 
-      // Send to server
-      await updateAdminChatLog({
-        newUserLog: [
+  useCommands([
+    {
+      id: "support:next-unread",
+      label: "Open next unread conversation",
+      group: "Support",
+      shortcut: "nextUnread",
+      run: openNextUnread,
+    },
+    ...(activeId
+      ? [
           {
-            ...newMessage,
-            timestamp: newMessage.timestamp.toISOString(), // Convert to ISO string for server
+            id: "support:mark-unread",
+            label: "Mark conversation unread",
+            group: "Support",
+            run: () => markUnread(activeId),
           },
-        ],
-        clientId: selectedLog.clientId,
-      });
+          {
+            id: "support:close",
+            label: "Close conversation tab",
+            group: "Support",
+            run: () => handleCloseChat(activeId),
+          },
+        ]
+      : []),
+    ...(openIds.length > 1
+      ? [
+          {
+            id: "support:layout",
+            label:
+              layout === "split"
+                ? "Show one conversation at a time"
+                : "Show open conversations side by side",
+            group: "Support",
+            run: () =>
+              handleLayoutChange(layout === "split" ? "tabs" : "split"),
+          },
+        ]
+      : []),
+    {
+      id: "support:export",
+      label: `Export ${chatList.total} matching conversations`,
+      group: "Support",
+      run: () => handleBulkExport(loadExportOptions()),
+    },
+  ]);
+
+  const handleFiltersChange = (next: ChatFilters) => {
+    setSearchParams(withOpenChats(toSearchParams(next), openIds), {
+      replace: true,
+    });
+  };
 
-      // Refresh logs after update to ensure consistency
-      const logs = await getAdminSupportLogs();
-      setChatLogs(logs || []);
-      const updatedLog = logs.find((log: any) => log._id === selectedLog._id);
-      setSelectedLog(updatedLog || logs[0] || null);
+  const handleBulkExport = async (options: TranscriptExportOptions) => {
+    try {
+      const logs = await getChatLogsForExport(filters);
+      const { filename, content, mimeType } = exportTranscripts(
+        logs,
+        options
+      );
+      downloadFile(filename, content, mimeType);
+      recordTranscriptExport({
+        clientIds: logs.map((log) => log.clientId),
+        format: options.format,
+        includeNotes: options.includeNotes,
+      }).catch((error) => console.error("Error recording export:", error));
     } catch (error) {
-      console.error("Error sending message:", error);
-      // Optionally show an error message to the user
+      console.error("Error exporting transcripts:", error);
     }
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
-    if (e.key === "Enter" && !e.shiftKey) {
-      e.preventDefault();
-      handleSendMessage();
-    }
+  // Each changed conversation also arrives as a chatTagsChanged event; the
+  // refresh picks up membership changes when the list is filtered by tag.
+  // Failures are shown by the menu.
+  const handleBulkTag = async (tag: string, action: BulkTagAction) => {
+    const updated = await bulkTagChats({
+      filters,
+      add: action === "add" ? [tag] : [],
+      remove: action === "remove" ? [tag] : [],
+    });
+    if (filters.tag) chatList.refresh();
+    return updated;
+  };
+
+  const toggleCustomerPanel = (open = !customerPanelOpen) => {
+    setCustomerPanelOpen(open);
+    localStorage.setItem(CUSTOMER_PANEL_KEY, open ? "1" : "0");
+  };
+
+  const handleLayoutChange = (next: WorkspaceLayout) => {
+    setLayout(next);
+    localStorage.setItem(WORKSPACE_LAYOUT_KEY, next);
   };
 
-  const handleSelectChat = (log: ChatLog) => {
-    setSelectedLog(log);
-    // Clear unread status when selecting a chat
-    setChatLogs((prev) =>
-      prev.map((chat) =>
-        chat.clientId === log.clientId ? { ...chat, hasUnread: false } : chat
-      )
+  const handleSelectChat = (chat: ChatSummary) => {
+    showChats(chat.clientId, addOpenChat(openIds, chat.clientId));
+  };
+
+  const handleCloseChat = (clientId: string) => {
+    const nextActive =
+      clientId === activeId ? neighbourAfterClose(openIds, clientId) : activeId;
+    showChats(
+      nextActive,
+      openIds.filter((id) => id !== clientId)
+    );
+  };
+
+  // On small screens the list replaces the conversation; tabs stay open
+  const handleBack = () => showChats(null, openIds);
+
+  const activeChat = activeId ? chats[activeId] : undefined;
+  const paneIds = layout === "split" ? openIds : activeId ? [activeId] : [];
+
+  const renderPane = (clientId: string) => {
+    const chat = chats[clientId];
+    if (!chat) {
+      return (
+        <div
+          key={clientId}
+          className="flex-1 min-w-0 flex items-center justify-center text-sm text-gray-500 p-4 text-center"
+        >
+          {missing[clientId]
+            ? `Conversation ${clientId} could not be loaded.`
+            : "Loading conversation…"}
+        </div>
+      );
+    }
+    return (
+      <ConversationPane
+        key={clientId}
+        chat={chat}
+        agents={agents}
+        highlight={filters.query}
+        active={clientId === activeId}
+        onFocus={() => {
+          if (clientId !== activeId) showChats(clientId, openIds, true);
+        }}
+        onBack={handleBack}
+        customerPanelOpen={customerPanelOpen}
+        onToggleCustomerPanel={() => toggleCustomerPanel()}
+      />
     );
   };
 
@@ -318,207 +367,105 @@ const Support: React.FC = () => {
       {/* Sidebar - Slide in/out on mobile */}
       <div
         className={`fixed md:relative inset-0 z-20 w-full md:w-80 border-r border-gray-200 flex flex-col h-full bg-white transform transition-transform duration-300 ease-in-out
-          ${
-            selectedLog ? "-translate-x-full md:translate-x-0" : "translate-x-0"
-          }`}
+          ${activeId ? "-translate-x-full md:translate-x-0" : "translate-x-0"}`}
       >
         <div className="p-4 border-b border-gray-200 flex justify-between items-center bg-white">
           <h2 className="text-lg font-semibold text-gray-800">Support Chats</h2>
-          <div className="flex items-center space-x-2">
-            <div
-              className={`w-2 h-2 rounded-full ${
-                isOnline ? "bg-green-500" : "bg-red-500"
-              }`}
+          <div className="flex items-center gap-2">
+            <ConnectionStatus status={connectionStatus} />
+            <BulkTagMenu
+              label="Tag"
+              matchCount={chatList.total}
+              disabled={chatList.total === 0}
+              onApply={handleBulkTag}
+            />
+            {/* Bulk export of everything the current filters match */}
+            <ExportMenu
+              label={`Export ${chatList.total}`}
+              disabled={chatList.total === 0}
+              onExport={handleBulkExport}
             />
-            <span className="text-sm text-gray-500">
-              {isOnline ? "Online" : "Offline"}
-            </span>
           </div>
         </div>
-        <div className="flex-1 overflow-y-auto">
-          {loading ? (
-            <div className="p-4 text-gray-500">Loading...</div>
-          ) : paginatedLogs.length === 0 ? (
-            <div className="p-4 text-gray-500">No chat logs found.</div>
-          ) : (
-            paginatedLogs.map((log) => {
-              const lastMessage = log.userLogs[log.userLogs.length - 1];
-              const lastMessageTime = lastMessage
-                ? new Date(lastMessage.timestamp)
-                : null;
-
-              return (
-                <div
-                  key={log._id}
-                  className={`p-3 cursor-pointer border-b border-gray-100 transition-all duration-300 relative
-                    ${
-                      selectedLog && selectedLog._id === log._id
-                        ? "bg-indigo-50 border-l-4 border-indigo-500"
-                        : "hover:bg-gray-50"
-                    }
-                    ${
-                      log.hasUnread
-                        ? "bg-blue-50 border-l-4 border-blue-500 animate-pulse-subtle"
-                        : ""
-                    }
-                  `}
-                  onClick={() => handleSelectChat(log)}
-                >
-                  <div className="flex justify-between items-start">
-                    <div className="flex-1 min-w-0">
-                      <div className="flex items-center space-x-2">
-                        <span className="font-medium text-gray-800 truncate">
-                          {log.chatTitle}
-                        </span>
-                        {log.hasUnread && (
-                          <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
-                            New
-                          </span>
-                        )}
-                      </div>
-                      {lastMessage && (
-                        <div className="mt-1 text-sm text-gray-600 truncate">
-                          <span className="font-medium">
-                            {lastMessage.sender}:{" "}
-                          </span>
-                          {lastMessage.content}
-                        </div>
-                      )}
-                    </div>
-                    {log.hasUnread && (
-                      <div className="flex items-center space-x-2 ml-2">
-                        <span className="w-2 h-2 bg-blue-500 rounded-full animate-pulse" />
-                      </div>
-                    )}
-                  </div>
-                  <div className="text-xs text-gray-500 mt-1 flex justify-between items-center">
-                    {lastMessageTime && (
-                      <span className="text-gray-500">
-                        {lastMessageTime.toLocaleDateString()} at{" "}
-                        {lastMessageTime.toLocaleTimeString([], {
-                          hour: "2-digit",
-                          minute: "2-digit",
-                        })}
-                      </span>
-                    )}
-                    {log.hasUnread && (
-                      <span className="text-blue-600 text-xs font-medium">
-                        Unread message
-                      </span>
-                    )}
-                  </div>
-                </div>
-              );
-            })
-          )}
-        </div>
-        <div className="p-2 flex justify-between items-center border-t border-gray-200 bg-gray-50">
-          <button
-            className="px-3 py-1.5 text-gray-600 hover:text-indigo-600 rounded disabled:opacity-40 transition-colors"
-            onClick={() => setPage((p) => Math.max(1, p - 1))}
-            disabled={page === 1}
-          >
-            Previous
-          </button>
-          <span className="text-sm text-gray-600">
-            {page} / {totalPages}
-          </span>
-          <button
-            className="px-3 py-1.5 text-gray-600 hover:text-indigo-600 rounded disabled:opacity-40 transition-colors"
-            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
-            disabled={page === totalPages}
-          >
-            Next
-          </button>
+        <div className="flex border-b border-gray-200 bg-white">
+          {VIEW_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() =>
+                handleFiltersChange({ ...filters, view: tab.value })
+              }
+              className={`flex-1 px-2 py-2 text-sm rounded-none bg-transparent border-b-2 transition-colors ${
+                filters.view === tab.value
+                  ? "border-indigo-500 text-indigo-600 font-medium"
+                  : "border-transparent text-gray-600 hover:text-indigo-600"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
         </div>
+        <ChatFilterBar
+          filters={filters}
+          onChange={handleFiltersChange}
+          resultCount={chatList.total}
+        />
+        <ChatList
+          chats={listedChats}
+          queuedCount={queuedChats.length}
+          selectedClientId={activeId}
+          cursorClientId={cursorId}
+          currentAgentId={agent?.id}
+          query={filters.query}
+          loading={chatList.loading}
+          loadingMore={chatList.loadingMore}
+          hasMore={chatList.hasMore}
+          emptyText={
+            hasActiveFilters(filters)
+              ? "No chats match your search."
+              : "No chat logs found."
+          }
+          onLoadMore={chatList.loadMore}
+          onSelect={handleSelectChat}
+        />
+        {!chatList.loading && chatList.total > 0 && (
+          <div className="p-2 text-center text-sm text-gray-600 border-t border-gray-200 bg-gray-50">
+            {chatList.items.length} of {chatList.total}
+          </div>
+        )}
       </div>
 
       {/* Chat Window */}
-      <div className="flex-1 flex flex-col h-full bg-gray-50">
-        {selectedLog ? (
-          <>
-            {/* Mobile Header with Back Button */}
-            <div className="md:hidden p-4 border-b border-gray-200 bg-white flex items-center sticky top-0 z-10 shadow-sm">
-              <button
-                onClick={() => setSelectedLog(null)}
-                className="mr-3 p-2 hover:bg-gray-100 rounded-full transition-colors"
+      <div className="flex-1 min-w-0 flex flex-col h-full bg-gray-50">
+        {openIds.length > 0 && (
+          <div className="hidden md:block">
+            <WorkspaceTabs
+              tabs={openIds.map((clientId) => ({
+                clientId,
+                title: chats[clientId]?.chatTitle ?? null,
+                unreadCount: chats[clientId]?.unreadCount ?? 0,
+                hasDraft: Boolean(drafts[clientId]?.text),
+              }))}
+              activeClientId={activeId}
+              layout={layout}
+              onSelect={(clientId) => showChats(clientId, openIds)}
+              onClose={handleCloseChat}
+              onLayoutChange={handleLayoutChange}
+            />
+          </div>
+        )}
+        {paneIds.length > 0 ? (
+          <div className="flex-1 min-h-0 flex overflow-x-auto divide-x divide-gray-200">
+            {paneIds.map((clientId) => (
+              <div
+                key={clientId}
+                className={`flex-1 min-w-0 md:min-w-[22rem] h-full flex ${
+                  clientId === activeId ? "" : "hidden md:flex"
+                }`}
               >
-                <svg
-                  className="w-5 h-5 text-gray-600"
-                  fill="none"
-                  stroke="currentColor"
-                  viewBox="0 0 24 24"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    strokeWidth={2}
-                    d="M15 19l-7-7 7-7"
-                  />
-                </svg>
-              </button>
-              <div className="flex-1 min-w-0">
-                <h2 className="text-lg font-semibold text-gray-800 truncate">
-                  {selectedLog.chatTitle}
-                </h2>
-                <div className="text-sm text-gray-500">
-                  {selectedLog.userLogs.length} messages
-                </div>
-              </div>
-            </div>
-
-            <div className="flex-1 overflow-y-auto p-4 md:p-6 flex flex-col space-y-4">
-              {selectedLog.userLogs.map((msg: any, idx: number) => (
-                <div
-                  key={idx}
-                  className={`flex ${
-                    msg.sender === "support" ? "justify-end" : "justify-start"
-                  }`}
-                >
-                  <div
-                    className={`max-w-[85%] md:max-w-lg px-4 py-2 rounded-lg ${
-                      msg.sender === "support"
-                        ? "bg-indigo-600 text-white"
-                        : "bg-white text-gray-800 shadow-sm"
-                    }`}
-                  >
-                    <div className="text-sm break-words whitespace-pre-wrap">
-                      {msg.content}
-                    </div>
-                    <div
-                      className={`text-xs mt-1 ${
-                        msg.sender === "support"
-                          ? "text-indigo-100"
-                          : "text-gray-500"
-                      }`}
-                    >
-                      {new Date(msg.timestamp).toLocaleTimeString()}
-                    </div>
-                  </div>
-                </div>
-              ))}
-              <div ref={chatEndRef} />
-            </div>
-            <div className="p-4 border-t border-gray-200 bg-white sticky bottom-0">
-              <div className="flex items-center space-x-4">
-                <input
-                  type="text"
-                  value={messageInput}
-                  onChange={(e) => setMessageInput(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  placeholder="Type your message..."
-                  className="flex-1 p-3 border border-gray-200 rounded-lg text-black bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-shadow"
-                />
-                <button
-                  className="px-4 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                  onClick={handleSendMessage}
-                  disabled={!messageInput.trim()}
-                >
-                  Send
-                </button>
+                {renderPane(clientId)}
               </div>
-            </div>
-          </>
+            ))}
+          </div>
         ) : (
           <div className="flex-1 flex items-center justify-center text-gray-500 p-4 text-center">
             <div>
@@ -546,11 +493,19 @@ const Support: React.FC = () => {
         )}
       </div>
 
+      {activeChat && customerPanelOpen && (
+        <CustomerPanel
+          clientId={activeChat.clientId}
+          currentChatId={activeChat._id}
+          onClose={() => toggleCustomerPanel(false)}
+        />
+      )}
+
       {/* Mobile Overlay */}
-      {selectedLog && (
+      {activeId && (
         <div
           className="fixed inset-0 bg-black bg-opacity-50 z-10 md:hidden"
-          onClick={() => setSelectedLog(null)}
+          onClick={handleBack}
         />
       )}
     </div>
@@ -0,0 +1,113 @@
+// Browser side effects used to signal new customer messages
+
+let audioContext: AudioContext | null = null;
+
+// Short two-note chime generated with Web Audio, so no asset is needed
+export const playChime = () => {
+  try {
+    audioContext ??= new AudioContext();
+    const ctx = audioContext;
+    [880, 1320].forEach((frequency, idx) => {
+      const start = ctx.currentTime + idx * 0.12;
+      const oscillator = ctx.createOscillator();
+      const gain = ctx.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.setValueAtTime(0.15, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.25);
+      oscillator.connect(gain).connect(ctx.destination);
+      oscillator.start(start);
+      oscillator.stop(start + 0.25);
+    });
+  } catch (error) {
+    // Autoplay policies can block audio until the page has been used
+    console.error("Error playing notification sound:", error);
+  }
+};
+
+export const canNotify = () => "Notification" in window;
+
+export const showDesktopNotification = (
+  title: string,
+  body: string,
+  { tag, onClick }: { tag: string; onClick: () => void }
+) => {
+  if (!canNotify() || Notification.permission !== "granted") return;
+  // The tag replaces an older notification for the same conversation
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+};
+
+const baseTitle = document.title;
+
+export const setTitleBadge = (count: number) => {
+  document.title = count > 0 ? `(${count}) ${baseTitle}` : baseTitle;
+};
+
+const FAVICON_SIZE = 64;
+
+const getFaviconLink = () =>
+  document.querySelector<HTMLLinkElement>("link[rel~='icon']");
+
+const baseFavicon = getFaviconLink()?.href ?? "";
+let baseFaviconImage: Promise<HTMLImageElement | null> | null = null;
+
+// The logo is drawn under the badge when its host allows CORS, otherwise
+// the badge is shown on its own
+const loadBaseFavicon = () =>
+  (baseFaviconImage ??= new Promise((resolve) => {
+    if (!baseFavicon) return resolve(null);
+    const image = new Image();
+    image.crossOrigin = "anonymous";
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = baseFavicon;
+  }));
+
+let faviconRequest = 0;
+
+export const setFaviconBadge = async (count: number) => {
+  const link = getFaviconLink();
+  if (!link) return;
+  const request = ++faviconRequest;
+  if (count === 0) {
+    link.href = baseFavicon;
+    return;
+  }
+
+  const image = await loadBaseFavicon();
+  // A newer count arrived while the logo was loading
+  if (request !== faviconRequest) return;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = FAVICON_SIZE;
+  canvas.height = FAVICON_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  if (image) ctx.drawImage(image, 0, 0, FAVICON_SIZE, FAVICON_SIZE);
+
+  const radius = image ? FAVICON_SIZE * 0.3 : FAVICON_SIZE / 2;
+  const center = FAVICON_SIZE - radius;
+  ctx.fillStyle = "#ef4444";
+  ctx.beginPath();
+  ctx.arc(center, image ? radius : center, radius, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.fillStyle = "#ffffff";
+  ctx.font = `bold ${Math.round(radius * 1.2)}px sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.fillText(
+    count > 9 ? "9+" : String(count),
+    center,
+    image ? radius : center
+  );
+
+  try {
+    link.href = canvas.toDataURL("image/png");
+  } catch {
+    // Tainted canvas; keep the current icon
+  }
+};
@@ -0,0 +1,92 @@
+import type { Attachment } from "../lib/types";
+
+// Kept in step with the backend limits so files are rejected before upload
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+const ALLOWED_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "application/json",
+  "application/zip",
+  "text/plain",
+  "text/csv",
+];
+
+// Browsers report no type for some files, e.g. .log
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  log: "text/plain",
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  zip: "application/zip",
+  pdf: "application/pdf",
+};
+
+// Accept list for the file picker
+export const ATTACHMENT_ACCEPT = [
+  ...ALLOWED_MIME_TYPES,
+  ...Object.keys(TYPES_BY_EXTENSION).map((ext) => `.${ext}`),
+].join(",");
+
+export const getMimeType = (file: File) => {
+  if (file.type) return file.type;
+  const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+  return TYPES_BY_EXTENSION[ext] ?? "application/octet-stream";
+};
+
+const SAFE_URL_PROTOCOLS = ["http:", "https:", "blob:"];
+
+// Attachment URLs arrive from customers, so only plain web URLs, paths on
+// this origin and this page's own blob URLs are used; anything that could
+// run script here (javascript:, data:) is not
+export const toSafeAttachmentUrl = (raw: string): string | null => {
+  try {
+    const url = new URL(raw, window.location.origin);
+    if (!SAFE_URL_PROTOCOLS.includes(url.protocol)) return null;
+    if (url.protocol === "blob:" && url.origin !== window.location.origin) {
+      return null;
+    }
+    return url.href;
+  } catch {
+    return null;
+  }
+};
+
+export const isImageAttachment = (attachment: Pick<Attachment, "mimeType">) =>
+  attachment.mimeType.startsWith("image/");
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Why a file cannot be attached, or null when it can
+export const validateAttachment = (file: File): string | null => {
+  if (!ALLOWED_MIME_TYPES.includes(getMimeType(file))) {
+    return `${file.name}: this file type is not supported.`;
+  }
+  if (file.size === 0) return `${file.name} is empty.`;
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name} is larger than ${formatFileSize(
+      MAX_ATTACHMENT_BYTES
+    )}.`;
+  }
+  return null;
+};
+
+// Contents without the "data:...;base64," prefix, for the JSON upload body
+export const readFileAsBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = String(reader.result);
+      resolve(result.slice(result.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
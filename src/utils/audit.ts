@@ -0,0 +1,83 @@
+import type { AuditAction, AuditEntry } from "../lib/types";
+import { toCsv } from "./csv";
+
+export const AUDIT_ACTIONS: { value: AuditAction; label: string }[] = [
+  { value: "message.sent", label: "Reply sent" },
+  { value: "note.added", label: "Note added" },
+  { value: "chat.status_changed", label: "Status changed" },
+  { value: "chat.assigned", label: "Assignment changed" },
+  { value: "chat.taken_over", label: "Taken over from AI" },
+  { value: "chat.handed_back", label: "Handed back to AI" },
+  { value: "customer.updated", label: "Customer edited" },
+  { value: "transcript.exported", label: "Transcript exported" },
+  { value: "sla_policy.updated", label: "Response targets changed" },
+  { value: "chat.tags_changed", label: "Tags changed" },
+  { value: "tag.saved", label: "Tag saved" },
+  { value: "tag.deleted", label: "Tag deleted" },
+];
+
+export const getAuditActionLabel = (action: AuditAction) =>
+  AUDIT_ACTIONS.find((item) => item.value === action)?.label ?? action;
+
+export interface AuditFilters {
+  agentId: string | null;
+  action: AuditAction | null;
+  // Local YYYY-MM-DD days, inclusive
+  from: string | null;
+  to: string | null;
+}
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDay = (value: string | null) =>
+  value && DAY_KEY_PATTERN.test(value) ? value : null;
+
+// Like the chat filters, these live in the query string
+export const parseAuditFilters = (params: URLSearchParams): AuditFilters => {
+  const action = params.get("action") as AuditAction;
+  return {
+    agentId: params.get("agent") || null,
+    action: AUDIT_ACTIONS.some((item) => item.value === action)
+      ? action
+      : null,
+    from: readDay(params.get("from")),
+    to: readDay(params.get("to")),
+  };
+};
+
+export const toAuditSearchParams = (filters: AuditFilters) => {
+  const params = new URLSearchParams();
+  if (filters.agentId) params.set("agent", filters.agentId);
+  if (filters.action) params.set("action", filters.action);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  return params;
+};
+
+// Compact one-line form of a before/after value for the table and CSV
+export const formatAuditValue = (value: unknown) =>
+  value === null || value === undefined ? "" : JSON.stringify(value);
+
+const AUDIT_CSV_COLUMNS = [
+  "timestamp",
+  "agentId",
+  "agentName",
+  "action",
+  "clientId",
+  "before",
+  "after",
+];
+
+export const auditEntriesToCsv = (entries: AuditEntry[]) =>
+  toCsv(
+    AUDIT_CSV_COLUMNS,
+    entries.map((entry) => [
+      new Date(entry.timestamp).toISOString(),
+      entry.agent.id,
+      entry.agent.name,
+      entry.action,
+      entry.clientId ?? "",
+      formatAuditValue(entry.before),
+      formatAuditValue(entry.after),
+    ])
+  );
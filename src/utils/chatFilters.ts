@@ -0,0 +1,153 @@
+import type { ChatLog, Message } from "../lib/types";
+import { isActiveChat } from "./chatStatus";
+import { describeMessage, getSenderRole, isAwaitingReply } from "./messages";
+import { isMentioned } from "./notes";
+import { parseDayKey } from "./supportMetrics";
+
+export type SenderFilter = "all" | "customer" | "bot" | "support";
+
+const SENDER_FILTERS: SenderFilter[] = ["customer", "bot", "support"];
+
+// Sidebar tabs: the first three only show open / pending conversations.
+// "any" is every conversation whatever its status, for search.
+export type ChatView = "mine" | "unassigned" | "all" | "resolved" | "any";
+
+const CHAT_VIEWS: ChatView[] = [
+  "mine",
+  "unassigned",
+  "all",
+  "resolved",
+  "any",
+];
+
+export interface ChatFilters {
+  view: ChatView;
+  query: string;
+  sender: SenderFilter;
+  // Local YYYY-MM-DD days, inclusive
+  from: string | null;
+  to: string | null;
+  unreadOnly: boolean;
+  awaitingReply: boolean;
+  // Only conversations where a note mentions the current agent
+  mentionedOnly: boolean;
+  tag: string | null;
+}
+
+export const DEFAULT_CHAT_FILTERS: ChatFilters = {
+  view: "all",
+  query: "",
+  sender: "all",
+  from: null,
+  to: null,
+  unreadOnly: false,
+  awaitingReply: false,
+  mentionedOnly: false,
+  tag: null,
+};
+
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const readDay = (value: string | null) =>
+  value && DAY_KEY_PATTERN.test(value) ? value : null;
+
+// Filters live in the query string so a search can be shared as a link
+export const parseChatFilters = (params: URLSearchParams): ChatFilters => {
+  const sender = params.get("sender") as SenderFilter;
+  const view = params.get("view") as ChatView;
+  return {
+    view: CHAT_VIEWS.includes(view) ? view : "all",
+    query: params.get("q") ?? "",
+    sender: SENDER_FILTERS.includes(sender) ? sender : "all",
+    from: readDay(params.get("from")),
+    to: readDay(params.get("to")),
+    unreadOnly: params.get("unread") === "1",
+    awaitingReply: params.get("awaiting") === "1",
+    mentionedOnly: params.get("mentioned") === "1",
+    tag: params.get("tag") || null,
+  };
+};
+
+export const toSearchParams = (filters: ChatFilters) => {
+  const params = new URLSearchParams();
+  if (filters.view !== "all") params.set("view", filters.view);
+  if (filters.query) params.set("q", filters.query);
+  if (filters.sender !== "all") params.set("sender", filters.sender);
+  if (filters.from) params.set("from", filters.from);
+  if (filters.to) params.set("to", filters.to);
+  if (filters.unreadOnly) params.set("unread", "1");
+  if (filters.awaitingReply) params.set("awaiting", "1");
+  if (filters.mentionedOnly) params.set("mentioned", "1");
+  if (filters.tag) params.set("tag", filters.tag);
+  return params;
+};
+
+// The view tab is not a filter the "Clear" button resets
+export const hasActiveFilters = (filters: ChatFilters) =>
+  toSearchParams({ ...filters, view: "all" }).toString() !== "";
+
+const matchesView = (log: ChatLog, view: ChatView, agentId?: string) => {
+  if (view === "any") return true;
+  if (view === "resolved") return !isActiveChat(log);
+  if (!isActiveChat(log)) return false;
+  if (view === "mine") return !!agentId && log.assignee?.id === agentId;
+  if (view === "unassigned") return !log.assignee;
+  return true;
+};
+
+export const matchesQuery = (text: string, query: string) =>
+  text.toLowerCase().includes(query.trim().toLowerCase());
+
+// Start of the day after `key`, so the "to" day is included
+const endOfDay = (key: string) => {
+  const day = parseDayKey(key);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+};
+
+const createMessageMatcher = (filters: ChatFilters) => {
+  const from = filters.from ? parseDayKey(filters.from).getTime() : null;
+  const to = filters.to ? endOfDay(filters.to).getTime() : null;
+
+  return (msg: Message) => {
+    if (filters.sender !== "all") {
+      const role = getSenderRole(msg.sender);
+      const wanted = filters.sender === "support" ? "agent" : filters.sender;
+      if (role !== wanted) return false;
+    }
+    const time = new Date(msg.timestamp).getTime();
+    if (from !== null && time < from) return false;
+    if (to !== null && time >= to) return false;
+    return true;
+  };
+};
+
+export const filterChatLogs = <T extends ChatLog>(
+  logs: T[],
+  filters: ChatFilters,
+  agentId?: string
+) => {
+  const query = filters.query.trim();
+  const messageFilterActive =
+    filters.sender !== "all" || filters.from !== null || filters.to !== null;
+  const messageMatches = createMessageMatcher(filters);
+
+  return logs.filter((log) => {
+    if (!matchesView(log, filters.view, agentId)) return false;
+    if (filters.unreadOnly && !log.hasUnread) return false;
+    if (filters.awaitingReply && !isAwaitingReply(log)) return false;
+    if (filters.mentionedOnly && !isMentioned(log, agentId)) return false;
+    if (filters.tag && !(log.tags ?? []).includes(filters.tag)) return false;
+
+    const candidates = messageFilterActive
+      ? log.userLogs.filter(messageMatches)
+      : log.userLogs;
+    if (messageFilterActive && candidates.length === 0) return false;
+
+    if (!query) return true;
+    return (
+      matchesQuery(log.chatTitle, query) ||
+      matchesQuery(log.clientId, query) ||
+      candidates.some((msg) => matchesQuery(describeMessage(msg), query))
+    );
+  });
+};
@@ -0,0 +1,33 @@
+import type { ChatLog, ChatStatus } from "../lib/types";
+
+export const CHAT_STATUS_OPTIONS: {
+  value: ChatStatus;
+  label: string;
+  className: string;
+}[] = [
+  { value: "open", label: "Open", className: "bg-green-100 text-green-800" },
+  {
+    value: "pending_customer",
+    label: "Pending customer",
+    className: "bg-yellow-100 text-yellow-800",
+  },
+  {
+    value: "resolved",
+    label: "Resolved",
+    className: "bg-gray-100 text-gray-700",
+  },
+  { value: "closed", label: "Closed", className: "bg-gray-200 text-gray-600" },
+];
+
+export const getChatStatus = (log: Pick<ChatLog, "status">): ChatStatus =>
+  log.status ?? "open";
+
+export const getStatusOption = (status: ChatStatus) =>
+  CHAT_STATUS_OPTIONS.find((option) => option.value === status) ??
+  CHAT_STATUS_OPTIONS[0];
+
+// Resolved and closed conversations leave the working queues
+export const isActiveChat = (log: Pick<ChatLog, "status">) => {
+  const status = getChatStatus(log);
+  return status === "open" || status === "pending_customer";
+};
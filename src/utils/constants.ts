@@ -1,2 +0,0 @@
-export const backendSocketUrl = "wss://api.sayy.ai";
-export const backendUrl = "https://api.sayy.ai";
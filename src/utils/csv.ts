@@ -0,0 +1,11 @@
+// Quote every cell and defuse spreadsheet formulas in customer text
+export const csvCell = (value: string) => {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+// A header row plus data rows, CRLF-terminated per RFC 4180
+export const toCsv = (columns: string[], rows: string[][]) =>
+  [columns.join(","), ...rows.map((row) => row.map(csvCell).join(","))].join(
+    "\r\n"
+  ) + "\r\n";
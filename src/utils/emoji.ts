@@ -0,0 +1,43 @@
+// Slack/GitHub-style :shortcodes: our bot and agents use most often
+const EMOJI_SHORTCODES: Record<string, string> = {
+  "+1": "👍",
+  "-1": "👎",
+  "100": "💯",
+  blush: "😊",
+  clap: "👏",
+  confused: "😕",
+  cry: "😢",
+  eyes: "👀",
+  fire: "🔥",
+  grin: "😁",
+  heart: "❤️",
+  hourglass: "⏳",
+  info: "ℹ️",
+  joy: "😂",
+  laughing: "😆",
+  ok_hand: "👌",
+  package: "📦",
+  pray: "🙏",
+  rocket: "🚀",
+  slightly_smiling_face: "🙂",
+  smile: "😄",
+  smiley: "😃",
+  sparkles: "✨",
+  star: "⭐",
+  sweat_smile: "😅",
+  tada: "🎉",
+  thinking: "🤔",
+  thumbsdown: "👎",
+  thumbsup: "👍",
+  warning: "⚠️",
+  wave: "👋",
+  white_check_mark: "✅",
+  wink: "😉",
+  x: "❌",
+};
+
+// The emoji for a shortcode name (without colons), if we know it
+export const getEmoji = (name: string): string | undefined =>
+  Object.prototype.hasOwnProperty.call(EMOJI_SHORTCODES, name)
+    ? EMOJI_SHORTCODES[name]
+    : undefined;
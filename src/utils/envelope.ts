@@ -0,0 +1,141 @@
+import CryptoJS from "crypto-js";
+
+// Versioned payload envelope for request and response bodies. Version 2 is
+// AES-256-CBC with a random IV per message, authenticated with HMAC-SHA256
+// over the version, IV and ciphertext (encrypt-then-MAC). Both keys are
+// derived from the session's encryption key with HKDF-SHA256, so the raw
+// key string is never used as a cipher key.
+//
+// Version 1 is the old AES-ECB `{ data }` body without integrity. It is
+// still readable here so the backend can accept both during the migration.
+
+export const ENVELOPE_VERSION = 2;
+
+export interface SealedEnvelope {
+  v: typeof ENVELOPE_VERSION;
+  // Base64
+  iv: string;
+  data: string;
+  mac: string;
+}
+
+export interface LegacyEnvelope {
+  v?: 1;
+  data: string;
+}
+
+export class EnvelopeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EnvelopeError";
+  }
+}
+
+type WordArray = CryptoJS.lib.WordArray;
+
+const IV_BYTES = 16;
+const ENCRYPTION_INFO = "sayy-envelope-v2 aes-256-cbc";
+const MAC_INFO = "sayy-envelope-v2 hmac-sha256";
+
+// HKDF-SHA256 (RFC 5869) with an empty salt; a 32-byte output is a single
+// expand block
+const hkdf = (secret: string, info: string): WordArray => {
+  const salt = CryptoJS.lib.WordArray.create(new Array(8).fill(0), 32);
+  const prk = CryptoJS.HmacSHA256(CryptoJS.enc.Utf8.parse(secret), salt);
+  const counter = CryptoJS.lib.WordArray.create([0x01000000], 1);
+  return CryptoJS.HmacSHA256(
+    CryptoJS.enc.Utf8.parse(info).concat(counter),
+    prk
+  );
+};
+
+const deriveKeys = (secret: string) => ({
+  encryptionKey: hkdf(secret, ENCRYPTION_INFO),
+  macKey: hkdf(secret, MAC_INFO),
+});
+
+const macInput = (iv: string, data: string) =>
+  `${ENVELOPE_VERSION}.${iv}.${data}`;
+
+// Compares every character so the time taken does not reveal a prefix match
+const constantTimeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const isSealedEnvelope = (value: unknown): value is SealedEnvelope =>
+  typeof value === "object" &&
+  value !== null &&
+  (value as { v?: unknown }).v === ENVELOPE_VERSION;
+
+// `iv` is only passed by the test vectors; real messages get a random one
+export const sealEnvelope = (
+  payload: unknown,
+  secret: string,
+  iv: WordArray = CryptoJS.lib.WordArray.random(IV_BYTES)
+): SealedEnvelope => {
+  const { encryptionKey, macKey } = deriveKeys(secret);
+  const encrypted = CryptoJS.AES.encrypt(
+    JSON.stringify(payload),
+    encryptionKey,
+    { iv, mode: CryptoJS.mode.CBC, padding: CryptoJS.pad.Pkcs7 }
+  );
+  const ivText = CryptoJS.enc.Base64.stringify(iv);
+  const data = CryptoJS.enc.Base64.stringify(encrypted.ciphertext);
+  return {
+    v: ENVELOPE_VERSION,
+    iv: ivText,
+    data,
+    mac: CryptoJS.enc.Base64.stringify(
+      CryptoJS.HmacSHA256(macInput(ivText, data), macKey)
+    ),
+  };
+};
+
+// Checks the MAC before decrypting; throws EnvelopeError on any mismatch
+export const openEnvelope = <T>(envelope: SealedEnvelope, secret: string) => {
+  const { encryptionKey, macKey } = deriveKeys(secret);
+  const { iv, data, mac } = envelope;
+  if (![iv, data, mac].every((part) => typeof part === "string")) {
+    throw new EnvelopeError("Malformed envelope");
+  }
+  const expected = CryptoJS.enc.Base64.stringify(
+    CryptoJS.HmacSHA256(macInput(iv, data), macKey)
+  );
+  if (!constantTimeEqual(mac, expected)) {
+    throw new EnvelopeError("Envelope failed verification");
+  }
+  try {
+    const decrypted = CryptoJS.AES.decrypt(
+      CryptoJS.lib.CipherParams.create({
+        ciphertext: CryptoJS.enc.Base64.parse(data),
+      }),
+      encryptionKey,
+      {
+        iv: CryptoJS.enc.Base64.parse(iv),
+        mode: CryptoJS.mode.CBC,
+        padding: CryptoJS.pad.Pkcs7,
+      }
+    );
+    return JSON.parse(decrypted.toString(CryptoJS.enc.Utf8)) as T;
+  } catch {
+    throw new EnvelopeError("Envelope could not be decrypted");
+  }
+};
+
+// Version 1: AES-ECB keyed with the raw UTF-8 key string
+export const openLegacyEnvelope = <T>(
+  envelope: LegacyEnvelope,
+  secret: string
+) => {
+  const decrypted = CryptoJS.AES.decrypt(
+    envelope.data,
+    CryptoJS.enc.Utf8.parse(secret),
+    { mode: CryptoJS.mode.ECB }
+  );
+  return JSON.parse(decrypted.toString(CryptoJS.enc.Utf8)) as T;
+};
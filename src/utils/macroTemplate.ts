@@ -0,0 +1,28 @@
+import type { Agent } from "../lib/session";
+import type { ChatLog } from "../lib/types";
+
+export type MacroVariables = Record<string, string>;
+
+// Placeholders offered in the macro editor
+export const MACRO_PLACEHOLDERS = [
+  "chatTitle",
+  "clientId",
+  "agentName",
+  "agentEmail",
+];
+
+export const buildMacroVariables = (
+  log: Pick<ChatLog, "chatTitle" | "clientId"> | null,
+  agent: Agent | null
+): MacroVariables => ({
+  chatTitle: log?.chatTitle ?? "",
+  clientId: log?.clientId ?? "",
+  agentName: agent?.name ?? "",
+  agentEmail: agent?.email ?? "",
+});
+
+// Replace {{name}} placeholders; unknown ones are left for the agent to fill
+export const renderMacro = (content: string, variables: MacroVariables) =>
+  content.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name] : match
+  );
@@ -0,0 +1,211 @@
+import { getEmoji } from "./emoji";
+
+// A small markdown subset for chat messages. It parses into a tree that is
+// rendered as React elements, so no HTML from a message ever reaches the DOM.
+
+export type InlineNode =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: InlineNode[] }
+  | { type: "em"; children: InlineNode[] }
+  | { type: "code"; text: string }
+  | { type: "link"; href: string; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: "paragraph"; children: InlineNode[] }
+  | { type: "heading"; children: InlineNode[] }
+  | { type: "quote"; children: InlineNode[] }
+  | { type: "list"; ordered: boolean; start: number; items: InlineNode[][] }
+  | { type: "code"; language: string; text: string };
+
+const SAFE_PROTOCOLS = ["http:", "https:", "mailto:"];
+
+// Links that could run script (javascript:, data:) are shown as plain text
+export const toSafeHref = (raw: string): string | null => {
+  const candidate = /^www\./i.test(raw) ? `https://${raw}` : raw;
+  try {
+    const url = new URL(candidate);
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null;
+  } catch {
+    return null;
+  }
+};
+
+// Earliest match wins; at the same position the first alternative does, so
+// ** is tried before *
+const INLINE_PATTERN = new RegExp(
+  [
+    "`(?<code>[^`\\n]+)`",
+    "\\[(?<linkText>[^\\]\\n]+)\\]\\((?<linkHref>[^)\\s]+)\\)",
+    "(?<url>\\b(?:https?:\\/\\/|www\\.)[^\\s<>\"]+)",
+    "\\*\\*(?<strong>\\S(?:[\\s\\S]*?\\S)?)\\*\\*",
+    "(?<![\\w])__(?<strongAlt>\\S(?:[\\s\\S]*?\\S)?)__(?![\\w])",
+    "\\*(?<em>[^*\\s](?:[^*]*?[^*\\s])?)\\*",
+    "(?<![\\w])_(?<emAlt>[^_\\s](?:[^_]*?[^_\\s])?)_(?![\\w])",
+    ":(?<emoji>[a-z0-9_+-]+):",
+  ].join("|"),
+  "g"
+);
+
+// Sentence punctuation right after a URL is not part of it
+const trimUrl = (url: string) => {
+  let end = url.length;
+  while (end > 0 && /[.,:;!?'")\]]/.test(url[end - 1])) {
+    // Keep a closing parenthesis that belongs to the URL
+    if (url[end - 1] === ")") {
+      const opened = url.slice(0, end).split("(").length - 1;
+      const closed = url.slice(0, end).split(")").length - 1;
+      if (opened >= closed) break;
+    }
+    end--;
+  }
+  return url.slice(0, end);
+};
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  const pushText = (value: string) => {
+    if (!value) return;
+    const last = nodes[nodes.length - 1];
+    if (last?.type === "text") last.text += value;
+    else nodes.push({ type: "text", text: value });
+  };
+
+  const pattern = new RegExp(INLINE_PATTERN.source, "g");
+  let index = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text))) {
+    const groups = match.groups ?? {};
+    let raw = match[0];
+    let node: InlineNode | null = null;
+
+    if (groups.code !== undefined) {
+      node = { type: "code", text: groups.code };
+    } else if (groups.linkText !== undefined) {
+      const href = toSafeHref(groups.linkHref);
+      node = href
+        ? { type: "link", href, children: parseInline(groups.linkText) }
+        : null;
+    } else if (groups.url !== undefined) {
+      raw = trimUrl(groups.url);
+      const href = toSafeHref(raw);
+      node = href
+        ? { type: "link", href, children: [{ type: "text", text: raw }] }
+        : null;
+      pattern.lastIndex = match.index + raw.length;
+    } else if ((groups.strong ?? groups.strongAlt) !== undefined) {
+      node = {
+        type: "strong",
+        children: parseInline(groups.strong ?? groups.strongAlt),
+      };
+    } else if ((groups.em ?? groups.emAlt) !== undefined) {
+      node = { type: "em", children: parseInline(groups.em ?? groups.emAlt) };
+    } else if (groups.emoji !== undefined) {
+      const emoji = getEmoji(groups.emoji);
+      node = emoji ? { type: "text", text: emoji } : null;
+    }
+
+    pushText(text.slice(index, match.index));
+    if (node?.type === "text") pushText(node.text);
+    else if (node) nodes.push(node);
+    else pushText(raw);
+    index = match.index + raw.length;
+  }
+  pushText(text.slice(index));
+  return nodes;
+};
+
+const FENCE = /^\s*```\s*([\w+-]*)\s*$/;
+const BULLET_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+const HEADING = /^\s*#{1,6}\s+(.*)$/;
+const QUOTE = /^\s*>\s?(.*)$/;
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) ||
+  BULLET_ITEM.test(line) ||
+  ORDERED_ITEM.test(line) ||
+  HEADING.test(line) ||
+  QUOTE.test(line);
+
+export const parseMarkdown = (source: string): BlockNode[] => {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      // An unclosed fence runs to the end of the message
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i++]);
+      }
+      i++;
+      blocks.push({ type: "code", language: fence[1], text: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push({ type: "heading", children: parseInline(heading[1]) });
+      i++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      let quote: RegExpExecArray | null;
+      while (i < lines.length && (quote = QUOTE.exec(lines[i]))) {
+        quoted.push(quote[1]);
+        i++;
+      }
+      blocks.push({ type: "quote", children: parseInline(quoted.join("\n")) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || BULLET_ITEM.test(line)) {
+      const itemPattern = ordered ? ORDERED_ITEM : BULLET_ITEM;
+      const items: string[] = [];
+      const start = ordered ? Number(ORDERED_ITEM.exec(line)?.[1]) : 1;
+      while (i < lines.length) {
+        const item = itemPattern.exec(lines[i]);
+        if (item) {
+          items.push(ordered ? item[2] : item[1]);
+        } else if (/^\s+\S/.test(lines[i]) && !startsBlock(lines[i])) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += `\n${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({
+        type: "list",
+        ordered,
+        start,
+        items: items.map(parseInline),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+};
@@ -0,0 +1,65 @@
+import type { ChatLog, Message } from "../lib/types";
+
+// Who wrote a message. The AI bot answers until an agent takes over; any
+// other sender is the customer.
+export type SenderRole = "customer" | "bot" | "agent";
+
+export const BOT_SENDER = "bot";
+
+export const SENDER_ROLE_LABELS: Record<SenderRole, string> = {
+  customer: "Customer",
+  bot: "AI bot",
+  agent: "Agent",
+};
+
+export const getSenderRole = (sender: string): SenderRole =>
+  sender === "support"
+    ? "agent"
+    : sender === BOT_SENDER
+    ? "bot"
+    : "customer";
+
+// "AI bot", "Customer", or the sending agent's name when it is known
+export const getSenderLabel = (message: Message) => {
+  const role = getSenderRole(message.sender);
+  return role === "agent" && message.agent
+    ? message.agent.name
+    : SENDER_ROLE_LABELS[role];
+};
+
+// A human agent's reply
+export const isSupportMessage = (sender: string) => sender === "support";
+
+export const isBotMessage = (sender: string) => sender === BOT_SENDER;
+
+export const isCustomerMessage = (sender: string) =>
+  getSenderRole(sender) === "customer";
+
+export const getLastMessage = (log: ChatLog) =>
+  log.userLogs[log.userLogs.length - 1];
+
+// When the customer started waiting for a human: their first message since
+// the last agent reply, or null when nobody is waiting. Bot answers do not
+// end the wait.
+export const getAwaitingReplySince = (messages: Message[]) => {
+  let since: string | null = null;
+  for (const message of messages) {
+    if (isSupportMessage(message.sender)) since = null;
+    else if (isCustomerMessage(message.sender)) since ??= message.timestamp;
+  }
+  return since;
+};
+
+// True when the customer has written since the last agent reply
+export const isAwaitingReply = (log: ChatLog) =>
+  getAwaitingReplySince(log.userLogs) !== null;
+
+// Message text with attachment names, for previews, search and exports
+export const describeMessage = (message: Message) =>
+  [message.content, ...(message.attachments ?? []).map((a) => `[${a.name}]`)]
+    .filter(Boolean)
+    .join(" ");
+
+// Stable identity for a message; older messages have no id
+export const messageKey = (message: Message) =>
+  message.id ?? `${message.timestamp}|${message.sender}|${message.content}`;
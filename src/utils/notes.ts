@@ -0,0 +1,33 @@
+import type { AgentRef, ChatLog, InternalNote, Message } from "../lib/types";
+
+export type TimelineItem =
+  | { kind: "message"; message: Message }
+  | { kind: "note"; note: InternalNote };
+
+// Ids of agents mentioned as "@Full Name" in a note
+export const extractMentions = (content: string, agents: AgentRef[]) =>
+  agents
+    .filter((agent) =>
+      content.toLowerCase().includes(`@${agent.name.toLowerCase()}`)
+    )
+    .map((agent) => agent.id);
+
+export const isMentioned = (
+  log: Pick<ChatLog, "mentionedAgentIds">,
+  agentId?: string
+) =>
+  !!agentId && !!log.mentionedAgentIds?.includes(agentId);
+
+// Customer messages and internal notes interleaved by time
+export const buildTimeline = (log: ChatLog): TimelineItem[] => {
+  const items: TimelineItem[] = [
+    ...log.userLogs.map((message) => ({ kind: "message" as const, message })),
+    ...(log.notes ?? []).map((note) => ({ kind: "note" as const, note })),
+  ];
+  const timeOf = (item: TimelineItem) =>
+    new Date(
+      item.kind === "message" ? item.message.timestamp : item.note.timestamp
+    ).getTime();
+  // Array sort is stable, so equal times keep messages before notes
+  return items.sort((a, b) => timeOf(a) - timeOf(b));
+};
@@ -0,0 +1,57 @@
+// Bindings are strings like "j", "?", "Shift+Enter" or "Mod+k", where Mod is
+// Cmd on a Mac and Ctrl elsewhere.
+
+const MODIFIER_KEYS = ["Shift", "Control", "Alt", "Meta"];
+
+const isMac = () => /Mac|iPhone|iPad/.test(navigator.platform);
+
+// The binding a key press stands for; null for a lone modifier. Shift is
+// part of printable keys already ("?" rather than "Shift+/").
+export const keyFromEvent = (e: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  const printable = e.key.length === 1;
+  const parts: string[] = [];
+  if (e.ctrlKey || e.metaKey) parts.push("Mod");
+  if (e.altKey) parts.push("Alt");
+  if (e.shiftKey && !printable) parts.push("Shift");
+  parts.push(printable && parts.includes("Mod") ? e.key.toLowerCase() : e.key);
+  return parts.join("+");
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Escape: "Esc",
+};
+
+// Display form, e.g. "⌘ K" on a Mac and "Ctrl K" elsewhere
+export const formatShortcut = (binding: string) =>
+  binding
+    .split("+")
+    .map((part, idx, parts) => {
+      // "Mod++" binds the plus key itself
+      if (part === "" && idx === parts.length - 1) return "+";
+      if (part === " ") return "Space";
+      if (part === "Mod") return isMac() ? "⌘" : "Ctrl";
+      if (part === "Alt") return isMac() ? "⌥" : "Alt";
+      // A capital letter is typed with Shift
+      if (/^[A-Z]$/.test(part)) return `Shift ${part}`;
+      if (part.length === 1) return part.toUpperCase();
+      return KEY_LABELS[part] ?? part;
+    })
+    .filter(Boolean)
+    .join(" ");
+
+// Typing in a field never triggers single-key shortcuts
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+// Enter and Space already activate focused buttons and links
+export const isActivationTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (["BUTTON", "A"].includes(target.tagName) ||
+    target.getAttribute("role") === "tab");
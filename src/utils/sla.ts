@@ -0,0 +1,130 @@
+import type {
+  ChatPriority,
+  ChatSummary,
+  SlaKind,
+  SlaPolicy,
+  SlaTargets,
+} from "../lib/types";
+import { getChatStatus } from "./chatStatus";
+import { formatDuration } from "./supportMetrics";
+
+// Response-time targets for conversations waiting on an agent. Shared with
+// the mock backend, which records breaches with the same rules.
+
+export const DEFAULT_SLA_POLICY: SlaPolicy = {
+  defaults: { firstResponseMinutes: 15, nextResponseMinutes: 30 },
+  warnAtPercent: 75,
+  rules: [],
+};
+
+export const CHAT_PRIORITIES: { value: ChatPriority; label: string }[] = [
+  { value: "low", label: "Low" },
+  { value: "normal", label: "Normal" },
+  { value: "high", label: "High" },
+  { value: "urgent", label: "Urgent" },
+];
+
+export const SLA_KIND_LABELS: Record<SlaKind, string> = {
+  first_response: "First response",
+  next_response: "Next response",
+};
+
+export type SlaLevel = "ok" | "warning" | "breached";
+
+export interface SlaState {
+  kind: SlaKind;
+  targetMinutes: number;
+  waitingSince: string;
+  dueAt: number;
+  // Negative once the target has passed
+  remainingMs: number;
+  level: SlaLevel;
+}
+
+type SlaSubject = Pick<
+  ChatSummary,
+  "status" | "priority" | "tags" | "awaitingReplySince" | "firstResponseAt"
+>;
+
+export const findSlaTargets = (
+  policy: SlaPolicy,
+  chat: Pick<SlaSubject, "priority" | "tags">
+): SlaTargets =>
+  policy.rules.find(
+    (rule) =>
+      (rule.tag || rule.priority) &&
+      (!rule.tag || (chat.tags ?? []).includes(rule.tag)) &&
+      (!rule.priority || (chat.priority ?? "normal") === rule.priority)
+  ) ?? policy.defaults;
+
+// Only open conversations where the customer waits for a human count;
+// pending, resolved and closed ones wait on the customer or no one. A bot
+// answer does not stop the clock.
+export const getSlaState = (
+  chat: SlaSubject,
+  policy: SlaPolicy,
+  now = Date.now()
+): SlaState | null => {
+  const since = chat.awaitingReplySince;
+  if (getChatStatus(chat) !== "open" || !since) return null;
+  const waitingSince = new Date(since).getTime();
+  if (Number.isNaN(waitingSince)) return null;
+
+  const targets = findSlaTargets(policy, chat);
+  const kind: SlaKind =
+    chat.firstResponseAt === null ? "first_response" : "next_response";
+  const targetMinutes =
+    kind === "first_response"
+      ? targets.firstResponseMinutes
+      : targets.nextResponseMinutes;
+  const targetMs = targetMinutes * 60000;
+  const dueAt = waitingSince + targetMs;
+  const remainingMs = dueAt - now;
+  const level: SlaLevel =
+    remainingMs <= 0
+      ? "breached"
+      : now - waitingSince >= (targetMs * policy.warnAtPercent) / 100
+      ? "warning"
+      : "ok";
+  return {
+    kind,
+    targetMinutes,
+    waitingSince: since,
+    dueAt,
+    remainingMs,
+    level,
+  };
+};
+
+// Breached conversations first, longest overdue at the top; the rest keep
+// their order
+export const sortBySlaBreach = <T extends SlaSubject>(
+  chats: T[],
+  policy: SlaPolicy,
+  now = Date.now()
+) => {
+  const overdue = new Map<T, number>();
+  chats.forEach((chat) => {
+    const state = getSlaState(chat, policy, now);
+    if (state?.level === "breached") overdue.set(chat, state.remainingMs);
+  });
+  if (overdue.size === 0) return chats;
+  return [
+    ...[...overdue.keys()].sort(
+      (a, b) => (overdue.get(a) ?? 0) - (overdue.get(b) ?? 0)
+    ),
+    ...chats.filter((chat) => !overdue.has(chat)),
+  ];
+};
+
+// "4:05 left" under an hour, so the countdown visibly moves
+export const formatSlaCountdown = (remainingMs: number) => {
+  const ms = Math.abs(remainingMs);
+  let text = formatDuration(ms);
+  if (ms < 60 * 60000) {
+    const seconds = Math.floor(ms / 1000);
+    const rest = String(seconds % 60).padStart(2, "0");
+    text = `${Math.floor(seconds / 60)}:${rest}`;
+  }
+  return remainingMs > 0 ? `${text} left` : `${text} over`;
+};
@@ -0,0 +1,163 @@
+import type { ChatLog } from "../lib/types";
+import { isActiveChat } from "./chatStatus";
+import { isCustomerMessage, isSupportMessage } from "./messages";
+import { countTags } from "./tags";
+
+export interface DateRange {
+  // Inclusive local calendar days
+  from: Date;
+  to: Date;
+}
+
+export interface DailyVolume {
+  date: string;
+  count: number;
+}
+
+export interface HourlyVolume {
+  hour: number;
+  count: number;
+}
+
+export interface SupportMetrics {
+  // Open or pending conversations with activity inside the range
+  openConversations: number;
+  // Conversations with messages past the agent's read cursor, as in the
+  // "unread" filter; needs `hasUnread` set on the logs
+  unreadConversations: number;
+  totalMessages: number;
+  volumeByDay: DailyVolume[];
+  medianFirstResponseMs: number | null;
+  medianReplyMs: number | null;
+  hourlyVolume: HourlyVolume[];
+  busiestHours: HourlyVolume[];
+  // Conversations with messages inside the range, per tag
+  tagCounts: { name: string; count: number }[];
+}
+
+const startOfDay = (date: Date) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Calendar arithmetic, so DST changes don't shift day boundaries
+const addDays = (date: Date, days: number) =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+// Local YYYY-MM-DD, used as the key for per-day buckets
+export const toDayKey = (date: Date) => {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const parseDayKey = (key: string) => {
+  const [year, month, day] = key.split("-").map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const lastNDays = (days: number): DateRange => {
+  const to = startOfDay(new Date());
+  return { from: addDays(to, 1 - days), to };
+};
+
+// The range as ISO instants, for APIs that filter by timestamp
+export const toTimeBounds = ({ from, to }: DateRange) => ({
+  from: startOfDay(from).toISOString(),
+  to: addDays(to, 1).toISOString(),
+});
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const formatDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+export const computeSupportMetrics = (
+  logs: ChatLog[],
+  range: DateRange
+): SupportMetrics => {
+  const rangeStart = startOfDay(range.from).getTime();
+  const rangeEnd = addDays(range.to, 1).getTime();
+  const inRange = (time: number) => time >= rangeStart && time < rangeEnd;
+
+  const dailyCounts = new Map<string, number>();
+  for (
+    let day = startOfDay(range.from);
+    day.getTime() < rangeEnd;
+    day = addDays(day, 1)
+  ) {
+    dailyCounts.set(toDayKey(day), 0);
+  }
+  const hourlyCounts = new Array<number>(24).fill(0);
+  const firstResponseTimes: number[] = [];
+  const replyTimes: number[] = [];
+  let openConversations = 0;
+  let unreadConversations = 0;
+  let totalMessages = 0;
+  const activeLogs: ChatLog[] = [];
+
+  for (const log of logs) {
+    const messages = log.userLogs
+      .map((msg) => ({ ...msg, time: new Date(msg.timestamp).getTime() }))
+      .sort((a, b) => a.time - b.time);
+
+    const activeInRange = messages.some((msg) => inRange(msg.time));
+    if (activeInRange) activeLogs.push(log);
+    if (isActiveChat(log) && activeInRange) openConversations++;
+    if (log.hasUnread) unreadConversations++;
+
+    // Time from the first unanswered customer message to the next agent
+    // reply; bot answers do not count, this measures the human team
+    let waitingSince: number | null = null;
+    let answeredBefore = false;
+    for (const msg of messages) {
+      if (inRange(msg.time)) {
+        totalMessages++;
+        const date = new Date(msg.time);
+        const key = toDayKey(date);
+        dailyCounts.set(key, (dailyCounts.get(key) ?? 0) + 1);
+        hourlyCounts[date.getHours()]++;
+      }
+
+      if (isCustomerMessage(msg.sender)) {
+        waitingSince ??= msg.time;
+      } else if (isSupportMessage(msg.sender) && waitingSince !== null) {
+        if (inRange(msg.time)) {
+          replyTimes.push(msg.time - waitingSince);
+          if (!answeredBefore) firstResponseTimes.push(msg.time - waitingSince);
+        }
+        answeredBefore = true;
+        waitingSince = null;
+      }
+    }
+  }
+
+  const hourlyVolume = hourlyCounts.map((count, hour) => ({ hour, count }));
+
+  return {
+    openConversations,
+    unreadConversations,
+    totalMessages,
+    volumeByDay: [...dailyCounts].map(([date, count]) => ({ date, count })),
+    medianFirstResponseMs: median(firstResponseTimes),
+    medianReplyMs: median(replyTimes),
+    hourlyVolume,
+    busiestHours: [...hourlyVolume]
+      .filter((entry) => entry.count > 0)
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 3),
+    tagCounts: countTags(activeLogs),
+  };
+};
@@ -0,0 +1,65 @@
+import type { TagColor, TagDefinition } from "../lib/types";
+
+export const TAG_COLORS: {
+  value: TagColor;
+  label: string;
+  className: string;
+}[] = [
+  { value: "gray", label: "Gray", className: "bg-gray-100 text-gray-700" },
+  { value: "red", label: "Red", className: "bg-red-100 text-red-800" },
+  {
+    value: "orange",
+    label: "Orange",
+    className: "bg-orange-100 text-orange-800",
+  },
+  {
+    value: "yellow",
+    label: "Yellow",
+    className: "bg-yellow-100 text-yellow-800",
+  },
+  { value: "green", label: "Green", className: "bg-green-100 text-green-800" },
+  { value: "teal", label: "Teal", className: "bg-teal-100 text-teal-800" },
+  { value: "blue", label: "Blue", className: "bg-blue-100 text-blue-800" },
+  {
+    value: "purple",
+    label: "Purple",
+    className: "bg-purple-100 text-purple-800",
+  },
+  { value: "pink", label: "Pink", className: "bg-pink-100 text-pink-800" },
+];
+
+export const isTagColor = (value: unknown): value is TagColor =>
+  TAG_COLORS.some((option) => option.value === value);
+
+// Tags that were deleted or are not loaded yet show in gray
+export const getTagClassName = (name: string, catalog: TagDefinition[]) => {
+  const color = catalog.find((tag) => tag.name === name)?.color ?? "gray";
+  return (
+    TAG_COLORS.find((option) => option.value === color) ?? TAG_COLORS[0]
+  ).className;
+};
+
+export const MAX_TAG_NAME_LENGTH = 32;
+
+// Lowercase words joined by dashes, e.g. "Feature request" becomes
+// "feature-request"
+export const normalizeTagName = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, MAX_TAG_NAME_LENGTH);
+
+// Conversations per tag, most used first
+export const countTags = (chats: { tags?: string[] }[]) => {
+  const counts = new Map<string, number>();
+  chats.forEach((chat) =>
+    new Set(chat.tags ?? []).forEach((tag) =>
+      counts.set(tag, (counts.get(tag) ?? 0) + 1)
+    )
+  );
+  return [...counts]
+    .map(([name, count]) => ({ name, count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
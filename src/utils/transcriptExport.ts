@@ -0,0 +1,318 @@
+import type { ChatLog } from "../lib/types";
+import { getChatStatus, getStatusOption } from "./chatStatus";
+import { toCsv } from "./csv";
+import {
+  describeMessage,
+  getSenderLabel,
+  getSenderRole,
+  type SenderRole,
+} from "./messages";
+import { buildTimeline } from "./notes";
+
+export type ExportFormat = "json" | "csv" | "html" | "txt";
+
+export interface TranscriptExportOptions {
+  format: ExportFormat;
+  // IANA zone every rendered timestamp is converted to
+  timeZone: string;
+  // Internal notes are left out unless asked for, as exports may be shared
+  includeNotes: boolean;
+}
+
+export const EXPORT_FORMATS: {
+  value: ExportFormat;
+  label: string;
+  mimeType: string;
+}[] = [
+  { value: "json", label: "JSON", mimeType: "application/json" },
+  { value: "csv", label: "CSV", mimeType: "text/csv" },
+  { value: "html", label: "HTML (printable)", mimeType: "text/html" },
+  { value: "txt", label: "Plain text", mimeType: "text/plain" },
+];
+
+const FALLBACK_TIME_ZONES = [
+  "UTC",
+  "America/Los_Angeles",
+  "America/New_York",
+  "Europe/London",
+  "Europe/Berlin",
+  "Asia/Kolkata",
+  "Asia/Singapore",
+  "Australia/Sydney",
+];
+
+export const getLocalTimeZone = () =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+export const getTimeZones = () => {
+  const intl = Intl as {
+    supportedValuesOf?: (key: "timeZone") => string[];
+  };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? FALLBACK_TIME_ZONES;
+  return zones.includes("UTC") ? zones : ["UTC", ...zones];
+};
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const OPTIONS_STORAGE_KEY = "sayy-admin-export-options";
+
+// The last export choice is reused by the next export, wherever it starts
+export const loadExportOptions = (): TranscriptExportOptions => {
+  const defaults: TranscriptExportOptions = {
+    format: "html",
+    timeZone: getLocalTimeZone(),
+    includeNotes: false,
+  };
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(OPTIONS_STORAGE_KEY) ?? "{}"
+    );
+    return {
+      format: EXPORT_FORMATS.some((item) => item.value === stored.format)
+        ? stored.format
+        : defaults.format,
+      timeZone:
+        typeof stored.timeZone === "string" && isValidTimeZone(stored.timeZone)
+          ? stored.timeZone
+          : defaults.timeZone,
+      includeNotes: stored.includeNotes === true,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveExportOptions = (options: TranscriptExportOptions) =>
+  localStorage.setItem(OPTIONS_STORAGE_KEY, JSON.stringify(options));
+
+// "2024-03-05 14:07:09 GMT+1" in the requested zone, the same in every format
+export const formatExportTimestamp = (value: string, timeZone: string) => {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+      timeZoneName: "shortOffset",
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+  return `${parts.year}-${parts.month}-${parts.day} ${parts.hour}:${parts.minute}:${parts.second} ${parts.timeZoneName}`;
+};
+
+interface ExportEntry {
+  kind: "message" | "note";
+  id: string;
+  // Customer, AI bot or the agent's name for messages; the author's name
+  // for notes
+  sender: string;
+  role: SenderRole | null;
+  timestamp: string;
+  content: string;
+}
+
+// Messages, plus notes when requested, flattened for the text formats
+const toEntries = (
+  log: ChatLog,
+  options: TranscriptExportOptions
+): ExportEntry[] =>
+  buildTimeline(log)
+    .filter((item) => options.includeNotes || item.kind === "message")
+    .map((item) =>
+      item.kind === "message"
+        ? {
+            kind: item.kind,
+            id: item.message.id ?? "",
+            sender: getSenderLabel(item.message),
+            role: getSenderRole(item.message.sender),
+            timestamp: item.message.timestamp,
+            content: describeMessage(item.message),
+          }
+        : {
+            kind: item.kind,
+            id: item.note.id,
+            sender: item.note.author.name,
+            role: null,
+            timestamp: item.note.timestamp,
+            content: item.note.content,
+          }
+    );
+
+// JSON keeps the raw ChatLog shape, with timestamps normalized to UTC ISO
+const toJson = (logs: ChatLog[], options: TranscriptExportOptions) => {
+  const toIso = (value: string) => {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+  };
+  const exported = logs.map((log) => {
+    const { notes, mentionedAgentIds, ...rest } = log;
+    return {
+      ...rest,
+      // Local UI state, not part of the conversation
+      hasUnread: undefined,
+      userLogs: log.userLogs.map((msg) => ({
+        ...msg,
+        timestamp: toIso(msg.timestamp),
+      })),
+      ...(options.includeNotes
+        ? {
+            notes: (notes ?? []).map((note) => ({
+              ...note,
+              timestamp: toIso(note.timestamp),
+            })),
+            mentionedAgentIds,
+          }
+        : {}),
+    };
+  });
+  return JSON.stringify(exported.length === 1 ? exported[0] : exported, null, 2);
+};
+
+const CSV_COLUMNS = [
+  "clientId",
+  "chatTitle",
+  "status",
+  "type",
+  "messageId",
+  "sender",
+  "timestamp",
+  "content",
+];
+
+const toTranscriptCsv = (
+  logs: ChatLog[],
+  options: TranscriptExportOptions
+) =>
+  toCsv(
+    CSV_COLUMNS,
+    logs.flatMap((log) =>
+      toEntries(log, options).map((entry) => [
+        log.clientId,
+        log.chatTitle,
+        getChatStatus(log),
+        entry.kind,
+        entry.id,
+        entry.sender,
+        formatExportTimestamp(entry.timestamp, options.timeZone),
+        entry.content,
+      ])
+    )
+  );
+
+const toText = (logs: ChatLog[], options: TranscriptExportOptions) =>
+  logs
+    .map((log) => {
+      const header = [
+        log.chatTitle,
+        `Client: ${log.clientId}`,
+        `Status: ${getStatusOption(getChatStatus(log)).label}`,
+        `Times: ${options.timeZone}`,
+      ];
+      const lines = toEntries(log, options).map((entry) => {
+        const time = formatExportTimestamp(entry.timestamp, options.timeZone);
+        const label =
+          entry.kind === "note" ? `(internal note) ${entry.sender}` : entry.sender;
+        return `[${time}] ${label}: ${entry.content}`;
+      });
+      return [...header, "", ...lines].join("\n");
+    })
+    .join(`\n\n${"=".repeat(60)}\n\n`) + "\n";
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; color: #1f2937; margin: 2rem; }
+  section + section { page-break-before: always; }
+  h1 { font-size: 1.25rem; margin: 0 0 0.25rem; }
+  .meta { color: #6b7280; font-size: 0.85rem; margin-bottom: 1rem; }
+  .entry { border-left: 3px solid #e5e7eb; padding: 0.25rem 0.75rem;
+    margin: 0.5rem 0; }
+  .entry.agent { border-color: #4f46e5; }
+  .entry.bot { border-color: #0d9488; background: #f0fdfa; }
+  .entry.note { border-color: #f59e0b; background: #fffbeb; }
+  .who { font-weight: 600; font-size: 0.85rem; }
+  .when { color: #6b7280; font-size: 0.75rem; margin-left: 0.5rem; }
+  .text { white-space: pre-wrap; margin-top: 0.125rem; }
+`;
+
+const toHtml = (logs: ChatLog[], options: TranscriptExportOptions) => {
+  const sections = logs.map((log) => {
+    const entries = toEntries(log, options).map((entry) => {
+      const className = entry.role ?? "note";
+      const who =
+        entry.kind === "note" ? `Internal note · ${entry.sender}` : entry.sender;
+      const when = formatExportTimestamp(entry.timestamp, options.timeZone);
+      return `<div class="entry ${className}"><span class="who">${escapeHtml(
+        who
+      )}</span><span class="when">${escapeHtml(
+        when
+      )}</span><div class="text">${escapeHtml(entry.content)}</div></div>`;
+    });
+    return `<section><h1>${escapeHtml(log.chatTitle)}</h1>
+<div class="meta">${escapeHtml(log.clientId)} · ${escapeHtml(
+      getStatusOption(getChatStatus(log)).label
+    )} · Times in ${escapeHtml(options.timeZone)}</div>
+${entries.join("\n")}
+</section>`;
+  });
+  const title =
+    logs.length === 1 ? logs[0].chatTitle : `${logs.length} transcripts`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${sections.join("\n")}
+</body>
+</html>
+`;
+};
+
+const SERIALIZERS: Record<
+  ExportFormat,
+  (logs: ChatLog[], options: TranscriptExportOptions) => string
+> = {
+  json: toJson,
+  csv: toTranscriptCsv,
+  html: toHtml,
+  txt: toText,
+};
+
+export const exportTranscripts = (
+  logs: ChatLog[],
+  options: TranscriptExportOptions
+) => {
+  const format = EXPORT_FORMATS.find((item) => item.value === options.format);
+  const base =
+    logs.length === 1
+      ? `transcript-${logs[0].clientId}`
+      : `transcripts-${new Date().toISOString().slice(0, 10)}`;
+  return {
+    filename: `${base.replace(/[^\w.-]+/g, "_")}.${options.format}`,
+    content: SERIALIZERS[options.format](logs, options),
+    mimeType: `${format?.mimeType ?? "text/plain"};charset=utf-8`,
+  };
+};
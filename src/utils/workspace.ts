@@ -0,0 +1,43 @@
+// Open conversations live in the URL next to the list filters: the focused
+// one in the path (/support/:clientId), every open one in ?tabs=a,b,c.
+
+export const MAX_OPEN_CHATS = 6;
+
+const TABS_PARAM = "tabs";
+
+export type WorkspaceLayout = "tabs" | "split";
+
+export const parseOpenChats = (params: URLSearchParams): string[] => [
+  ...new Set(
+    (params.get(TABS_PARAM) ?? "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean)
+  ),
+];
+
+// Copy of `params` with the tab list replaced
+export const withOpenChats = (params: URLSearchParams, clientIds: string[]) => {
+  const next = new URLSearchParams(params);
+  if (clientIds.length) next.set(TABS_PARAM, clientIds.join(","));
+  else next.delete(TABS_PARAM);
+  return next;
+};
+
+export const supportPath = (clientId: string | null) =>
+  clientId ? `/support/${encodeURIComponent(clientId)}` : "/support";
+
+// Opening one more than the limit closes the longest-open tab; its draft is
+// kept, so nothing is lost
+export const addOpenChat = (openIds: string[], clientId: string) => {
+  if (openIds.includes(clientId)) return openIds;
+  const next = [...openIds, clientId];
+  return next.length > MAX_OPEN_CHATS ? next.slice(-MAX_OPEN_CHATS) : next;
+};
+
+// Tab to focus after closing `clientId`: the one to its right, else left
+export const neighbourAfterClose = (openIds: string[], clientId: string) => {
+  const index = openIds.indexOf(clientId);
+  const rest = openIds.filter((id) => id !== clientId);
+  return rest[Math.min(index, rest.length - 1)] ?? null;
+};
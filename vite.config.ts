@@ -1,20 +1,75 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import react from "@vitejs/plugin-react";
+import { mockBackend } from "./mock/devServer";
+
+// `npm run dev:mock` serves /api from the local mock backend instead of
+// proxying to production
+const useMockBackend = process.env.MOCK_API === "1";
+
+// In development /config.json points at the dev server, which either
+// proxies to production or runs the mock. Builds use public/config.json.
+const devRuntimeConfig = (): Plugin => ({
+  name: "sayy-dev-runtime-config",
+  apply: "serve",
+  configureServer(server) {
+    const environments = useMockBackend
+      ? [
+          { id: "mock", label: "Mock backend", production: false },
+          // Same mock, to try the switcher and the production styling
+          {
+            id: "mock-production",
+            label: "Mock backend (as production)",
+            production: true,
+          },
+        ]
+      : [
+          {
+            id: "production",
+            label: "Production (dev proxy)",
+            production: true,
+          },
+        ];
+    const config = {
+      defaultEnvironment: environments[0].id,
+      environments: environments.map((environment) => ({
+        ...environment,
+        apiUrl: "/api",
+        socketUrl: "/",
+      })),
+    };
+    server.middlewares.use("/config.json", (_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(config));
+    });
+  },
+});
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    devRuntimeConfig(),
+    ...(useMockBackend ? [mockBackend()] : []),
+  ],
   optimizeDeps: {
     exclude: ["lucide-react"],
   },
   server: {
-    proxy: {
-      "/api": {
-        target: "https://api.sayy.ai",
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api/, ""),
-        secure: false,
-      },
-    },
+    proxy: useMockBackend
+      ? undefined
+      : {
+          "/api": {
+            target: "https://api.sayy.ai",
+            changeOrigin: true,
+            rewrite: (path) => path.replace(/^\/api/, ""),
+            secure: false,
+          },
+          "/socket.io": {
+            target: "wss://api.sayy.ai",
+            ws: true,
+            changeOrigin: true,
+            secure: false,
+          },
+        },
   },
 });